@@ -63,6 +63,14 @@ export function App() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/vocabulary/review"
+        element={
+          <ProtectedRoute>
+            <VocabularyLearning acrossBooks />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/vocabulary/:bookId"
         element={
@@ -79,6 +87,14 @@ export function App() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/vocabulary/:bookId/custom/*"
+        element={
+          <ProtectedRoute>
+            <VocabularyLearning customStudy />
+          </ProtectedRoute>
+        }
+      />
     </Routes>
   )
 }
@@ -21,3 +21,30 @@ export { useBookDetail, useInvalidateBookDetail, formatWordForDisplay } from "./
 export type { UseBookDetailReturn, BookDetailData } from "./useBookDetail"
 export { useDashboardData, useTakeawayStats } from "./useDashboardData"
 export { useCreateBook } from "./useCreateBook"
+export { useLearningSession } from "./useLearningSession"
+export type { UseLearningSessionReturn } from "./useLearningSession"
+export { useDueReviews } from "./useDueReviews"
+export type { UseDueReviewsReturn } from "./useDueReviews"
+export { useBookTags } from "./useBookTags"
+export type { UseBookTagsReturn } from "./useBookTags"
+export { useQuizWords } from "./useQuizWords"
+export type { UseQuizWordsReturn } from "./useQuizWords"
+export { useUndoLastReview } from "./useUndoLastReview"
+export type { UseUndoLastReviewReturn } from "./useUndoLastReview"
+export { useLeechWords } from "./useLeechWords"
+export type { UseLeechWordsReturn } from "./useLeechWords"
+export { useWordFlags } from "./useWordFlags"
+export type { UseWordFlagsReturn } from "./useWordFlags"
+export { useDueShifts } from "./useDueShifts"
+export type { UseDueShiftsReturn } from "./useDueShifts"
+export { useReschedule } from "./useReschedule"
+export type { UseRescheduleReturn } from "./useReschedule"
+export { useWorkloadForecast } from "./useWorkloadForecast"
+export type { UseWorkloadForecastReturn } from "./useWorkloadForecast"
+export { useOfflineReviews } from "./useOfflineReviews"
+export type { UseOfflineReviewsReturn } from "./useOfflineReviews"
+export { useReviewTimer, REVIEW_IDLE_THRESHOLD_MS } from "./useReviewTimer"
+export type { UseReviewTimerReturn } from "./useReviewTimer"
+export { useUserProfile } from "./useUserProfile"
+export type { UseUserProfileReturn } from "./useUserProfile"
+export { useFSRSParams, useFSRSOptimizer } from "./useFSRSParams"
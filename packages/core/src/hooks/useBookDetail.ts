@@ -9,7 +9,8 @@ import {
   getTodayLearningSession,
   getRecentWords,
   getDifficultWords,
-  initializeBookProgress
+  initializeBookProgress,
+  isBuried
 } from "../services/vocabulary-detail"
 import { stateToMasteryLevel } from "../services/fsrs"
 import { queryKeys } from "../query"
@@ -18,6 +19,7 @@ import type {
   UserBookProgress,
   BookDetailStats,
   WordWithProgress,
+  WordFlag,
   TodayLearningSession
 } from "../types/vocabulary"
 
@@ -157,6 +159,7 @@ export function useInvalidateBookDetail() {
       queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.byId(bookId, userId) })
       queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.recentWords(bookId, userId) })
       queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.difficultWords(bookId, userId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.leeches(bookId, userId) })
       queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.todaySession(bookId, userId) })
     },
     invalidateTodaySession: (bookId: string, userId: string) =>
@@ -173,6 +176,7 @@ export function formatWordForDisplay(word: WordWithProgress): {
   mastery: "new" | "learning" | "mastered"
   lastReviewed: string | null
   nextReview: string | null
+  flags: Record<WordFlag, boolean>
 } {
   const mastery = stateToMasteryLevel(word.state, word.stability)
   
@@ -181,7 +185,12 @@ export function formatWordForDisplay(word: WordWithProgress): {
     word: word.word,
     mastery,
     lastReviewed: word.last_review_at ? formatRelativeTime(word.last_review_at) : null,
-    nextReview: word.due_at ? formatRelativeTime(word.due_at, true) : null
+    nextReview: word.due_at ? formatRelativeTime(word.due_at, true) : null,
+    flags: {
+      suspended: word.is_suspended,
+      buried: isBuried(word.buried_until),
+      known: word.is_known
+    }
   }
 }
 
@@ -49,6 +49,10 @@ export function useBookSettings({
     onSuccess: (data) => {
       // Update the cache with the new data
       queryClient.setQueryData(queryKey, data)
+      // Limits and study order change today's session and the book stats
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.todaySession(bookId, userId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.byId(bookId, userId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.dueReviews.session(userId) })
     }
   })
 
@@ -0,0 +1,39 @@
+/**
+ * useBookTags Hook
+ * TanStack Query hook for the tags used by a book's words
+ */
+
+import { useQuery } from "@tanstack/react-query"
+import { getBookTags } from "../services/vocabulary"
+import { queryKeys } from "../query"
+
+interface UseBookTagsOptions {
+  bookId: string | null
+  enabled?: boolean
+}
+
+export interface UseBookTagsReturn {
+  tags: string[]
+  isLoading: boolean
+  error: Error | null
+}
+
+/**
+ * Hook for listing a book's word tags
+ */
+export function useBookTags({ bookId, enabled = true }: UseBookTagsOptions): UseBookTagsReturn {
+  const tagsQuery = useQuery({
+    queryKey: queryKeys.vocabularyBooks.tags(bookId || ""),
+    queryFn: () => getBookTags(bookId!),
+    enabled: enabled && !!bookId,
+    staleTime: 5 * 60 * 1000 // 5 minutes
+  })
+
+  return {
+    tags: tagsQuery.data ?? [],
+    isLoading: tagsQuery.isLoading,
+    error: tagsQuery.error ?? null
+  }
+}
+
+export default useBookTags
@@ -0,0 +1,44 @@
+/**
+ * useDueReviews Hook
+ * TanStack Query hook for the due cards of every book the user studies
+ */
+
+import { useQuery } from "@tanstack/react-query"
+import { getDueReviewSession } from "../services/vocabulary-detail"
+import { queryKeys } from "../query"
+import type { DueReviewBook, DueReviewSession } from "../types/vocabulary"
+
+interface UseDueReviewsOptions {
+  userId: string | null
+  enabled?: boolean
+}
+
+export interface UseDueReviewsReturn {
+  session: DueReviewSession | null
+  books: DueReviewBook[]
+  totalDue: number
+  isLoading: boolean
+  error: Error | null
+}
+
+/**
+ * Hook for today's due cards across books, after each book's limits
+ */
+export function useDueReviews({ userId, enabled = true }: UseDueReviewsOptions): UseDueReviewsReturn {
+  const dueReviewsQuery = useQuery({
+    queryKey: queryKeys.dueReviews.session(userId || ""),
+    queryFn: () => getDueReviewSession(userId!),
+    enabled: enabled && !!userId,
+    staleTime: 30 * 1000 // 30 seconds
+  })
+
+  return {
+    session: dueReviewsQuery.data ?? null,
+    books: dueReviewsQuery.data?.books ?? [],
+    totalDue: dueReviewsQuery.data?.totalCount ?? 0,
+    isLoading: dueReviewsQuery.isLoading,
+    error: dueReviewsQuery.error ?? null
+  }
+}
+
+export default useDueReviews
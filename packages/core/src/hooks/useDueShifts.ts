@@ -0,0 +1,85 @@
+/**
+ * useDueShifts Hook
+ * Vacation mode: plan, apply and revert bulk shifts of review due dates
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  applyDueShift,
+  getDueShifts,
+  planDueShift,
+  revertDueShift,
+  type DueShiftOptions
+} from "../services/due-shift"
+import { queryKeys } from "../query"
+import type { DueShift, DueShiftPlan } from "../types/vocabulary"
+
+interface UseDueShiftsOptions {
+  userId: string | null
+  bookId: string | null  // Book whose shift history is listed
+  enabled?: boolean
+}
+
+export interface UseDueShiftsReturn {
+  shifts: DueShift[]
+  isLoading: boolean
+  planShift: (options: DueShiftOptions) => Promise<DueShiftPlan>
+  isPlanning: boolean
+  applyShift: (plan: DueShiftPlan) => Promise<DueShift>
+  isApplying: boolean
+  revertShift: (shiftId: string) => Promise<number | null>
+  isReverting: boolean
+  error: Error | null
+}
+
+/**
+ * Hook for vacation mode shifts
+ */
+export function useDueShifts({ userId, bookId, enabled = true }: UseDueShiftsOptions): UseDueShiftsReturn {
+  const queryClient = useQueryClient()
+
+  const shiftsQuery = useQuery({
+    queryKey: queryKeys.dueShifts.list(userId || "", bookId || ""),
+    queryFn: () => getDueShifts(userId!, bookId),
+    enabled: enabled && !!userId,
+    staleTime: 1 * 60 * 1000 // 1 minute
+  })
+
+  // A shift may cover every book, so all book details are refreshed
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.dueShifts.all })
+    queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.all })
+    queryClient.invalidateQueries({ queryKey: queryKeys.dueReviews.all })
+  }
+
+  const planMutation = useMutation({
+    mutationFn: (options: DueShiftOptions) => planDueShift(userId!, options)
+  })
+
+  const applyMutation = useMutation({
+    mutationFn: (plan: DueShiftPlan) => applyDueShift(userId!, plan),
+    onSuccess,
+    // Applying twice would log the same shift twice
+    retry: false
+  })
+
+  const revertMutation = useMutation({
+    mutationFn: (shiftId: string) => revertDueShift(userId!, shiftId),
+    onSuccess,
+    retry: false
+  })
+
+  return {
+    shifts: shiftsQuery.data ?? [],
+    isLoading: shiftsQuery.isLoading,
+    planShift: planMutation.mutateAsync,
+    isPlanning: planMutation.isPending,
+    applyShift: applyMutation.mutateAsync,
+    isApplying: applyMutation.isPending,
+    revertShift: revertMutation.mutateAsync,
+    isReverting: revertMutation.isPending,
+    error: planMutation.error ?? applyMutation.error ?? revertMutation.error ?? null
+  }
+}
+
+export default useDueShifts
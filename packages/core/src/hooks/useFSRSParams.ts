@@ -0,0 +1,169 @@
+/**
+ * useFSRSParams Hook
+ * TanStack Query hooks for per-user FSRS parameters and the optimizer worker
+ */
+
+import { useMemo, useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { FSRSScheduler } from "../services/fsrs"
+import {
+  getTrainingReviews,
+  getUserFSRSParams,
+  saveUserFSRSParams,
+  setUserFSRSVersion,
+  toFSRSParameters
+} from "../services/fsrs-params"
+import { getStudyDaySettings } from "../services/study-day"
+import type { FSRSOptimizerRequest, FSRSOptimizerResponse } from "../services/fsrs-optimizer"
+import { queryKeys } from "../query"
+import type {
+  FSRSOptimizationProgress,
+  FSRSOptimizationResult,
+  FSRSVersion,
+  UserFSRSParams
+} from "../types/vocabulary"
+
+interface UseFSRSParamsOptions {
+  userId: string | null
+  enabled?: boolean
+}
+
+interface UseFSRSParamsReturn {
+  params: UserFSRSParams | null
+  scheduler: FSRSScheduler
+  isLoading: boolean
+  error: Error | null
+}
+
+interface UseFSRSOptimizerReturn {
+  params: UserFSRSParams | null
+  version: FSRSVersion
+  isLoading: boolean
+  switchVersion: (version: FSRSVersion) => Promise<UserFSRSParams>
+  isSwitching: boolean
+  optimize: () => Promise<FSRSOptimizationResult>
+  isOptimizing: boolean
+  progress: FSRSOptimizationProgress | null
+  result: FSRSOptimizationResult | null
+  error: Error | null
+}
+
+/**
+ * Hook for the current user's FSRS parameters and the scheduler built from them
+ */
+export function useFSRSParams({
+  userId,
+  enabled = true
+}: UseFSRSParamsOptions): UseFSRSParamsReturn {
+  const query = useQuery({
+    queryKey: queryKeys.fsrs.params(userId || ""),
+    queryFn: () => getUserFSRSParams(userId!),
+    enabled: enabled && !!userId,
+    staleTime: 30 * 60 * 1000 // 30 minutes
+  })
+
+  const params = query.data ?? null
+  const scheduler = useMemo(() => new FSRSScheduler(toFSRSParameters(params)), [params])
+
+  return {
+    params,
+    scheduler,
+    isLoading: query.isLoading,
+    error: query.error ?? null
+  }
+}
+
+/**
+ * Hook for fitting FSRS parameters to the user's review history
+ * Fitting runs in a Web Worker; improved parameters are saved for the user
+ */
+export function useFSRSOptimizer({
+  userId,
+  enabled = true
+}: UseFSRSParamsOptions): UseFSRSOptimizerReturn {
+  const queryClient = useQueryClient()
+  const { params, isLoading } = useFSRSParams({ userId, enabled })
+  const [progress, setProgress] = useState<FSRSOptimizationProgress | null>(null)
+  const schedulerParams = toFSRSParameters(params)
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      setProgress(null)
+      const reviews = await getTrainingReviews(userId!)
+      const result = await runOptimizerWorker(
+        { reviews, params: schedulerParams, studyDay: getStudyDaySettings() },
+        setProgress
+      )
+
+      // Only keep parameters that predict the history better
+      if (result.logLossAfter < result.logLossBefore) {
+        await saveUserFSRSParams(userId!, result)
+      }
+      return result
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.fsrs.params(userId!) })
+    },
+    retry: false
+  })
+
+  const versionMutation = useMutation({
+    mutationFn: (version: FSRSVersion) => setUserFSRSVersion(userId!, version),
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKeys.fsrs.params(userId!), data)
+      mutation.reset()
+    }
+  })
+
+  return {
+    params,
+    version: schedulerParams.version,
+    isLoading,
+    switchVersion: versionMutation.mutateAsync,
+    isSwitching: versionMutation.isPending,
+    optimize: mutation.mutateAsync,
+    isOptimizing: mutation.isPending,
+    progress,
+    result: mutation.data ?? null,
+    error: mutation.error ?? versionMutation.error ?? null
+  }
+}
+
+/**
+ * Run the optimizer in a dedicated worker and resolve with its result
+ */
+function runOptimizerWorker(
+  request: FSRSOptimizerRequest,
+  onProgress: (progress: FSRSOptimizationProgress) => void
+): Promise<FSRSOptimizationResult> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(
+      new URL("../workers/fsrs-optimizer.worker.ts", import.meta.url),
+      { type: "module" }
+    )
+
+    worker.addEventListener("message", (event: MessageEvent<FSRSOptimizerResponse>) => {
+      const message = event.data
+      if (message.type === "progress") {
+        onProgress(message.progress)
+        return
+      }
+
+      worker.terminate()
+      if (message.type === "result") {
+        resolve(message.result)
+      } else {
+        reject(new Error(message.message))
+      }
+    })
+
+    worker.addEventListener("error", (event) => {
+      worker.terminate()
+      reject(new Error(event.message || "Optimizer worker failed"))
+    })
+
+    worker.postMessage(request)
+  })
+}
+
+export default useFSRSParams
@@ -0,0 +1,375 @@
+/**
+ * useLearningSession Hook
+ * Drives a flashcard learning session for a vocabulary book using FSRS scheduling,
+ * a review of every book's due cards, or custom study practised in preview
+ */
+
+import { useEffect, useMemo, useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { getBookById, getBookSettings } from "../services/vocabulary"
+import { createScheduler, getDueLoad, getLoadBalancingDays } from "../services/scheduler-factory"
+import { toFSRSParameters } from "../services/fsrs-params"
+import {
+  getCustomStudySession,
+  getTodayLearningSession,
+  getWordSchedulePreview,
+  logPreviewReview,
+  processWordReview,
+  removePreviewReview
+} from "../services/vocabulary-detail"
+import {
+  applySessionReview,
+  arrangeSessionQueue,
+  createSessionQueue,
+  getCurrentCard,
+  getNextLearningDueAt,
+  getRemainingCount,
+  isSessionComplete,
+  removeSessionCard,
+  undoSessionReview
+} from "../services/learning-session"
+import { useFSRSParams } from "./useFSRSParams"
+import { useUndoLastReview } from "./useUndoLastReview"
+import { useOfflineReviews } from "./useOfflineReviews"
+import { useWordFlags } from "./useWordFlags"
+import { useDueReviews } from "./useDueReviews"
+import { scheduleLocalReview } from "../services/offline-reviews"
+import { getCardKey } from "../services/card-templates"
+import { queryKeys } from "../query"
+import type {
+  BookSettings,
+  CustomStudyCriteria,
+  DueReviewBook,
+  FSRSRating,
+  LearningSessionQueue,
+  ReviewQueueOrder,
+  SessionCard,
+  SessionProgress,
+  SpacedRepetitionGrade,
+  WordWithProgress,
+  VocabularyBook,
+  WordFlag
+} from "../types/vocabulary"
+import { DEFAULT_BOOK_SETTINGS, GRADE_TO_RATING } from "../types/vocabulary"
+
+interface UseLearningSessionOptions {
+  bookId: string | null
+  userId: string | null
+  acrossBooks?: ReviewQueueOrder  // Review the due cards of every book, laid out this way, instead of one book
+  customStudy?: CustomStudyCriteria  // Practise these cards of the book in preview, leaving their schedule alone
+}
+
+export interface UseLearningSessionReturn {
+  book: VocabularyBook | null
+  books: DueReviewBook[]  // Books in a session across books
+  settings: BookSettings | null  // Settings of the current card's book
+  isPreview: boolean  // Custom study: grades are logged as practice and nothing is rescheduled
+  currentCard: SessionCard | null
+  schedulePreview: Record<FSRSRating, string> | null
+  reviewedCount: number
+  correctCount: number
+  remainingCount: number
+  totalCount: number
+  nextDueAt: number | null
+  isWaiting: boolean
+  isComplete: boolean
+  isLoading: boolean
+  error: Error | null
+  grade: (grade: SpacedRepetitionGrade, reviewTimeMs?: number | null) => Promise<void>
+  isGrading: boolean
+  gradeError: Error | null
+  undo: () => Promise<void>
+  canUndo: boolean
+  isUndoing: boolean
+  undoError: Error | null
+  flagCard: (flag: WordFlag) => Promise<void>  // Suspend, bury or mark the current card as known
+  isFlagging: boolean
+  flagError: Error | null
+  isOffline: boolean
+  pendingSyncCount: number  // Reviews saved on this device, waiting to sync
+  isSyncing: boolean
+}
+
+/**
+ * Hook for running a learning session on a vocabulary book
+ */
+export function useLearningSession({
+  bookId,
+  userId,
+  acrossBooks,
+  customStudy
+}: UseLearningSessionOptions): UseLearningSessionReturn {
+  const queryClient = useQueryClient()
+  const isAcrossBooks = acrossBooks !== undefined
+  const isPreview = customStudy !== undefined && !isAcrossBooks
+  const enabled = !!userId && (isAcrossBooks || !!bookId)
+  const [session, setSession] = useState<LearningSessionQueue | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+
+  const bookQuery = useQuery({
+    queryKey: queryKeys.vocabularyBooks.detail(bookId || ""),
+    queryFn: () => getBookById(bookId!),
+    enabled: !isAcrossBooks && !!bookId,
+    staleTime: 5 * 60 * 1000 // 5 minutes
+  })
+
+  const todaySessionQuery = useQuery({
+    queryKey: queryKeys.bookDetail.todaySession(bookId || "", userId || ""),
+    queryFn: () => getTodayLearningSession(bookId!, userId!),
+    enabled: enabled && !isAcrossBooks && !isPreview,
+    staleTime: 30 * 1000 // 30 seconds
+  })
+
+  const customStudyQuery = useQuery({
+    queryKey: queryKeys.bookDetail.customStudy(bookId || "", userId || "", customStudy),
+    queryFn: () => getCustomStudySession(bookId!, userId!, customStudy!),
+    enabled: enabled && isPreview,
+    // A random sample is drawn afresh for every session
+    gcTime: 0
+  })
+
+  const dueReviews = useDueReviews({ userId, enabled: isAcrossBooks })
+  const sessionData = isAcrossBooks
+    ? dueReviews.session
+    : isPreview ? customStudyQuery.data : todaySessionQuery.data
+  const [books, setBooks] = useState<DueReviewBook[]>([])
+
+  // Build the queue once per session; later refetches must not reset progress
+  useEffect(() => {
+    if (sessionData && !session) {
+      const queue = createSessionQueue(sessionData)
+      setSession(acrossBooks ? arrangeSessionQueue(queue, acrossBooks) : queue)
+      setBooks(dueReviews.session?.books ?? [])
+    }
+  }, [sessionData, session, acrossBooks, dueReviews.session])
+
+  // Cards still to come follow a change of layout
+  useEffect(() => {
+    if (acrossBooks) {
+      setSession((prev) => (prev ? arrangeSessionQueue(prev, acrossBooks) : prev))
+    }
+  }, [acrossBooks])
+
+  const currentCard = session ? getCurrentCard(session, new Date(now)) : null
+  const nextDueAt = session ? getNextLearningDueAt(session) : null
+
+  // Wake up when the next learning card becomes due
+  useEffect(() => {
+    if (currentCard || nextDueAt === null) return
+    const timer = setTimeout(() => setNow(Date.now()), Math.max(0, nextDueAt - Date.now()))
+    return () => clearTimeout(timer)
+  }, [currentCard, nextDueAt])
+
+  // Cards of a session across books each follow their own book
+  const cardBookId = currentCard?.word.book_id ?? bookId
+
+  // Preview intervals with the same algorithm and parameters processWordReview will use
+  const settingsQuery = useQuery({
+    queryKey: queryKeys.vocabularyBooks.settings(userId || "", bookId || ""),
+    queryFn: () => getBookSettings(userId!, bookId!),
+    enabled: enabled && !isAcrossBooks,
+    staleTime: 5 * 60 * 1000 // 5 minutes
+  })
+  const { params: userFSRSParams } = useFSRSParams({ userId })
+  const bookSettings = isAcrossBooks
+    ? books.find((book) => book.book_id === cardBookId)?.settings
+    : settingsQuery.data
+  // With load balancing the preview needs the same due load getBookScheduler reads
+  const loadDays = !isPreview && bookSettings ? getLoadBalancingDays(bookSettings) : null
+  const dueLoadQuery = useQuery({
+    queryKey: queryKeys.fsrs.dueLoad(userId || "", loadDays ?? 0),
+    queryFn: () => getDueLoad(userId!, loadDays!),
+    enabled: enabled && !!userId && loadDays !== null,
+    staleTime: 30 * 1000 // 30 seconds
+  })
+  const dueLoad = loadDays !== null ? dueLoadQuery.data ?? null : null
+  const scheduler = useMemo(
+    () => createScheduler(bookSettings ?? DEFAULT_BOOK_SETTINGS, toFSRSParameters(userFSRSParams), dueLoad),
+    [bookSettings, userFSRSParams, dueLoad]
+  )
+  // Preview practice schedules nothing, so there are no intervals to show
+  const schedulePreview = useMemo(
+    () => (currentCard && !isPreview
+      ? getWordSchedulePreview({ ...currentCard.word, word_id: currentCard.word.id }, scheduler)
+      : null),
+    [currentCard, scheduler, isPreview]
+  )
+
+  // Without a connection, reviews are scheduled locally and queued for replay
+  const offline = useOfflineReviews({ userId })
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({
+      word,
+      grade,
+      reviewTimeMs
+    }: {
+      word: WordWithProgress
+      grade: SpacedRepetitionGrade
+      reviewTimeMs?: number | null
+    }): Promise<{ progress: SessionProgress; offlineReviewId?: string; previewLogId?: string }> => {
+      const rating = GRADE_TO_RATING[grade]
+
+      // Preview practice is scheduled in memory only, to bring missed cards back;
+      // practice made offline is not logged
+      if (isPreview) {
+        const previewLogId = offline.isOnline
+          ? await logPreviewReview(userId!, word, grade, reviewTimeMs)
+          : undefined
+        return { progress: scheduleLocalReview(word, rating, scheduler), previewLogId }
+      }
+
+      const reviewOffline = async () => {
+        const reviewedAt = new Date()
+        const pending = await offline.queueReview({
+          wordId: word.id,
+          bookId: word.book_id,
+          cardType: word.card_type,
+          rating,
+          reviewedAt,
+          reviewTimeMs
+        })
+        return { progress: scheduleLocalReview(word, rating, scheduler, reviewedAt), offlineReviewId: pending.id }
+      }
+
+      if (!offline.isOnline) return reviewOffline()
+
+      // Earlier offline reviews go first so the server sees them in order;
+      // a failed sync keeps them queued and must not fail this review
+      if (offline.pendingCount > 0) {
+        await offline.sync().catch((err) => console.error("Error syncing offline reviews:", err))
+      }
+
+      const { progress, isOffline } = await processWordReview(
+        userId!,
+        word.id,
+        word.book_id,
+        word.card_type,
+        grade,
+        reviewTimeMs
+      )
+      if (!progress) {
+        // The request never reached the server (the browser may still report online)
+        if (isOffline) return reviewOffline()
+        throw new Error("Failed to save review")
+      }
+      return { progress }
+    },
+    onSuccess: ({ progress, offlineReviewId, previewLogId }, { word, grade }) => {
+      setSession((prev) =>
+        prev
+          ? applySessionReview(prev, getCardKey(word), progress, GRADE_TO_RATING[grade] >= 3, { offlineReviewId, previewLogId })
+          : prev
+      )
+      setNow(Date.now())
+      if (isPreview) return
+
+      // Each saved review adds to the load the next due date is balanced against
+      queryClient.invalidateQueries({ queryKey: queryKeys.fsrs.dueLoads(userId!) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.byId(word.book_id, userId!) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.recentWords(word.book_id, userId!) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.difficultWords(word.book_id, userId!) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.leeches(word.book_id, userId!) })
+    },
+    // Reviews are not idempotent; never replay one automatically
+    retry: false,
+    // Must run offline too, where the review is queued instead of sent
+    networkMode: "always"
+  })
+
+  const grade = async (value: SpacedRepetitionGrade, reviewTimeMs?: number | null) => {
+    if (!currentCard || !enabled) return
+    await reviewMutation.mutateAsync({ word: currentCard.word, grade: value, reviewTimeMs })
+  }
+
+  // Undo the last grade of this session and show its card again
+  const { undo: undoLastReview, isUndoing, error: undoError } = useUndoLastReview({ userId })
+  const canUndo = !!session && session.history.length > 0 && !reviewMutation.isPending
+
+  const undo = async () => {
+    if (!session || !canUndo || isUndoing) return
+    const last = session.history[session.history.length - 1]
+    const lastWordId = last.card.word.id
+    const lastCardKey = getCardKey(last.card.word)
+
+    // Preview practice only has its log to remove
+    if (isPreview) {
+      if (last.previewLogId && !(await removePreviewReview(userId!, last.previewLogId))) return
+      setSession((prev) => (prev ? undoSessionReview(prev, lastCardKey) : prev))
+      setNow(Date.now())
+      return
+    }
+
+    // A review still in the offline queue never reached the server
+    if (last.offlineReviewId && (await offline.removeReview(last.offlineReviewId))) {
+      setSession((prev) => (prev ? undoSessionReview(prev, lastCardKey) : prev))
+      setNow(Date.now())
+      return
+    }
+
+    const progress = await undoLastReview(lastWordId, last.card.word.card_type)
+    if (progress) {
+      setSession((prev) => (prev ? undoSessionReview(prev, lastCardKey, progress) : prev))
+      setNow(Date.now())
+    }
+  }
+
+  // Flags belong to the word, so flagging the current card takes every one of
+  // the word's cards out of the session, sibling templates included
+  const { setFlag, isUpdating: isFlagging, error: flagError } = useWordFlags({ userId, bookId: cardBookId })
+
+  const flagCard = async (flag: WordFlag) => {
+    if (!currentCard || !enabled || isFlagging) return
+    const wordId = currentCard.word.id
+    await setFlag(wordId, flag, true)
+    setSession((prev) => (prev ? removeSessionCard(prev, wordId) : prev))
+    setNow(Date.now())
+  }
+
+  // Today's queues are stale once the session has started
+  useEffect(() => {
+    return () => {
+      if (!userId) return
+      queryClient.invalidateQueries({ queryKey: queryKeys.dueReviews.session(userId) })
+      if (isAcrossBooks) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.all })
+      } else if (bookId) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.todaySession(bookId, userId) })
+      }
+    }
+  }, [queryClient, bookId, userId, isAcrossBooks])
+
+  return {
+    book: bookQuery.data ?? null,
+    books,
+    settings: bookSettings ?? null,
+    isPreview,
+    currentCard,
+    schedulePreview,
+    reviewedCount: session?.reviewedCount ?? 0,
+    correctCount: session?.correctCount ?? 0,
+    remainingCount: session ? getRemainingCount(session) : 0,
+    totalCount: session?.totalCount ?? 0,
+    nextDueAt,
+    isWaiting: !!session && !currentCard && nextDueAt !== null,
+    isComplete: !!session && isSessionComplete(session),
+    isLoading: bookQuery.isLoading || todaySessionQuery.isLoading || customStudyQuery.isLoading || dueReviews.isLoading
+      || (enabled && !session && !todaySessionQuery.error && !customStudyQuery.error && !dueReviews.error),
+    error: bookQuery.error ?? todaySessionQuery.error ?? customStudyQuery.error ?? dueReviews.error ?? null,
+    grade,
+    isGrading: reviewMutation.isPending,
+    gradeError: reviewMutation.error ?? null,
+    undo,
+    canUndo,
+    isUndoing,
+    undoError,
+    flagCard,
+    isFlagging,
+    flagError,
+    isOffline: !offline.isOnline,
+    pendingSyncCount: offline.pendingCount,
+    isSyncing: offline.isSyncing
+  }
+}
+
+export default useLearningSession
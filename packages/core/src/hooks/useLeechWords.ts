@@ -0,0 +1,81 @@
+/**
+ * useLeechWords Hook
+ * TanStack Query hook for a book's leeches and the actions to deal with them
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  getLeechWords,
+  resetWordProgress,
+  setWordFlag,
+  updateWordNote
+} from "../services/word-progress"
+import { queryKeys } from "../query"
+import type { UserWordProgress, WordWithProgress } from "../types/vocabulary"
+
+interface UseLeechWordsOptions {
+  userId: string | null
+  bookId: string | null
+}
+
+export interface UseLeechWordsReturn {
+  leeches: WordWithProgress[]
+  isLoading: boolean
+  error: Error | null
+  updateNote: (wordId: string, note: string) => Promise<UserWordProgress>
+  resetWord: (wordId: string) => Promise<UserWordProgress>
+  setSuspended: (wordId: string, suspended: boolean) => Promise<UserWordProgress>
+  isUpdating: boolean
+}
+
+/**
+ * Hook for listing and managing a book's leeches
+ */
+export function useLeechWords({ userId, bookId }: UseLeechWordsOptions): UseLeechWordsReturn {
+  const queryClient = useQueryClient()
+  const enabled = !!userId && !!bookId
+
+  const leechesQuery = useQuery({
+    queryKey: queryKeys.bookDetail.leeches(bookId || "", userId || ""),
+    queryFn: () => getLeechWords(bookId!, userId!),
+    enabled,
+    staleTime: 1 * 60 * 1000 // 1 minute
+  })
+
+  // Suspending or resetting a word changes today's session and the book stats
+  const onSuccess = () => {
+    if (!enabled) return
+    queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.leeches(bookId!, userId!) })
+    queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.byId(bookId!, userId!) })
+    queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.difficultWords(bookId!, userId!) })
+    queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.todaySession(bookId!, userId!) })
+  }
+
+  const noteMutation = useMutation({
+    mutationFn: ({ wordId, note }: { wordId: string; note: string }) => updateWordNote(userId!, wordId, note),
+    onSuccess
+  })
+
+  const resetMutation = useMutation({
+    mutationFn: (wordId: string) => resetWordProgress(userId!, wordId),
+    onSuccess
+  })
+
+  const suspendMutation = useMutation({
+    mutationFn: ({ wordId, suspended }: { wordId: string; suspended: boolean }) =>
+      setWordFlag(userId!, bookId!, wordId, "suspended", suspended),
+    onSuccess
+  })
+
+  return {
+    leeches: leechesQuery.data ?? [],
+    isLoading: leechesQuery.isLoading,
+    error: leechesQuery.error ?? null,
+    updateNote: (wordId, note) => noteMutation.mutateAsync({ wordId, note }),
+    resetWord: (wordId) => resetMutation.mutateAsync(wordId),
+    setSuspended: (wordId, suspended) => suspendMutation.mutateAsync({ wordId, suspended }),
+    isUpdating: noteMutation.isPending || resetMutation.isPending || suspendMutation.isPending
+  }
+}
+
+export default useLeechWords
@@ -0,0 +1,129 @@
+/**
+ * useOfflineReviews Hook
+ * Tracks connectivity and the offline review queue, replaying it when the connection returns
+ */
+
+import { useCallback, useEffect, useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { useStorage } from "../adapters/context"
+import {
+  getPendingReviews,
+  queueOfflineReview,
+  removePendingReview,
+  syncPendingReviews
+} from "../services/offline-reviews"
+import { queryKeys } from "../query"
+import type { CardTemplate, FSRSRating, OfflineSyncResult, PendingReview } from "../types/vocabulary"
+
+interface UseOfflineReviewsOptions {
+  userId: string | null
+}
+
+export interface UseOfflineReviewsReturn {
+  isOnline: boolean
+  pendingCount: number
+  queueReview: (input: {
+    wordId: string
+    bookId: string
+    cardType: CardTemplate
+    rating: FSRSRating
+    reviewedAt: Date
+    reviewTimeMs?: number | null
+  }) => Promise<PendingReview>
+  removeReview: (reviewId: string) => Promise<boolean>
+  sync: () => Promise<OfflineSyncResult | null>
+  isSyncing: boolean
+}
+
+/**
+ * Current browser connectivity; platforms without navigator are treated as online
+ */
+function getIsOnline(): boolean {
+  return typeof navigator === "undefined" || navigator.onLine !== false
+}
+
+/**
+ * Hook for the offline review queue
+ * Pending reviews are replayed on mount and whenever the connection comes back
+ */
+export function useOfflineReviews({ userId }: UseOfflineReviewsOptions): UseOfflineReviewsReturn {
+  const queryClient = useQueryClient()
+  const storage = useStorage()
+  const [isOnline, setIsOnline] = useState(getIsOnline)
+
+  const pendingQuery = useQuery({
+    queryKey: queryKeys.offlineReviews.pending(userId ?? ""),
+    queryFn: () => getPendingReviews(storage, userId!),
+    enabled: !!userId,
+    // Reads device storage, so it must run while offline too
+    networkMode: "always",
+    staleTime: Infinity
+  })
+
+  const invalidatePending = useCallback(() => {
+    if (!userId) return
+    queryClient.invalidateQueries({ queryKey: queryKeys.offlineReviews.pending(userId) })
+  }, [queryClient, userId])
+
+  const { mutateAsync: runSync, isPending: isSyncing } = useMutation({
+    mutationFn: () => syncPendingReviews(storage, userId!),
+    onSuccess: (result) => {
+      invalidatePending()
+      // Replayed reviews change progress and stats across books
+      if (result.synced > 0) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.all })
+        queryClient.invalidateQueries({ queryKey: queryKeys.dueReviews.all })
+      }
+    },
+    retry: false
+  })
+
+  const sync = useCallback(async () => {
+    if (!userId || !getIsOnline()) return null
+    return runSync()
+  }, [userId, runSync])
+
+  const queueReview: UseOfflineReviewsReturn["queueReview"] = async (input) => {
+    const review = await queueOfflineReview(storage, { ...input, userId: userId! })
+    invalidatePending()
+    return review
+  }
+
+  const removeReview = async (reviewId: string) => {
+    if (!userId) return false
+    const removed = await removePendingReview(storage, userId, reviewId)
+    invalidatePending()
+    return removed
+  }
+
+  useEffect(() => {
+    if (typeof window === "undefined") return
+
+    const handleOnline = () => setIsOnline(true)
+    const handleOffline = () => setIsOnline(false)
+
+    window.addEventListener("online", handleOnline)
+    window.addEventListener("offline", handleOffline)
+    return () => {
+      window.removeEventListener("online", handleOnline)
+      window.removeEventListener("offline", handleOffline)
+    }
+  }, [])
+
+  // Replay whatever is pending once we are (back) online
+  useEffect(() => {
+    if (!isOnline) return
+    sync().catch((err) => console.error("Error syncing offline reviews:", err))
+  }, [isOnline, sync])
+
+  return {
+    isOnline,
+    pendingCount: pendingQuery.data?.length ?? 0,
+    queueReview,
+    removeReview,
+    sync,
+    isSyncing
+  }
+}
+
+export default useOfflineReviews
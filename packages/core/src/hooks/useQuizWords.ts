@@ -0,0 +1,40 @@
+/**
+ * useQuizWords Hook
+ * TanStack Query hook for the words a book's quiz questions draw distractors from
+ */
+
+import { useQuery } from "@tanstack/react-query"
+import { getQuizWordPool } from "../services/quiz"
+import { queryKeys } from "../query"
+import type { QuizWord } from "../types/vocabulary"
+
+interface UseQuizWordsOptions {
+  bookId: string | null
+  enabled?: boolean
+}
+
+export interface UseQuizWordsReturn {
+  words: QuizWord[]
+  isLoading: boolean
+  error: Error | null
+}
+
+/**
+ * Hook for the quiz word pool of a book
+ */
+export function useQuizWords({ bookId, enabled = true }: UseQuizWordsOptions): UseQuizWordsReturn {
+  const wordsQuery = useQuery({
+    queryKey: queryKeys.vocabularyBooks.quizWords(bookId || ""),
+    queryFn: () => getQuizWordPool(bookId!),
+    enabled: enabled && !!bookId,
+    staleTime: 5 * 60 * 1000 // 5 minutes
+  })
+
+  return {
+    words: wordsQuery.data ?? [],
+    isLoading: wordsQuery.isLoading,
+    error: wordsQuery.error ?? null
+  }
+}
+
+export default useQuizWords
@@ -0,0 +1,70 @@
+/**
+ * useReschedule Hook
+ * Plan and apply a reschedule of a book's cards under its current parameters
+ */
+
+import { useState } from "react"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { applyReschedule, planReschedule } from "../services/reschedule"
+import { queryKeys } from "../query"
+import type { ReschedulePlan } from "../types/vocabulary"
+
+interface UseRescheduleOptions {
+  userId: string | null
+  bookId: string | null
+}
+
+/**
+ * Cards written so far while applying
+ */
+interface RescheduleProgress {
+  done: number
+  total: number
+}
+
+export interface UseRescheduleReturn {
+  planReschedule: () => Promise<ReschedulePlan>
+  isPlanning: boolean
+  applyReschedule: (plan: ReschedulePlan) => Promise<number>
+  isApplying: boolean
+  progress: RescheduleProgress | null
+  error: Error | null
+}
+
+/**
+ * Hook for rescheduling a book
+ */
+export function useReschedule({ userId, bookId }: UseRescheduleOptions): UseRescheduleReturn {
+  const queryClient = useQueryClient()
+  const [progress, setProgress] = useState<RescheduleProgress | null>(null)
+
+  const planMutation = useMutation({
+    mutationFn: () => planReschedule(userId!, bookId!)
+  })
+
+  const applyMutation = useMutation({
+    mutationFn: (plan: ReschedulePlan) => {
+      setProgress({ done: 0, total: plan.items.length })
+      return applyReschedule(userId!, plan, (done, total) => setProgress({ done, total }))
+    },
+    // New due dates change today's session, the stats and the forecast
+    onSettled: () => {
+      setProgress(null)
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.dueReviews.all })
+    },
+    // Batches already written are skipped on a second run, but a fresh plan is clearer
+    retry: false
+  })
+
+  return {
+    planReschedule: planMutation.mutateAsync,
+    isPlanning: planMutation.isPending,
+    applyReschedule: applyMutation.mutateAsync,
+    isApplying: applyMutation.isPending,
+    progress,
+    error: planMutation.error ?? applyMutation.error ?? null
+  }
+}
+
+export default useReschedule
@@ -0,0 +1,84 @@
+/**
+ * useReviewTimer Hook
+ * Measures the time a user actively spends on a card, excluding idle and hidden-tab time
+ */
+
+import { useCallback, useEffect, useRef } from "react"
+
+// Gaps between interactions longer than this count only up to the threshold
+export const REVIEW_IDLE_THRESHOLD_MS = 30_000
+
+const ACTIVITY_EVENTS = ["keydown", "pointerdown", "pointermove", "wheel", "touchstart"] as const
+
+interface TimerState {
+  key: string | null
+  activeMs: number
+  lastTickAt: number | null   // null while stopped or the tab is hidden
+}
+
+export interface UseReviewTimerReturn {
+  // Active milliseconds since the timer started, or null when it is stopped
+  getElapsedMs: () => number | null
+}
+
+/**
+ * Add the time since the last tick, capped at the idle threshold
+ */
+function tick(state: TimerState, now: number): void {
+  if (state.lastTickAt === null) return
+  state.activeMs += Math.min(now - state.lastTickAt, REVIEW_IDLE_THRESHOLD_MS)
+  state.lastTickAt = now
+}
+
+/**
+ * Hook for timing a review
+ * The timer restarts whenever `startKey` changes to a new value and stops when
+ * it is null, e.g. pass the card's key once its answer is revealed
+ */
+export function useReviewTimer(startKey: string | null): UseReviewTimerReturn {
+  const stateRef = useRef<TimerState>({ key: null, activeMs: 0, lastTickAt: null })
+
+  useEffect(() => {
+    const visible = typeof document === "undefined" || document.visibilityState === "visible"
+    stateRef.current = {
+      key: startKey,
+      activeMs: 0,
+      lastTickAt: startKey !== null && visible ? Date.now() : null
+    }
+  }, [startKey])
+
+  useEffect(() => {
+    if (typeof window === "undefined" || typeof document === "undefined") return
+
+    const handleActivity = () => tick(stateRef.current, Date.now())
+
+    const handleVisibilityChange = () => {
+      const state = stateRef.current
+      if (state.key === null) return
+      if (document.visibilityState === "visible") {
+        state.lastTickAt = Date.now()
+      } else {
+        tick(state, Date.now())
+        state.lastTickAt = null
+      }
+    }
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }))
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity))
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+    }
+  }, [])
+
+  const getElapsedMs = useCallback(() => {
+    const state = stateRef.current
+    if (state.key === null) return null
+    tick(state, Date.now())
+    return Math.round(state.activeMs)
+  }, [])
+
+  return { getElapsedMs }
+}
+
+export default useReviewTimer
@@ -0,0 +1,57 @@
+/**
+ * useUndoLastReview Hook
+ * TanStack Query mutation for undoing the user's latest review
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { undoLastReview } from "../services/vocabulary-detail"
+import { queryKeys } from "../query"
+import type { CardTemplate, UserWordProgress } from "../types/vocabulary"
+
+interface UseUndoLastReviewOptions {
+  userId: string | null
+}
+
+export interface UseUndoLastReviewReturn {
+  undo: (wordId?: string, cardType?: CardTemplate) => Promise<UserWordProgress | null>
+  isUndoing: boolean
+  error: Error | null
+}
+
+/**
+ * Hook for undoing the latest review
+ * Resolves with the restored progress, or null when there was nothing to undo
+ * (or, given a card, when the latest review was of another card)
+ */
+export function useUndoLastReview({ userId }: UseUndoLastReviewOptions): UseUndoLastReviewReturn {
+  const queryClient = useQueryClient()
+
+  const undoMutation = useMutation({
+    mutationFn: ({ wordId, cardType }: { wordId?: string; cardType?: CardTemplate }) =>
+      undoLastReview(userId!, wordId, cardType),
+    onSuccess: (progress) => {
+      if (!progress || !userId) return
+
+      // The word's book stats and word lists change with the restored progress
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.byId(progress.book_id, userId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.recentWords(progress.book_id, userId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.difficultWords(progress.book_id, userId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.leeches(progress.book_id, userId) })
+    },
+    // Undoing twice would undo a second review
+    retry: false
+  })
+
+  const undo = async (wordId?: string, cardType?: CardTemplate) => {
+    if (!userId) return null
+    return undoMutation.mutateAsync({ wordId, cardType })
+  }
+
+  return {
+    undo,
+    isUndoing: undoMutation.isPending,
+    error: undoMutation.error ?? null
+  }
+}
+
+export default useUndoLastReview
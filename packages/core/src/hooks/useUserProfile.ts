@@ -0,0 +1,79 @@
+/**
+ * useUserProfile Hook
+ * Loads the user's profile, makes its study day the one every day computation
+ * uses, and saves changes to it
+ */
+
+import { useEffect } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { getUserProfile, toStudyDaySettings, updateUserProfile } from "../services/user-profile"
+import { getStudyDaySettings, setStudyDaySettings } from "../services/study-day"
+import { queryKeys } from "../query"
+import type {
+  StudyDaySettings,
+  UpdateUserProfileInput,
+  UserProfileSettings
+} from "../types/vocabulary"
+
+interface UseUserProfileOptions {
+  userId: string | null
+  enabled?: boolean
+}
+
+export interface UseUserProfileReturn {
+  profile: UserProfileSettings | null
+  studyDay: StudyDaySettings
+  isLoading: boolean
+  updateProfile: (input: UpdateUserProfileInput) => Promise<UserProfileSettings>
+  isUpdating: boolean
+  error: Error | null
+}
+
+/**
+ * Hook for the user profile
+ */
+export function useUserProfile({ userId, enabled = true }: UseUserProfileOptions): UseUserProfileReturn {
+  const queryClient = useQueryClient()
+
+  const query = useQuery({
+    queryKey: queryKeys.userProfile.byId(userId || ""),
+    queryFn: () => getUserProfile(userId!),
+    enabled: enabled && !!userId,
+    staleTime: 30 * 60 * 1000 // 30 minutes
+  })
+
+  const profile = query.data ?? null
+
+  // Anything computed before the profile loaded used the device defaults
+  useEffect(() => {
+    if (!query.isSuccess) return
+
+    const studyDay = toStudyDaySettings(profile)
+    const current = getStudyDaySettings()
+    if (studyDay.timezone === current.timezone && studyDay.day_start_hour === current.day_start_hour) return
+
+    setStudyDaySettings(studyDay)
+    queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.all })
+    queryClient.invalidateQueries({ queryKey: queryKeys.dueReviews.all })
+    queryClient.invalidateQueries({ queryKey: queryKeys.vocabularyBooks.all })
+    queryClient.invalidateQueries({ queryKey: queryKeys.dashboard.all })
+  }, [query.isSuccess, profile, queryClient])
+
+  const mutation = useMutation({
+    mutationFn: (input: UpdateUserProfileInput) => updateUserProfile(userId!, input),
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKeys.userProfile.byId(userId!), data)
+    }
+  })
+
+  return {
+    profile,
+    studyDay: toStudyDaySettings(profile),
+    isLoading: query.isLoading,
+    updateProfile: mutation.mutateAsync,
+    isUpdating: mutation.isPending,
+    error: query.error ?? mutation.error ?? null
+  }
+}
+
+export default useUserProfile
@@ -0,0 +1,50 @@
+/**
+ * useWordFlags Hook
+ * Suspend, bury or mark words as known from the book's word lists
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { setWordFlag } from "../services/word-progress"
+import { queryKeys } from "../query"
+import type { UserWordProgress, WordFlag } from "../types/vocabulary"
+
+interface UseWordFlagsOptions {
+  userId: string | null
+  bookId: string | null
+}
+
+export interface UseWordFlagsReturn {
+  setFlag: (wordId: string, flag: WordFlag, enabled: boolean) => Promise<UserWordProgress>
+  isUpdating: boolean
+  error: Error | null
+}
+
+/**
+ * Hook for toggling a book's word flags
+ */
+export function useWordFlags({ userId, bookId }: UseWordFlagsOptions): UseWordFlagsReturn {
+  const queryClient = useQueryClient()
+
+  const flagMutation = useMutation({
+    mutationFn: ({ wordId, flag, enabled }: { wordId: string; flag: WordFlag; enabled: boolean }) =>
+      setWordFlag(userId!, bookId!, wordId, flag, enabled),
+    // Flags change today's session, the book stats and every word list
+    onSuccess: () => {
+      if (!userId || !bookId) return
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.byId(bookId, userId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.recentWords(bookId, userId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.difficultWords(bookId, userId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.leeches(bookId, userId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookDetail.todaySession(bookId, userId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.dueReviews.session(userId) })
+    }
+  })
+
+  return {
+    setFlag: (wordId, flag, enabled) => flagMutation.mutateAsync({ wordId, flag, enabled }),
+    isUpdating: flagMutation.isPending,
+    error: flagMutation.error ?? null
+  }
+}
+
+export default useWordFlags
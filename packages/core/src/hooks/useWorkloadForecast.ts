@@ -0,0 +1,61 @@
+/**
+ * useWorkloadForecast Hook
+ * Projected daily reviews of a book for the coming days
+ */
+
+import { useMemo } from "react"
+import { useQuery } from "@tanstack/react-query"
+import {
+  forecastWorkload,
+  getWorkloadForecastInput,
+  type WorkloadForecastDay
+} from "../services/forecast"
+import { queryKeys } from "../query"
+
+interface UseWorkloadForecastOptions {
+  userId: string | null
+  bookId: string | null
+  days: number
+  newPerDay?: number  // What-if rate of new words (default: the book's daily_new_limit)
+}
+
+export interface UseWorkloadForecastReturn {
+  forecast: WorkloadForecastDay[]
+  dailyNewLimit: number | null  // The book's own rate, once loaded
+  isLoading: boolean
+  error: Error | null
+}
+
+/**
+ * Hook for a book's workload forecast
+ * Cards are fetched once; changing the horizon or rate only reruns the simulation
+ */
+export function useWorkloadForecast({
+  userId,
+  bookId,
+  days,
+  newPerDay
+}: UseWorkloadForecastOptions): UseWorkloadForecastReturn {
+  const inputQuery = useQuery({
+    queryKey: queryKeys.bookDetail.forecast(bookId || "", userId || ""),
+    queryFn: () => getWorkloadForecastInput(userId!, bookId!),
+    enabled: !!userId && !!bookId,
+    staleTime: 5 * 60 * 1000 // 5 minutes
+  })
+
+  const input = inputQuery.data ?? null
+
+  const forecast = useMemo(
+    () => (input ? forecastWorkload(input, { days, newPerDay }) : []),
+    [input, days, newPerDay]
+  )
+
+  return {
+    forecast,
+    dailyNewLimit: input?.settings.daily_new_limit ?? null,
+    isLoading: inputQuery.isLoading,
+    error: inputQuery.error ?? null
+  }
+}
+
+export default useWorkloadForecast
@@ -3,6 +3,8 @@
  * Provides QueryClient and QueryClientProvider for the application
  */
 
+import type { CustomStudyCriteria } from "../types/vocabulary"
+
 export { QueryClient, QueryClientProvider } from "@tanstack/react-query"
 export type { QueryClientConfig } from "@tanstack/react-query"
 
@@ -38,6 +40,8 @@ export const queryKeys = {
     user: (userId: string) => ["vocabularyBooks", "user", userId] as const,
     system: (userId: string) => ["vocabularyBooks", "system", userId] as const,
     detail: (bookId: string) => ["vocabularyBooks", "detail", bookId] as const,
+    tags: (bookId: string) => ["vocabularyBooks", "tags", bookId] as const,
+    quizWords: (bookId: string) => ["vocabularyBooks", "quizWords", bookId] as const,
     settings: (userId: string, bookId: string) => ["vocabularyBooks", "settings", userId, bookId] as const
   },
   // Book detail
@@ -46,7 +50,38 @@ export const queryKeys = {
     byId: (bookId: string, userId: string) => ["bookDetail", bookId, userId] as const,
     recentWords: (bookId: string, userId: string) => ["bookDetail", "recentWords", bookId, userId] as const,
     difficultWords: (bookId: string, userId: string) => ["bookDetail", "difficultWords", bookId, userId] as const,
-    todaySession: (bookId: string, userId: string) => ["bookDetail", "todaySession", bookId, userId] as const
+    leeches: (bookId: string, userId: string) => ["bookDetail", "leeches", bookId, userId] as const,
+    todaySession: (bookId: string, userId: string) => ["bookDetail", "todaySession", bookId, userId] as const,
+    forecast: (bookId: string, userId: string) => ["bookDetail", "forecast", bookId, userId] as const,
+    customStudy: (bookId: string, userId: string, criteria?: CustomStudyCriteria) =>
+      ["bookDetail", "customStudy", bookId, userId, criteria ?? null] as const
+  },
+  // Due cards of every book, reviewed in one session
+  dueReviews: {
+    all: ["dueReviews"] as const,
+    session: (userId: string) => ["dueReviews", "session", userId] as const
+  },
+  // Vacation mode shifts of due dates
+  dueShifts: {
+    all: ["dueShifts"] as const,
+    list: (userId: string, bookId: string) => ["dueShifts", "list", userId, bookId] as const
+  },
+  // Reviews graded offline and waiting to sync
+  offlineReviews: {
+    all: ["offlineReviews"] as const,
+    pending: (userId: string) => ["offlineReviews", "pending", userId] as const
+  },
+  // User profile (time zone and study day)
+  userProfile: {
+    all: ["userProfile"] as const,
+    byId: (userId: string) => ["userProfile", userId] as const
+  },
+  // FSRS parameters
+  fsrs: {
+    all: ["fsrs"] as const,
+    params: (userId: string) => ["fsrs", "params", userId] as const,
+    dueLoads: (userId: string) => ["fsrs", "dueLoad", userId] as const,
+    dueLoad: (userId: string, days: number) => ["fsrs", "dueLoad", userId, days] as const
   },
   // Dashboard
   dashboard: {
@@ -0,0 +1,96 @@
+/**
+ * Card Templates Service
+ * A word is studied through the cards its book enables, each with its own schedule:
+ * 1. Which templates a word can have (cloze needs an example sentence using the word)
+ * 2. Whether a card is answered by revealing, by typing the word or by picking a choice
+ * 3. Sibling cards of a word are buried, so a word comes up once per study day
+ */
+
+import { CARD_TEMPLATES } from "../types/vocabulary"
+import type { CardTemplate, LearningMode } from "../types/vocabulary"
+
+/**
+ * Shown in place of the word in a cloze sentence
+ */
+export const CLOZE_BLANK = "_____"
+
+/**
+ * Identify a card: one of a word's templates
+ */
+export function getCardKey(card: { id: string; card_type: CardTemplate }): string {
+  return `${card.id}:${card.card_type}`
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Blank the word out of its example sentence, or null when the sentence does not use it
+ * Forms that extend the word (e.g. "adapted" for "adapt") are blanked out too
+ */
+export function getClozeSentence(sentence: string | null, word: string): string | null {
+  const target = word.trim()
+  if (!sentence || !target) return null
+
+  const blanked = sentence.replace(new RegExp(`\\b${escapeRegExp(target)}\\w*`, "gi"), CLOZE_BLANK)
+  return blanked === sentence ? null : blanked
+}
+
+/**
+ * The cards a word gets from its book's templates, in the order they are introduced
+ */
+export function getWordCardTemplates(
+  word: { word: string; example_sentence: string | null },
+  templates: CardTemplate[]
+): CardTemplate[] {
+  return CARD_TEMPLATES.filter((template) =>
+    templates.includes(template)
+    && (template !== "cloze" || getClozeSentence(word.example_sentence, word.word) !== null)
+  )
+}
+
+/**
+ * Whether a card is answered by typing the word instead of revealing the answer
+ * Listening is always spelled; recall and cloze are typed in spelling mode
+ */
+export function isTypedCard(cardType: CardTemplate, learningMode: LearningMode): boolean {
+  if (cardType === "listening") return true
+  return cardType !== "recognition" && learningMode === "spelling"
+}
+
+/**
+ * Whether a card is answered by picking one of several choices
+ * Listening stays typed in quiz mode, as written choices would give the word away
+ */
+export function isQuizCard(cardType: CardTemplate, learningMode: LearningMode): boolean {
+  return learningMode === "quiz" && cardType !== "listening"
+}
+
+/**
+ * Bury sibling cards, keeping the order of the rest
+ * Once a card of a word has been reviewed on a study day, the word's other cards
+ * wait for the next one. Of siblings not reviewed yet, the first one kept buries
+ * the others. reviewedToday holds the templates reviewed today per word; kept
+ * collects the words already in the session, so it can be passed on from the due
+ * cards to the new ones.
+ */
+export function burySiblingCards<T extends { id: string; card_type: CardTemplate }>(
+  cards: T[],
+  reviewedToday: Map<string, Set<CardTemplate>>,
+  kept: Set<string> = new Set()
+): T[] {
+  return cards.filter((card) => {
+    const reviewed = reviewedToday.get(card.id)
+
+    // Cards still in their learning steps carry on
+    if (reviewed?.has(card.card_type)) {
+      kept.add(card.id)
+      return true
+    }
+    if (reviewed || kept.has(card.id)) return false
+
+    kept.add(card.id)
+    return true
+  })
+}
@@ -0,0 +1,243 @@
+/**
+ * Due Shift Service
+ * Vacation mode: postpone or advance reviews in bulk, for one book or all books
+ * 1. Cards due in the shift window are ranked by how much the shift changes
+ *    their retrievability, least affected first
+ * 2. A plan is previewed with the projected daily workload before it is applied
+ * 3. Applied shifts log every card's previous due date so they can be reverted
+ */
+
+import { getSupabase, isSupabaseInitialized } from "./supabase"
+import { getElapsedDays, type FSRSScheduler } from "./fsrs"
+import { getUserScheduler } from "./fsrs-params"
+import { addDays, countDueByDay } from "./scheduler"
+import { addStudyDays, getStudyDate } from "./study-day"
+import type {
+  DueShift,
+  DueShiftAction,
+  DueShiftItem,
+  DueShiftPlan,
+  WorkloadDiffDay
+} from "../types/vocabulary"
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Days after the shift window included in the workload preview,
+ * where postponed reviews land
+ */
+const WORKLOAD_TAIL_DAYS = 7
+
+/**
+ * Options for planning a shift
+ */
+export interface DueShiftOptions {
+  action: DueShiftAction
+  bookId: string | null  // null for all books
+  days: number
+  limit?: number         // Shift at most this many cards (default: every candidate)
+}
+
+/**
+ * Review card due within the preview horizon
+ */
+interface DueCardRow {
+  id: string
+  word_id: string
+  book_id: string
+  stability: number
+  due_at: string
+  last_review_at: string | null
+}
+
+/**
+ * Plan the shift of one card, or null when it is outside the shift window
+ * Postponed cards keep their spacing: due + days, counted from now when overdue.
+ * Advanced cards become due now.
+ */
+function planCardShift(
+  card: DueCardRow,
+  action: DueShiftAction,
+  days: number,
+  now: Date,
+  scheduler: FSRSScheduler
+): DueShiftItem | null {
+  const due = new Date(card.due_at)
+  const windowEnd = now.getTime() + days * MS_PER_DAY
+  if (due.getTime() >= windowEnd) return null
+  if (action === "advance" && due.getTime() <= now.getTime()) return null
+
+  // Reviewing an overdue card on schedule means reviewing it now
+  const reviewBefore = new Date(Math.max(due.getTime(), now.getTime()))
+  const reviewAfter = action === "postpone"
+    ? new Date(reviewBefore.getTime() + days * MS_PER_DAY)
+    : now
+
+  const recallAt = (date: Date) =>
+    scheduler.predictRecall(getElapsedDays(card.last_review_at, date), card.stability)
+
+  return {
+    progressId: card.id,
+    wordId: card.word_id,
+    bookId: card.book_id,
+    dueBefore: card.due_at,
+    dueAfter: reviewAfter.toISOString(),
+    retrievabilityBefore: recallAt(reviewBefore),
+    retrievabilityAfter: recallAt(reviewAfter)
+  }
+}
+
+// ============================================
+// Planning
+// ============================================
+
+/**
+ * Plan a shift and project the daily workload before and after it
+ * Retrievability follows the user's FSRS forgetting curve, also for books on
+ * SM-2 or Leitner, so cards are ranked the same way across books
+ */
+export async function planDueShift(
+  userId: string,
+  { action, bookId, days, limit }: DueShiftOptions,
+  now: Date = new Date()
+): Promise<DueShiftPlan> {
+  const emptyPlan: DueShiftPlan = { action, bookId, days, candidateCount: 0, items: [], workload: [] }
+  if (!isSupabaseInitialized()) return emptyPlan
+
+  const horizon = days + WORKLOAD_TAIL_DAYS
+  const horizonEnd = addDays(now, horizon)
+
+  let query = getSupabase()
+    .from("user_word_progress")
+    .select("id, word_id, book_id, stability, due_at, last_review_at")
+    .eq("user_id", userId)
+    .eq("is_learning_phase", false)
+    .eq("is_suspended", false)
+    .eq("is_known", false)
+    .neq("state", "new")
+    .lt("due_at", horizonEnd.toISOString())
+
+  if (bookId) {
+    query = query.eq("book_id", bookId)
+  }
+
+  const [{ data, error }, scheduler] = await Promise.all([query, getUserScheduler(userId)])
+
+  if (error) {
+    console.error("Error fetching cards to shift:", error)
+    throw new Error("Failed to plan due shift")
+  }
+
+  const cards = (data || []) as DueCardRow[]
+  const candidates = cards
+    .map((card) => planCardShift(card, action, days, now, scheduler))
+    .filter((item): item is DueShiftItem => item !== null)
+    // Least affected first
+    .sort((a, b) =>
+      Math.abs(a.retrievabilityBefore - a.retrievabilityAfter)
+        - Math.abs(b.retrievabilityBefore - b.retrievabilityAfter)
+    )
+
+  const items = limit === undefined ? candidates : candidates.slice(0, Math.max(0, limit))
+  const shifted = new Map(items.map((item) => [item.progressId, item.dueAfter]))
+
+  const today = getStudyDate(now)
+  const dayKeys = Array.from({ length: horizon }, (_, i) => addStudyDays(today, i))
+  const before = countDueByDay(cards.map((card) => new Date(card.due_at)), dayKeys)
+  const after = countDueByDay(cards.map((card) => new Date(shifted.get(card.id) ?? card.due_at)), dayKeys)
+
+  const workload: WorkloadDiffDay[] = dayKeys.map((date) => ({
+    date,
+    before: before.get(date) ?? 0,
+    after: after.get(date) ?? 0
+  }))
+
+  return { action, bookId, days, candidateCount: candidates.length, items, workload }
+}
+
+// ============================================
+// Applying and Reverting
+// ============================================
+
+/**
+ * Apply a planned shift
+ * Cards reviewed since the plan was made are left alone
+ */
+export async function applyDueShift(userId: string, plan: DueShiftPlan): Promise<DueShift> {
+  if (!isSupabaseInitialized()) {
+    throw new Error("Supabase not initialized")
+  }
+
+  const { data, error } = await getSupabase().rpc("apply_due_shift", {
+    p_user_id: userId,
+    p_book_id: plan.bookId,
+    p_action: plan.action,
+    p_days: plan.days,
+    p_items: plan.items.map((item) => ({
+      progress_id: item.progressId,
+      due_before: item.dueBefore,
+      due_after: item.dueAfter
+    }))
+  })
+
+  if (error) {
+    console.error("Error applying due shift:", error)
+    throw new Error("Failed to apply due shift")
+  }
+
+  return data as DueShift
+}
+
+/**
+ * Get the latest shifts that touch a book (its own and all-book shifts),
+ * or every shift of the user when no book is given
+ */
+export async function getDueShifts(
+  userId: string,
+  bookId: string | null,
+  limit: number = 10
+): Promise<DueShift[]> {
+  if (!isSupabaseInitialized()) return []
+
+  let query = getSupabase()
+    .from("due_shifts")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit)
+
+  if (bookId) {
+    query = query.or(`book_id.eq.${bookId},book_id.is.null`)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error("Error fetching due shifts:", error)
+    return []
+  }
+
+  return (data || []) as DueShift[]
+}
+
+/**
+ * Revert a shift, restoring the due date of every card not reviewed since
+ * Returns the number of cards restored, or null if the shift was already reverted
+ */
+export async function revertDueShift(userId: string, shiftId: string): Promise<number | null> {
+  if (!isSupabaseInitialized()) {
+    throw new Error("Supabase not initialized")
+  }
+
+  const { data, error } = await getSupabase().rpc("revert_due_shift", {
+    p_user_id: userId,
+    p_shift_id: shiftId
+  })
+
+  if (error) {
+    console.error("Error reverting due shift:", error)
+    throw new Error("Failed to revert due shift")
+  }
+
+  return data as number | null
+}
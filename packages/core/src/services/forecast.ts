@@ -0,0 +1,184 @@
+/**
+ * Workload Forecast Service
+ * Projects the reviews a book will ask for on each of the coming days:
+ * 1. Cards already studied are simulated from their due date and stability,
+ *    with lapses drawn from the predicted recall
+ * 2. New words are introduced at the book's daily limit (or a what-if rate)
+ *    until the book runs out of them, and the reviews of their cards are added on top
+ */
+
+import { getSupabase, isSupabaseInitialized } from "./supabase"
+import { FSRSScheduler } from "./fsrs"
+import { getUserScheduler } from "./fsrs-params"
+import { getBookScheduler } from "./scheduler-factory"
+import { getBookSettings } from "./vocabulary"
+import { getCardKey, getWordCardTemplates } from "./card-templates"
+import type { IScheduler } from "./scheduler"
+import { addStudyDays, getStudyDate, getStudyDayStart } from "./study-day"
+import { simulateCard, simulateReviews, type RecallModel } from "./workload"
+import { createSeededRandom } from "../utils"
+import type { BookSettings, SchedulableProgress } from "../types/vocabulary"
+
+/**
+ * A studied card and when it is next due
+ */
+export type ForecastCard = SchedulableProgress & { due_at: string }
+
+/**
+ * Everything a forecast is computed from, fetched once per book
+ */
+export interface WorkloadForecastInput {
+  cards: ForecastCard[]
+  newWordsAvailable: number  // Words with cards still to introduce
+  cardsPerNewWord: number    // Cards each of those words still has to introduce, on average
+  settings: BookSettings
+  scheduler: IScheduler
+  recall: RecallModel
+}
+
+/**
+ * Options for a forecast
+ */
+export interface WorkloadForecastOptions {
+  days?: number      // Horizon (default: 30)
+  newPerDay?: number // New words a day (default: the book's daily_new_limit)
+  samples?: number   // Simulated new cards (default: 200)
+  seed?: number
+}
+
+/**
+ * Projected reviews on one day
+ */
+export interface WorkloadForecastDay {
+  date: string            // YYYY-MM-DD
+  dueReviews: number      // Reviews of cards already studied
+  newWordReviews: number  // Reviews of words introduced during the forecast
+  newWords: number        // Words introduced that day
+}
+
+/**
+ * Fetch the cards, settings and schedulers a book's forecast needs
+ * Recall follows the user's FSRS forgetting curve, also for books on SM-2 or Leitner
+ */
+export async function getWorkloadForecastInput(
+  userId: string,
+  bookId: string
+): Promise<WorkloadForecastInput | null> {
+  if (!isSupabaseInitialized()) return null
+
+  const supabase = getSupabase()
+
+  const [settings, scheduler, cardsResult, wordsResult, progressResult] = await Promise.all([
+    getBookSettings(userId, bookId),
+    getBookScheduler(userId, bookId),
+    supabase
+      .from("user_word_progress")
+      .select("word_id, card_type, total_reviews, state, difficulty, stability, learning_step, is_learning_phase, last_review_at, reps, lapses, scheduler_state, due_at")
+      .eq("user_id", userId)
+      .eq("book_id", bookId)
+      .eq("is_suspended", false)
+      .eq("is_known", false)
+      .neq("state", "new")
+      .not("due_at", "is", null),
+    supabase
+      .from("vocabulary_words")
+      .select("id, word, example_sentence")
+      .eq("book_id", bookId),
+    supabase
+      .from("user_word_progress")
+      .select("word_id, card_type, state, is_suspended, is_known")
+      .eq("user_id", userId)
+      .eq("book_id", bookId)
+      .or("state.neq.new,is_suspended.eq.true,is_known.eq.true")
+  ])
+
+  if (cardsResult.error || wordsResult.error || progressResult.error) {
+    console.error("Error fetching cards for forecast:", cardsResult.error ?? wordsResult.error ?? progressResult.error)
+    return null
+  }
+
+  // Parked words get no new cards; of the others, each card their templates
+  // allow (cloze needs a usable sentence) that has not been studied yet
+  const parkedWords = new Set<string>()
+  const studiedCards = new Set<string>()
+  for (const p of progressResult.data || []) {
+    if (p.is_suspended || p.is_known) parkedWords.add(p.word_id)
+    if (p.state !== "new") studiedCards.add(getCardKey({ id: p.word_id, card_type: p.card_type }))
+  }
+
+  let newWordsAvailable = 0
+  let newCards = 0
+  for (const word of wordsResult.data || []) {
+    if (parkedWords.has(word.id)) continue
+    const unstudied = getWordCardTemplates(word, settings.card_templates)
+      .filter((template) => !studiedCards.has(getCardKey({ id: word.id, card_type: template })))
+      .length
+    if (unstudied === 0) continue
+    newWordsAvailable++
+    newCards += unstudied
+  }
+
+  const recall = scheduler instanceof FSRSScheduler ? scheduler : await getUserScheduler(userId)
+
+  return {
+    cards: (cardsResult.data || []) as ForecastCard[],
+    newWordsAvailable,
+    cardsPerNewWord: newWordsAvailable > 0 ? newCards / newWordsAvailable : 0,
+    settings,
+    scheduler,
+    recall
+  }
+}
+
+/**
+ * Forecast the daily reviews of a book
+ * Overdue cards count on the first day. Due counts are not capped by the daily
+ * review limit, so the forecast shows the real load behind it.
+ */
+export function forecastWorkload(
+  input: WorkloadForecastInput,
+  { days = 30, newPerDay = input.settings.daily_new_limit, samples = 200, seed = 1 }: WorkloadForecastOptions = {},
+  now: Date = new Date()
+): WorkloadForecastDay[] {
+  const random = createSeededRandom(seed)
+  const today = getStudyDate(now)
+  const origin = getStudyDayStart(now)
+
+  // 1. Cards already studied, one simulated future each
+  const dueReviews = new Array<number>(days).fill(0)
+  for (const card of input.cards) {
+    const firstReview = new Date(Math.max(new Date(card.due_at).getTime(), now.getTime()))
+    simulateReviews(input.scheduler, input.recall, card, firstReview, origin, dueReviews, random)
+  }
+
+  // 2. New words: expected reviews of one word's cards by age, then one batch a day
+  const reviewsByAge = new Array<number>(days).fill(0)
+  if (newPerDay > 0 && input.newWordsAvailable > 0) {
+    for (let i = 0; i < samples; i++) {
+      simulateCard(input.scheduler, input.recall, `forecast-${i}`, now, days, random).forEach((count, age) => {
+        reviewsByAge[age] += (count * input.cardsPerNewWord) / samples
+      })
+    }
+  }
+
+  let remaining = input.newWordsAvailable
+  const newWords = new Array<number>(days).fill(0).map(() => {
+    const introduced = Math.min(newPerDay, remaining)
+    remaining -= introduced
+    return introduced
+  })
+
+  return Array.from({ length: days }, (_, day) => {
+    let newWordReviews = 0
+    for (let introducedOn = 0; introducedOn <= day; introducedOn++) {
+      newWordReviews += newWords[introducedOn] * reviewsByAge[day - introducedOn]
+    }
+
+    return {
+      date: addStudyDays(today, day),
+      dueReviews: dueReviews[day],
+      newWordReviews: Math.round(newWordReviews),
+      newWords: newWords[day]
+    }
+  })
+}
@@ -0,0 +1,260 @@
+/**
+ * FSRS Optimizer Service
+ * Fits the FSRS weights to a user's review history:
+ * 1. Replays each card's reviews through FSRSScheduler's memory model (FSRS-4.5 or FSRS-5)
+ * 2. Minimizes the log-loss of predicted recall against actual recall (rating > 1)
+ * 3. Reports log-loss and binned RMSE before and after fitting
+ *
+ * Pure computation; run it inside a Web Worker for real histories.
+ */
+
+import { FSRSScheduler, getElapsedDays } from "./fsrs"
+import { getCardKey } from "./card-templates"
+import type {
+  FSRSMemoryState,
+  FSRSOptimizationProgress,
+  FSRSOptimizationResult,
+  FSRSParameters,
+  FSRSRating,
+  FSRSTrainingReview,
+  FSRSVersion,
+  StudyDaySettings
+} from "../types/vocabulary"
+import { DEFAULT_FSRS_PARAMS } from "../types/vocabulary"
+
+/**
+ * Minimum number of reviews needed before fitting is meaningful
+ */
+export const MIN_REVIEWS_FOR_OPTIMIZATION = 400
+
+/**
+ * Allowed range for each weight (same clipping as the reference optimizers)
+ */
+const WEIGHT_BOUNDS: Record<FSRSVersion, Array<[number, number]>> = {
+  "4.5": [
+    [0.1, 100], [0.1, 100], [0.1, 100], [0.1, 100],
+    [1, 10], [0.1, 5], [0.1, 5], [0, 0.5],
+    [0, 3], [0.1, 0.8], [0.01, 2.5], [0.5, 5],
+    [0.01, 0.2], [0.01, 0.9], [0.01, 2], [0, 1],
+    [1, 4]
+  ],
+  "5": [
+    [0.001, 100], [0.001, 100], [0.001, 100], [0.001, 100],
+    [1, 10], [0.001, 4], [0.001, 4], [0.001, 0.75],
+    [0, 4.5], [0, 0.8], [0.001, 3.5], [0.001, 5],
+    [0.001, 0.25], [0.001, 0.9], [0, 4], [0, 1],
+    [1, 6], [0, 2], [0, 2]
+  ]
+}
+
+const DEFAULT_ITERATIONS = 200
+const LEARNING_RATE = 0.02
+const ADAM_BETA1 = 0.9
+const ADAM_BETA2 = 0.999
+const ADAM_EPSILON = 1e-8
+const GRADIENT_STEP = 1e-4
+const PROGRESS_INTERVAL = 10
+const RMSE_BINS = 20
+
+/**
+ * Messages exchanged with the optimizer worker
+ */
+export interface FSRSOptimizerRequest {
+  reviews: FSRSTrainingReview[]
+  params: FSRSParameters
+  studyDay: StudyDaySettings  // Elapsed days are counted in the user's study days
+}
+
+export type FSRSOptimizerResponse =
+  | { type: "progress"; progress: FSRSOptimizationProgress }
+  | { type: "result"; result: FSRSOptimizationResult }
+  | { type: "error"; message: string }
+
+/**
+ * Options for an optimizer run
+ */
+export interface OptimizeOptions {
+  iterations?: number
+  onProgress?: (progress: FSRSOptimizationProgress) => void
+}
+
+/**
+ * Goodness of fit of a weight vector on a review history
+ */
+interface FSRSEvaluation {
+  logLoss: number
+  rmse: number
+  count: number
+}
+
+/**
+ * One review in a card's history
+ */
+interface TrainingReview {
+  elapsedDays: number
+  rating: FSRSRating
+}
+
+/**
+ * Group logged reviews into per-card histories
+ * FSRS-4.5 has no same-day model, so only the first review of each day is kept;
+ * FSRS-5 keeps every review and updates stability on same-day ones
+ */
+function buildTrainingSet(reviews: FSRSTrainingReview[], keepSameDay: boolean): TrainingReview[][] {
+  const byCard = new Map<string, FSRSTrainingReview[]>()
+  for (const review of reviews) {
+    const key = getCardKey({ id: review.word_id, card_type: review.card_type })
+    const list = byCard.get(key)
+    if (list) list.push(review)
+    else byCard.set(key, [review])
+  }
+
+  const histories: TrainingReview[][] = []
+  for (const list of byCard.values()) {
+    list.sort((a, b) => new Date(a.reviewed_at).getTime() - new Date(b.reviewed_at).getTime())
+
+    const history: TrainingReview[] = []
+    let lastReviewAt: string | null = null
+    for (const review of list) {
+      const elapsedDays = getElapsedDays(lastReviewAt, new Date(review.reviewed_at))
+      if (!keepSameDay && lastReviewAt && elapsedDays === 0) continue
+      history.push({ elapsedDays, rating: review.rating })
+      lastReviewAt = review.reviewed_at
+    }
+
+    // A card reviewed on a single day gives nothing to predict
+    if (history.some(({ elapsedDays }) => elapsedDays > 0)) histories.push(history)
+  }
+
+  return histories
+}
+
+/**
+ * Evaluate log-loss and binned RMSE of a parameter set
+ * Only reviews on a later day than the previous one are predicted
+ */
+function evaluateParams(histories: TrainingReview[][], params: FSRSParameters): FSRSEvaluation {
+  const scheduler = new FSRSScheduler(params)
+  const binCount = new Array<number>(RMSE_BINS).fill(0)
+  const binPredicted = new Array<number>(RMSE_BINS).fill(0)
+  const binActual = new Array<number>(RMSE_BINS).fill(0)
+  let lossSum = 0
+  let count = 0
+
+  for (const history of histories) {
+    let memory: FSRSMemoryState | null = null
+
+    for (const { elapsedDays, rating } of history) {
+      if (memory && elapsedDays > 0) {
+        const predicted = Math.min(1 - 1e-6, Math.max(1e-6, scheduler.predictRecall(elapsedDays, memory.stability)))
+        const recalled = rating > 1 ? 1 : 0
+        lossSum -= recalled * Math.log(predicted) + (1 - recalled) * Math.log(1 - predicted)
+        count++
+
+        const bin = Math.min(RMSE_BINS - 1, Math.floor(predicted * RMSE_BINS))
+        binCount[bin]++
+        binPredicted[bin] += predicted
+        binActual[bin] += recalled
+      }
+      memory = scheduler.nextMemoryState(memory, elapsedDays, rating)
+    }
+  }
+
+  if (count === 0) return { logLoss: 0, rmse: 0, count: 0 }
+
+  let squaredError = 0
+  for (let i = 0; i < RMSE_BINS; i++) {
+    if (binCount[i] === 0) continue
+    const gap = binPredicted[i] / binCount[i] - binActual[i] / binCount[i]
+    squaredError += binCount[i] * gap * gap
+  }
+
+  return {
+    logLoss: lossSum / count,
+    rmse: Math.sqrt(squaredError / count),
+    count
+  }
+}
+
+/**
+ * Fit FSRS weights to a review history
+ * Full-batch Adam on numerical gradients, with weights clipped to WEIGHT_BOUNDS.
+ * The weights are fitted for params.version; the starting weights are returned
+ * unchanged if fitting does not improve log-loss.
+ */
+export function optimizeParams(
+  reviews: FSRSTrainingReview[],
+  params: FSRSParameters = DEFAULT_FSRS_PARAMS,
+  options: OptimizeOptions = {}
+): FSRSOptimizationResult {
+  const { iterations = DEFAULT_ITERATIONS, onProgress } = options
+  const { version, w: initialW } = params
+  const bounds = WEIGHT_BOUNDS[version]
+  const histories = buildTrainingSet(reviews, version === "5")
+  const evaluate = (w: number[]) => evaluateParams(histories, { ...params, w })
+  const before = evaluate(initialW)
+
+  if (before.count < MIN_REVIEWS_FOR_OPTIMIZATION) {
+    throw new Error(`Not enough reviews to optimize (${before.count} of ${MIN_REVIEWS_FOR_OPTIMIZATION})`)
+  }
+
+  // Weights differ by orders of magnitude, so steps are scaled per weight
+  const scale = initialW.map((value) => Math.max(0.05, Math.abs(value)))
+  const m = new Array<number>(initialW.length).fill(0)
+  const v = new Array<number>(initialW.length).fill(0)
+  let w = clipWeights(initialW, bounds)
+  let loss = evaluate(w).logLoss
+  let bestW = initialW
+  let bestLoss = before.logLoss
+
+  for (let iteration = 1; iteration <= iterations; iteration++) {
+    // Forward-difference gradient
+    const gradient = w.map((_, i) => {
+      const h = GRADIENT_STEP * scale[i]
+      const shifted = [...w]
+      shifted[i] += h
+      return (evaluate(clipWeights(shifted, bounds)).logLoss - loss) / h
+    })
+
+    w = clipWeights(w.map((value, i) => {
+      m[i] = ADAM_BETA1 * m[i] + (1 - ADAM_BETA1) * gradient[i]
+      v[i] = ADAM_BETA2 * v[i] + (1 - ADAM_BETA2) * gradient[i] * gradient[i]
+      const mHat = m[i] / (1 - Math.pow(ADAM_BETA1, iteration))
+      const vHat = v[i] / (1 - Math.pow(ADAM_BETA2, iteration))
+      return value - LEARNING_RATE * scale[i] * mHat / (Math.sqrt(vHat) + ADAM_EPSILON)
+    }), bounds)
+    loss = evaluate(w).logLoss
+
+    if (loss < bestLoss) {
+      bestLoss = loss
+      bestW = w
+    }
+
+    if (onProgress && (iteration % PROGRESS_INTERVAL === 0 || iteration === iterations)) {
+      onProgress({ iteration, totalIterations: iterations, logLoss: bestLoss })
+    }
+  }
+
+  const fittedW = bestW.map((value) => Number(value.toFixed(4)))
+  const after = evaluate(fittedW)
+
+  return {
+    version,
+    w: fittedW,
+    reviewCount: before.count,
+    logLossBefore: before.logLoss,
+    logLossAfter: after.logLoss,
+    rmseBefore: before.rmse,
+    rmseAfter: after.rmse
+  }
+}
+
+/**
+ * Clamp each weight into its allowed range
+ */
+function clipWeights(w: number[], bounds: Array<[number, number]>): number[] {
+  return w.map((value, i) => {
+    const [min, max] = bounds[i] ?? [-Infinity, Infinity]
+    return Math.min(max, Math.max(min, value))
+  })
+}
@@ -0,0 +1,177 @@
+/**
+ * FSRS Parameters Service
+ * Loads and stores per-user FSRS weights fitted by the optimizer
+ */
+
+import { getSupabase, isSupabaseInitialized } from "./supabase"
+import { FSRSScheduler, fsrsScheduler } from "./fsrs"
+import type {
+  FSRSOptimizationResult,
+  FSRSParameters,
+  FSRSTrainingReview,
+  FSRSVersion,
+  UserFSRSParams
+} from "../types/vocabulary"
+import { DEFAULT_FSRS_PARAMS_BY_VERSION } from "../types/vocabulary"
+
+/**
+ * Page size when reading review history (PostgREST caps a single response)
+ */
+const REVIEW_PAGE_SIZE = 1000
+
+/**
+ * Get the fitted FSRS parameters for a user
+ * Returns null when the user has not run the optimizer yet
+ */
+export async function getUserFSRSParams(userId: string): Promise<UserFSRSParams | null> {
+  if (!isSupabaseInitialized()) return null
+
+  const supabase = getSupabase()
+  const { data, error } = await supabase
+    .from("user_fsrs_params")
+    .select("*")
+    .eq("user_id", userId)
+    .single()
+
+  if (error) {
+    if (error.code !== "PGRST116") {
+      console.error("Error fetching FSRS parameters:", error)
+    }
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Save fitted FSRS parameters for a user
+ */
+export async function saveUserFSRSParams(
+  userId: string,
+  result: FSRSOptimizationResult
+): Promise<UserFSRSParams> {
+  if (!isSupabaseInitialized()) {
+    throw new Error("Supabase not initialized")
+  }
+
+  const supabase = getSupabase()
+  const { data, error } = await supabase
+    .from("user_fsrs_params")
+    .upsert(
+      {
+        user_id: userId,
+        version: result.version,
+        w: result.w,
+        review_count: result.reviewCount,
+        log_loss_before: result.logLossBefore,
+        log_loss_after: result.logLossAfter,
+        rmse_before: result.rmseBefore,
+        rmse_after: result.rmseAfter,
+        optimized_at: new Date().toISOString()
+      },
+      { onConflict: "user_id" }
+    )
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error saving FSRS parameters:", error)
+    throw new Error("Failed to save FSRS parameters")
+  }
+
+  return data
+}
+
+/**
+ * Switch a user to another FSRS version
+ * Fitted weights do not carry over between versions, so the version's defaults are stored
+ */
+export async function setUserFSRSVersion(
+  userId: string,
+  version: FSRSVersion
+): Promise<UserFSRSParams> {
+  if (!isSupabaseInitialized()) {
+    throw new Error("Supabase not initialized")
+  }
+
+  const supabase = getSupabase()
+  const { data, error } = await supabase
+    .from("user_fsrs_params")
+    .upsert(
+      {
+        user_id: userId,
+        version,
+        w: DEFAULT_FSRS_PARAMS_BY_VERSION[version].w,
+        review_count: 0,
+        log_loss_before: null,
+        log_loss_after: null,
+        rmse_before: null,
+        rmse_after: null,
+        optimized_at: null
+      },
+      { onConflict: "user_id" }
+    )
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error switching FSRS version:", error)
+    throw new Error("Failed to switch FSRS version")
+  }
+
+  return data
+}
+
+/**
+ * Get a user's review history for training the optimizer
+ * Preview practice from custom study did not schedule anything, so it is left out
+ */
+export async function getTrainingReviews(userId: string): Promise<FSRSTrainingReview[]> {
+  if (!isSupabaseInitialized()) {
+    throw new Error("Supabase not initialized")
+  }
+
+  const supabase = getSupabase()
+  const reviews: FSRSTrainingReview[] = []
+
+  for (let from = 0; ; from += REVIEW_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("review_logs")
+      .select("word_id, card_type, rating, reviewed_at")
+      .eq("user_id", userId)
+      .eq("is_preview", false)
+      .order("reviewed_at")
+      .order("id")
+      .range(from, from + REVIEW_PAGE_SIZE - 1)
+
+    if (error) {
+      console.error("Error fetching review history:", error)
+      throw new Error("Failed to fetch review history")
+    }
+
+    reviews.push(...(data || []))
+    if (!data || data.length < REVIEW_PAGE_SIZE) break
+  }
+
+  return reviews
+}
+
+/**
+ * Build scheduler parameters from a user's stored parameters
+ * Users without stored parameters stay on the FSRS-4.5 defaults
+ */
+export function toFSRSParameters(params: UserFSRSParams | null): FSRSParameters {
+  const defaults = DEFAULT_FSRS_PARAMS_BY_VERSION[params?.version ?? "4.5"]
+  if (!params || params.w.length !== defaults.w.length) {
+    return defaults
+  }
+  return { ...defaults, w: params.w }
+}
+
+/**
+ * Get the scheduler for a user, built from their fitted parameters
+ */
+export async function getUserScheduler(userId: string): Promise<FSRSScheduler> {
+  const params = await getUserFSRSParams(userId)
+  return params ? new FSRSScheduler(toFSRSParameters(params)) : fsrsScheduler
+}
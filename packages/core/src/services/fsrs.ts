@@ -1,44 +1,97 @@
 /**
  * FSRS (Free Spaced Repetition Scheduler) Service
  * 
- * Implements the FSRS-4.5 algorithm with:
- * 1. Short-term scheduling (minute-level) for new/learning cards
+ * Implements the FSRS-4.5 and FSRS-5 algorithms with:
+ * 1. Short-term scheduling (minute-level) for new/learning cards, following
+ *    the learning and relearning steps configured for the book
  * 2. Long-term scheduling (day-level) for graduated cards
- * 3. Fuzz factor to prevent review date clustering
+ * 3. Fuzz factor to prevent review date clustering, seeded per card and review,
+ *    optionally moving reviews to the least busy day in the fuzz range
+ * 
+ * The version is selected by FSRSParameters.version; FSRS-5 additionally
+ * updates stability on same-day reviews instead of the legacy learning-phase rules.
  * 
  * Reference: https://github.com/open-spaced-repetition/fsrs4anki
  */
 
 import type {
+  CardTemplate,
+  DueLoad,
   FSRSState,
   FSRSRating,
   FSRSParameters,
+  FSRSMemoryState,
+  InitialSchedulingState,
+  LearningStepSettings,
+  SchedulableProgress,
   SchedulingResult,
   UserWordProgress
 } from "../types/vocabulary"
+import { DEFAULT_FSRS_PARAMS } from "../types/vocabulary"
+import { createSeededRandom, hashString } from "../utils"
+import { getCardKey } from "./card-templates"
 import {
-  DEFAULT_FSRS_PARAMS,
-  LEARNING_STEPS,
-  LEARNING_GRADUATION_STEPS
-} from "../types/vocabulary"
+  buildSchedulePreview,
+  getDayKey,
+  isLearningPhase,
+  nextLearningStep,
+  resolveLearningSteps,
+  type IScheduler
+} from "./scheduler"
+import { getStudyDate, studyDaysBetween } from "./study-day"
 
 /**
- * FSRS-4.5 Algorithm Implementation
+ * FSRS-5 forgetting curve constants: R(t,S) = (1 + FACTOR * t/S)^DECAY, with R(S,S) = 0.9
  */
-export class FSRSScheduler {
-  private params: FSRSParameters
+const FSRS5_DECAY = -0.5
+const FSRS5_FACTOR = 19 / 81
+
+/**
+ * Days elapsed since the last review, counted in study days
+ * A card reviewed yesterday evening and again this morning has elapsed_days = 1
+ */
+export function getElapsedDays(lastReviewAt: string | Date | null, now: Date = new Date()): number {
+  if (!lastReviewAt) return 0
+  return Math.max(0, studyDaysBetween(getStudyDate(new Date(lastReviewAt)), getStudyDate(now)))
+}
 
-  constructor(params: FSRSParameters = DEFAULT_FSRS_PARAMS) {
+/**
+ * FSRS Algorithm Implementation (FSRS-4.5 or FSRS-5, per parameters)
+ */
+export class FSRSScheduler implements IScheduler {
+  readonly algorithm = "fsrs" as const
+  private params: FSRSParameters
+  private steps: LearningStepSettings
+  private dueLoad: DueLoad | null
+
+  constructor(
+    params: FSRSParameters = DEFAULT_FSRS_PARAMS,
+    steps: Partial<LearningStepSettings> = {},
+    dueLoad: DueLoad | null = null
+  ) {
     this.params = params
+    this.dueLoad = dueLoad
+    this.steps = resolveLearningSteps(steps)
+  }
+
+  /**
+   * Whether the scheduler runs FSRS-5
+   */
+  private get isFSRS5(): boolean {
+    return this.params.version === "5"
   }
 
   /**
    * Calculate initial difficulty for a card based on first rating
-   * D0(G) = w4 - (G-3) * w5
+   * FSRS-4.5: D0(G) = w4 - (G-3) * w5
+   * FSRS-5:   D0(G) = w4 - e^(w5*(G-1)) + 1
    */
   private initDifficulty(rating: FSRSRating): number {
     const { w } = this.params
-    return Math.max(1, Math.min(10, w[4] - (rating - 3) * w[5]))
+    const d0 = this.isFSRS5
+      ? w[4] - Math.exp(w[5] * (rating - 1)) + 1
+      : w[4] - (rating - 3) * w[5]
+    return Math.max(1, Math.min(10, d0))
   }
 
   /**
@@ -52,10 +105,18 @@ export class FSRSScheduler {
 
   /**
    * Calculate new difficulty after review
-   * D'(D,G) = w7 * D0(G) + (1-w7) * D
+   * FSRS-4.5: D'(D,G) = w7 * D0(G) + (1-w7) * D
+   * FSRS-5:   D'(D,G) = w7 * D0(4) + (1-w7) * (D - w6*(G-3) * (10-D)/9)
    */
   private nextDifficulty(difficulty: number, rating: FSRSRating): number {
     const { w } = this.params
+
+    if (this.isFSRS5) {
+      // Linear damping: changes shrink as difficulty approaches 10
+      const damped = difficulty - w[6] * (rating - 3) * (10 - difficulty) / 9
+      return Math.max(1, Math.min(10, w[7] * this.initDifficulty(4) + (1 - w[7]) * damped))
+    }
+
     const d0 = this.initDifficulty(rating)
     const newD = w[7] * d0 + (1 - w[7]) * difficulty
 
@@ -66,19 +127,27 @@ export class FSRSScheduler {
 
   /**
    * Calculate retrievability (recall probability)
-   * R(t,S) = (1 + t/(9*S))^(-1)
+   * FSRS-4.5: R(t,S) = (1 + t/(9*S))^(-1)
+   * FSRS-5:   R(t,S) = (1 + 19/81 * t/S)^(-0.5)
    */
   private retrievability(elapsedDays: number, stability: number): number {
     if (stability <= 0) return 0
+    if (this.isFSRS5) {
+      return Math.pow(1 + FSRS5_FACTOR * elapsedDays / stability, FSRS5_DECAY)
+    }
     return Math.pow(1 + elapsedDays / (9 * stability), -1)
   }
 
   /**
    * Calculate next interval based on desired retention
-   * I(r,S) = 9*S*(1/r - 1)
+   * FSRS-4.5: I(r,S) = 9*S*(1/r - 1)
+   * FSRS-5:   I(r,S) = S/(19/81) * (r^(1/-0.5) - 1)
    */
   private nextInterval(stability: number, retention: number = this.params.requestRetention): number {
     if (stability <= 0 || retention <= 0 || retention >= 1) return 1
+    if (this.isFSRS5) {
+      return Math.round(stability / FSRS5_FACTOR * (Math.pow(retention, 1 / FSRS5_DECAY) - 1))
+    }
     return Math.round(9 * stability * (1 / retention - 1))
   }
 
@@ -111,6 +180,7 @@ export class FSRSScheduler {
   /**
    * Calculate new stability after failed review (Again)
    * S'_f(D,S,R) = w11 * D^(-w12) * ((S+1)^w13 - 1) * e^(w14*(1-R))
+   * FSRS-5 also caps it at S / e^(w17*w18) so a lapse never beats a same-day Again
    */
   private nextStabilityFailure(
     difficulty: number,
@@ -123,186 +193,161 @@ export class FSRSScheduler {
       (Math.pow(stability + 1, w[13]) - 1) *
       Math.exp(w[14] * (1 - retrievability))
 
-    return Math.max(0.1, Math.min(newS, stability))
+    const maxS = this.isFSRS5 ? stability / Math.exp(w[17] * w[18]) : stability
+    return Math.max(0.1, Math.min(newS, maxS))
   }
 
   /**
-   * Add fuzz factor to interval to prevent review clustering
-   * Adds ±5% randomness to intervals > 2 days
+   * Calculate new stability after a same-day review (FSRS-5)
+   * S'(S,G) = S * e^(w17 * (G-3+w18))
    */
-  private fuzzInterval(interval: number): number {
-    if (interval <= 2) return interval
-    
+  private nextStabilityShortTerm(stability: number, rating: FSRSRating): number {
+    const { w } = this.params
+    const newS = stability * Math.exp(w[17] * (rating - 3 + w[18]))
+    return Math.max(0.1, Math.min(newS, this.params.maximumInterval))
+  }
+
+  /**
+   * Intervals allowed around the ideal one: ±5% (at least ±1 day) for intervals > 2 days,
+   * never beyond the maximum interval
+   */
+  private fuzzRange(interval: number): [number, number] {
+    if (interval <= 2) return [interval, interval]
+
     const fuzzFactor = 0.05 // ±5%
     const fuzzRange = Math.max(1, Math.round(interval * fuzzFactor))
-    const fuzz = Math.floor(Math.random() * (2 * fuzzRange + 1)) - fuzzRange
-    
-    return Math.max(1, interval + fuzz)
+    const upper = Math.min(interval + fuzzRange, Math.max(interval, this.params.maximumInterval))
+    return [Math.max(1, interval - fuzzRange), upper]
+  }
+
+  /**
+   * Add fuzz factor to interval to prevent review clustering
+   * The fuzz is seeded from the card and its review count (lapses included), so the
+   * same review always gets the same interval while sibling cards and repeated
+   * failures each get their own. With a due load, the day in the fuzz range with the fewest
+   * reviews already due is chosen, ties going to the seeded pick.
+   */
+  private fuzzInterval(interval: number, progress: SchedulableProgress, now: Date): number {
+    const [min, max] = this.fuzzRange(interval)
+    if (min === max) return interval
+
+    const cardKey = getCardKey({ id: progress.word_id ?? "", card_type: progress.card_type ?? "recognition" })
+    const random = createSeededRandom(hashString(`${cardKey}:${progress.total_reviews ?? 0}`))
+    const count = max - min + 1
+    const offset = Math.floor(random() * count)
+    if (!this.dueLoad) return min + offset
+
+    // Scan from the seeded pick so equally loaded days keep the seeded choice
+    let best = min + offset
+    let bestLoad = Infinity
+    for (let i = 0; i < count; i++) {
+      const days = min + ((offset + i) % count)
+      const load = this.dueLoad.get(getDayKey(this.addDays(now, days))) ?? 0
+      if (load < bestLoad) {
+        best = days
+        bestLoad = load
+      }
+    }
+    return best
   }
 
   /**
    * Process a review and calculate the next scheduling
+   * Elapsed days are derived from last_review_at and returned in the result
    */
   review(
-    progress: Pick<UserWordProgress, 'state' | 'difficulty' | 'stability' | 'learning_step' | 'is_learning_phase' | 'elapsed_days' | 'reps' | 'lapses'>,
+    progress: SchedulableProgress,
     rating: FSRSRating,
     now: Date = new Date()
   ): SchedulingResult {
-    const { state, is_learning_phase } = progress
+    const elapsedDays = getElapsedDays(progress.last_review_at, now)
 
     // Handle cards in learning phase (minute-based scheduling)
-    if (is_learning_phase || state === "new" || state === "learning") {
-      return this.reviewLearningPhase(progress, rating, now)
+    if (isLearningPhase(progress)) {
+      return this.reviewLearningPhase(progress, rating, now, elapsedDays)
     }
 
     // Handle cards in review phase (day-based scheduling)
-    return this.reviewDayPhase(progress, rating, now)
+    return this.reviewDayPhase(progress, rating, now, elapsedDays)
   }
 
   /**
-   * Handle learning phase review (minute-based scheduling)
+   * Memory state after a learning-phase review of a card that has been seen before
+   * FSRS-5 updates the memory state on every review, including same-day ones;
+   * FSRS-4.5 keeps the legacy learning-phase adjustments
    */
-  private reviewLearningPhase(
-    progress: Pick<UserWordProgress, 'state' | 'difficulty' | 'stability' | 'learning_step' | 'reps' | 'lapses'>,
+  private nextLearningMemoryState(
+    progress: Pick<UserWordProgress, 'difficulty' | 'stability'>,
+    elapsedDays: number,
     rating: FSRSRating,
-    now: Date
-  ): SchedulingResult {
-    const { learning_step } = progress
-    const intervalMinutes = LEARNING_STEPS[rating]
-
-    // First review - initialize FSRS parameters
-    if (progress.state === "new") {
-      const newDifficulty = this.initDifficulty(rating)
-      const newStability = this.initStability(rating)
-
-      // Again: stay in learning phase at step 0
-      if (rating === 1) {
-        return {
-          state: "learning",
-          difficulty: newDifficulty,
-          stability: newStability,
-          retrievability: 1,
-          elapsed_days: 0,
-          scheduled_days: 0,
-          due_at: new Date(now.getTime() + intervalMinutes * 60 * 1000),
-          learning_step: 0,
-          is_learning_phase: true
-        }
-      }
+    graduates: boolean
+  ): FSRSMemoryState {
+    const difficulty = progress.difficulty || this.initDifficulty(3)
+    const stability = progress.stability || this.initStability(3)
 
-      // Easy: skip learning phase entirely, graduate to review
-      if (rating === 4) {
-        const interval = Math.max(1, this.nextInterval(newStability))
-        return {
-          state: "review",
-          difficulty: newDifficulty,
-          stability: newStability,
-          retrievability: 1,
-          elapsed_days: 0,
-          scheduled_days: this.fuzzInterval(interval),
-          due_at: this.addDays(now, this.fuzzInterval(interval)),
-          learning_step: 0,
-          is_learning_phase: false
-        }
-      }
-
-      // Good/Hard: advance in learning phase
-      const nextStep = rating === 3 ? 1 : 0
-      const shouldGraduate = nextStep >= LEARNING_GRADUATION_STEPS
-
-      if (shouldGraduate) {
-        const interval = Math.max(1, this.nextInterval(newStability))
-        return {
-          state: "review",
-          difficulty: newDifficulty,
-          stability: newStability,
-          retrievability: 1,
-          elapsed_days: 0,
-          scheduled_days: this.fuzzInterval(interval),
-          due_at: this.addDays(now, this.fuzzInterval(interval)),
-          learning_step: 0,
-          is_learning_phase: false
-        }
-      }
-
-      return {
-        state: "learning",
-        difficulty: newDifficulty,
-        stability: newStability,
-        retrievability: 1,
-        elapsed_days: 0,
-        scheduled_days: 0,
-        due_at: new Date(now.getTime() + intervalMinutes * 60 * 1000),
-        learning_step: nextStep,
-        is_learning_phase: true
-      }
+    if (this.isFSRS5) {
+      return this.nextMemoryState({ difficulty, stability }, elapsedDays, rating)
     }
 
-    // Already in learning phase
-    const currentDifficulty = progress.difficulty || this.initDifficulty(3)
-    const currentStability = progress.stability || this.initStability(3)
-
-    // Again: reset to step 0
+    // Again: reduce stability on lapse
     if (rating === 1) {
-      return {
-        state: "learning",
-        difficulty: currentDifficulty,
-        stability: Math.max(0.1, currentStability * 0.5), // Reduce stability on lapse
-        retrievability: 1,
-        elapsed_days: 0,
-        scheduled_days: 0,
-        due_at: new Date(now.getTime() + intervalMinutes * 60 * 1000),
-        learning_step: 0,
-        is_learning_phase: true
-      }
+      return { difficulty, stability: Math.max(0.1, stability * 0.5) }
     }
 
-    // Easy: graduate immediately
+    // Easy: boost stability
     if (rating === 4) {
-      const newStability = Math.max(currentStability * 1.5, 1) // Boost stability
-      const interval = Math.max(1, this.nextInterval(newStability))
-      return {
-        state: "review",
-        difficulty: this.nextDifficulty(currentDifficulty, rating),
-        stability: newStability,
-        retrievability: 1,
-        elapsed_days: 0,
-        scheduled_days: this.fuzzInterval(interval),
-        due_at: this.addDays(now, this.fuzzInterval(interval)),
-        learning_step: 0,
-        is_learning_phase: false
-      }
+      return { difficulty: this.nextDifficulty(difficulty, rating), stability: Math.max(stability * 1.5, 1) }
+    }
+
+    return {
+      difficulty: graduates ? this.nextDifficulty(difficulty, rating) : difficulty,
+      stability
     }
+  }
+
+  /**
+   * Handle learning and relearning phase review (minute-based scheduling)
+   * Again restarts at the first step, Hard repeats the current step, Good moves
+   * to the next step and graduates after the last one, Easy graduates immediately
+   */
+  private reviewLearningPhase(
+    progress: SchedulableProgress,
+    rating: FSRSRating,
+    now: Date,
+    elapsedDays: number
+  ): SchedulingResult {
+    const next = nextLearningStep(this.steps, progress, rating)
 
-    // Good/Hard: advance step
-    const stepIncrement = rating === 3 ? 1 : 0
-    const nextStep = learning_step + stepIncrement
-    const shouldGraduate = nextStep >= LEARNING_GRADUATION_STEPS
+    // First review initializes FSRS parameters
+    const { difficulty, stability } = progress.state === "new"
+      ? this.nextMemoryState(null, elapsedDays, rating)
+      : this.nextLearningMemoryState(progress, elapsedDays, rating, next.graduates)
 
-    if (shouldGraduate) {
-      const interval = Math.max(1, this.nextInterval(currentStability))
+    if (next.graduates) {
+      const interval = Math.max(1, Math.min(this.nextInterval(stability), this.params.maximumInterval))
+      const fuzzedInterval = this.fuzzInterval(interval, progress, now)
       return {
         state: "review",
-        difficulty: this.nextDifficulty(currentDifficulty, rating),
-        stability: currentStability,
+        difficulty,
+        stability,
         retrievability: 1,
-        elapsed_days: 0,
-        scheduled_days: this.fuzzInterval(interval),
-        due_at: this.addDays(now, this.fuzzInterval(interval)),
+        elapsed_days: elapsedDays,
+        scheduled_days: fuzzedInterval,
+        due_at: this.addDays(now, fuzzedInterval),
         learning_step: 0,
         is_learning_phase: false
       }
     }
 
     return {
-      state: "learning",
-      difficulty: currentDifficulty,
-      stability: currentStability,
+      state: progress.state === "relearning" ? "relearning" : "learning",
+      difficulty,
+      stability,
       retrievability: 1,
-      elapsed_days: 0,
+      elapsed_days: elapsedDays,
       scheduled_days: 0,
-      due_at: new Date(now.getTime() + intervalMinutes * 60 * 1000),
-      learning_step: nextStep,
+      due_at: new Date(now.getTime() + next.delayMinutes * 60 * 1000),
+      learning_step: next.step,
       is_learning_phase: true
     }
   }
@@ -311,24 +356,23 @@ export class FSRSScheduler {
    * Handle day-phase review (FSRS algorithm)
    */
   private reviewDayPhase(
-    progress: Pick<UserWordProgress, 'state' | 'difficulty' | 'stability' | 'elapsed_days' | 'reps' | 'lapses'>,
+    progress: SchedulableProgress,
     rating: FSRSRating,
-    now: Date
+    now: Date,
+    elapsedDays: number
   ): SchedulingResult {
-    const { difficulty, stability, elapsed_days } = progress
-    const retrievability = this.retrievability(elapsed_days, stability)
+    const { difficulty: newDifficulty, stability: newStability } = this.nextMemoryState(progress, elapsedDays, rating)
 
-    // Again: card lapses, go to relearning
+    // Again: card lapses, go to the first relearning step
     if (rating === 1) {
-      const newStability = this.nextStabilityFailure(difficulty, stability, retrievability)
-      const intervalMinutes = LEARNING_STEPS[1] // 1 minute
+      const intervalMinutes = this.steps.relearning_steps[0]
 
       return {
         state: "relearning",
-        difficulty: this.nextDifficulty(difficulty, rating),
+        difficulty: newDifficulty,
         stability: newStability,
         retrievability: 0,
-        elapsed_days: 0,
+        elapsed_days: elapsedDays,
         scheduled_days: 0,
         due_at: new Date(now.getTime() + intervalMinutes * 60 * 1000),
         learning_step: 0,
@@ -337,17 +381,15 @@ export class FSRSScheduler {
     }
 
     // Hard/Good/Easy: successful review
-    const newDifficulty = this.nextDifficulty(difficulty, rating)
-    const newStability = this.nextStabilitySuccess(difficulty, stability, retrievability, rating)
     const interval = Math.max(1, Math.min(this.nextInterval(newStability), this.params.maximumInterval))
-    const fuzzedInterval = this.fuzzInterval(interval)
+    const fuzzedInterval = this.fuzzInterval(interval, progress, now)
 
     return {
       state: "review",
       difficulty: newDifficulty,
       stability: newStability,
       retrievability: this.retrievability(0, newStability),
-      elapsed_days: 0,
+      elapsed_days: elapsedDays,
       scheduled_days: fuzzedInterval,
       due_at: this.addDays(now, fuzzedInterval),
       learning_step: 0,
@@ -355,6 +397,67 @@ export class FSRSScheduler {
     }
   }
 
+  /**
+   * Calculate the memory state after a review
+   * Pass null for the first review of a card. With FSRS-5, a review on the
+   * same day as the previous one uses the short-term stability update.
+   */
+  nextMemoryState(memory: FSRSMemoryState | null, elapsedDays: number, rating: FSRSRating): FSRSMemoryState {
+    if (!memory) {
+      return {
+        difficulty: this.initDifficulty(rating),
+        stability: this.initStability(rating)
+      }
+    }
+
+    const { difficulty, stability } = memory
+
+    if (this.isFSRS5 && elapsedDays === 0) {
+      return {
+        difficulty: this.nextDifficulty(difficulty, rating),
+        stability: this.nextStabilityShortTerm(stability, rating)
+      }
+    }
+
+    const retrievability = this.retrievability(elapsedDays, stability)
+
+    return {
+      difficulty: this.nextDifficulty(difficulty, rating),
+      stability: rating === 1
+        ? this.nextStabilityFailure(difficulty, stability, retrievability)
+        : this.nextStabilitySuccess(difficulty, stability, retrievability, rating)
+    }
+  }
+
+  /**
+   * Predict the probability of recalling a memory after elapsedDays
+   */
+  predictRecall(elapsedDays: number, stability: number): number {
+    return this.retrievability(elapsedDays, stability)
+  }
+
+  /**
+   * Recompute a review card's interval from its stability under the current
+   * parameters, counted from its last review
+   * Returns null for cards that are new or in (re)learning steps
+   */
+  reschedule(progress: SchedulableProgress): Pick<SchedulingResult, "scheduled_days" | "due_at"> | null {
+    if (progress.is_learning_phase || progress.state !== "review" || !progress.last_review_at) return null
+
+    const lastReview = new Date(progress.last_review_at)
+    const interval = Math.max(1, Math.min(this.nextInterval(progress.stability), this.params.maximumInterval))
+    // Same fuzz seed as the review that scheduled the card, so unchanged parameters keep its due date
+    const fuzzedInterval = this.fuzzInterval(
+      interval,
+      { ...progress, total_reviews: Math.max(0, (progress.total_reviews ?? 0) - 1) },
+      lastReview
+    )
+    return {
+      scheduled_days: fuzzedInterval,
+      due_at: this.addDays(lastReview, fuzzedInterval)
+    }
+  }
+
   /**
    * Add days to a date
    */
@@ -367,41 +470,27 @@ export class FSRSScheduler {
   /**
    * Calculate estimated review intervals for display
    */
-  getSchedulePreview(
-    progress: Pick<UserWordProgress, 'state' | 'difficulty' | 'stability' | 'learning_step' | 'is_learning_phase' | 'elapsed_days' | 'reps' | 'lapses'>
-  ): Record<FSRSRating, string> {
-    const now = new Date()
-    const previews: Record<FSRSRating, string> = {
-      1: "",
-      2: "",
-      3: "",
-      4: ""
-    }
+  getSchedulePreview(progress: SchedulableProgress, now: Date = new Date()): Record<FSRSRating, string> {
+    return buildSchedulePreview(this, progress, now)
+  }
 
-    for (const rating of [1, 2, 3, 4] as FSRSRating[]) {
-      const result = this.review(progress, rating, now)
-      if (result.is_learning_phase) {
-        const minutes = Math.round((result.due_at.getTime() - now.getTime()) / 60000)
-        if (minutes < 60) {
-          previews[rating] = `${minutes}m`
-        } else {
-          previews[rating] = `${Math.round(minutes / 60)}h`
-        }
-      } else {
-        const days = result.scheduled_days
-        if (days === 1) {
-          previews[rating] = "1d"
-        } else if (days < 30) {
-          previews[rating] = `${days}d`
-        } else if (days < 365) {
-          previews[rating] = `${Math.round(days / 30)}mo`
-        } else {
-          previews[rating] = `${Math.round(days / 365)}y`
-        }
-      }
+  /**
+   * Scheduling fields of a new card; FSRS initializes D and S on the first rating
+   */
+  createInitialState(): InitialSchedulingState {
+    return {
+      state: "new",
+      difficulty: 0,
+      stability: 0,
+      retrievability: 1,
+      elapsed_days: 0,
+      scheduled_days: 0,
+      reps: 0,
+      lapses: 0,
+      learning_step: 0,
+      is_learning_phase: true,
+      scheduler_state: null
     }
-
-    return previews
   }
 }
 
@@ -411,31 +500,30 @@ export class FSRSScheduler {
 export const fsrsScheduler = new FSRSScheduler()
 
 /**
- * Helper function to create initial word progress
+ * Helper function to create the initial progress of one of a word's cards
  */
 export function createInitialWordProgress(
   userId: string,
   wordId: string,
-  bookId: string
+  bookId: string,
+  cardType: CardTemplate,
+  scheduler: IScheduler = fsrsScheduler
 ): Omit<UserWordProgress, 'id' | 'created_at' | 'updated_at'> {
   return {
     user_id: userId,
     word_id: wordId,
     book_id: bookId,
-    state: "new",
-    difficulty: 0,
-    stability: 0,
-    retrievability: 1,
-    elapsed_days: 0,
-    scheduled_days: 0,
-    reps: 0,
-    lapses: 0,
-    learning_step: 0,
-    is_learning_phase: true,
+    card_type: cardType,
+    ...scheduler.createInitialState(),
     last_review_at: null,
     due_at: new Date().toISOString(),
     total_reviews: 0,
-    correct_reviews: 0
+    correct_reviews: 0,
+    is_leech: false,
+    is_suspended: false,
+    note: null,
+    is_known: false,
+    buried_until: null
   }
 }
 
@@ -34,6 +34,7 @@ export {
   updateBook,
   deleteBook,
   getBookWords,
+  getBookTags,
   addWords,
   deleteWord,
   getBookProgress,
@@ -42,18 +43,156 @@ export {
 } from "./vocabulary"
 export type { IVocabularyApi } from "./vocabulary"
 
+// Study Day and User Profile
+export {
+  getDeviceTimezone,
+  isValidTimezone,
+  setStudyDaySettings,
+  getStudyDaySettings,
+  getStudyDate,
+  addStudyDays,
+  studyDaysBetween,
+  getStudyDayStart,
+  getNextStudyDayStart
+} from "./study-day"
+export { getUserProfile, updateUserProfile, toStudyDaySettings } from "./user-profile"
+
 // FSRS Spaced Repetition
-export { FSRSScheduler, fsrsScheduler, createInitialWordProgress, stateToMasteryLevel } from "./fsrs"
+export { FSRSScheduler, fsrsScheduler, createInitialWordProgress, stateToMasteryLevel, getElapsedDays } from "./fsrs"
+
+// Scheduler Contract and Alternatives
+export type { IScheduler } from "./scheduler"
+export {
+  buildSchedulePreview,
+  formatScheduleInterval,
+  getDayKey,
+  parseLearningSteps,
+  formatLearningSteps
+} from "./scheduler"
+export { SM2Scheduler, sm2Scheduler } from "./sm2"
+export { LeitnerScheduler, leitnerScheduler, LEITNER_BOX_INTERVALS } from "./leitner"
+export type { SchedulerSettings } from "./scheduler-factory"
+export {
+  createScheduler,
+  createFSRSScheduler,
+  getBookScheduler,
+  getDueLoad,
+  getLoadBalancingDays
+} from "./scheduler-factory"
+
+// Workload Estimation
+export { estimateDailyWorkload } from "./workload"
+export type { WorkloadEstimate, WorkloadEstimateOptions } from "./workload"
+
+// Workload Forecast
+export { getWorkloadForecastInput, forecastWorkload } from "./forecast"
+export type {
+  ForecastCard,
+  WorkloadForecastInput,
+  WorkloadForecastOptions,
+  WorkloadForecastDay
+} from "./forecast"
+
+// FSRS Optimizer
+export { optimizeParams, MIN_REVIEWS_FOR_OPTIMIZATION } from "./fsrs-optimizer"
+export type { FSRSOptimizerRequest, FSRSOptimizerResponse, OptimizeOptions } from "./fsrs-optimizer"
+export {
+  getUserFSRSParams,
+  saveUserFSRSParams,
+  setUserFSRSVersion,
+  getTrainingReviews,
+  toFSRSParameters,
+  getUserScheduler
+} from "./fsrs-params"
 
 // Vocabulary Detail
 export {
   getBookWithDetails,
   getTodayLearningSession,
+  getDueReviewSession,
+  getCustomStudySession,
+  getCustomStudyPath,
+  parseCustomStudyPath,
+  logPreviewReview,
+  removePreviewReview,
   getRecentWords,
   getDifficultWords,
   processWordReview,
+  undoLastReview,
   initializeBookProgress,
   getWordSchedulePreview,
-  formatNextReview
+  formatNextReview,
+  isBuried
 } from "./vocabulary-detail"
 
+// Word Progress Actions
+export {
+  getLeechWords,
+  setWordFlag,
+  updateWordNote,
+  resetWordProgress
+} from "./word-progress"
+
+// Vacation Mode (due shifts)
+export {
+  planDueShift,
+  applyDueShift,
+  getDueShifts,
+  revertDueShift
+} from "./due-shift"
+export type { DueShiftOptions } from "./due-shift"
+
+// Rescheduling under new parameters
+export { planReschedule, applyReschedule } from "./reschedule"
+
+// Offline Reviews
+export {
+  getPendingReviews,
+  queueOfflineReview,
+  removePendingReview,
+  scheduleLocalReview,
+  syncPendingReviews
+} from "./offline-reviews"
+
+// Learning Session Queue
+export {
+  createSessionQueue,
+  getCurrentCard,
+  getNextLearningDueAt,
+  getRemainingCount,
+  isSessionComplete,
+  applySessionReview,
+  undoSessionReview,
+  removeSessionCard,
+  arrangeSessionQueue
+} from "./learning-session"
+
+// Card Templates
+export {
+  CLOZE_BLANK,
+  getCardKey,
+  getClozeSentence,
+  getWordCardTemplates,
+  isTypedCard,
+  isQuizCard,
+  burySiblingCards
+} from "./card-templates"
+
+// Spelling Mode
+export {
+  normalizeSpelling,
+  diffSpelling,
+  suggestSpellingRating,
+  checkSpelling
+} from "./spelling"
+
+// Quiz Mode
+export {
+  QUIZ_CHOICE_COUNT,
+  getPartOfSpeech,
+  getQuizWordPool,
+  pickDistractors,
+  buildQuizQuestion,
+  suggestQuizRating,
+  checkQuizAnswer
+} from "./quiz"
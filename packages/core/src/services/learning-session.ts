@@ -0,0 +1,236 @@
+/**
+ * Learning Session Queue
+ * Pure functions that drive an in-memory FSRS learning session:
+ * 1. Due reviews first, then new words
+ * 2. Learning/relearning cards re-enter the session when their minute-level due time arrives
+ * 3. Graded cards are remembered so the last review can be undone
+ * 4. Sessions across books interleave the books or keep each book together
+ * Cards are told apart by word and template (getCardKey)
+ */
+
+import { getCardKey } from "./card-templates"
+import type {
+  LearningSessionQueue,
+  ReviewQueueOrder,
+  SessionCard,
+  SessionReview,
+  SessionProgress,
+  TodayLearningSession,
+  WordWithProgress
+} from "../types/vocabulary"
+
+/**
+ * Build the initial session queue from today's learning session
+ */
+export function createSessionQueue(
+  session: TodayLearningSession,
+  now: Date = new Date()
+): LearningSessionQueue {
+  const nowMs = now.getTime()
+  const queue: SessionCard[] = [...session.reviewWords, ...session.newWords].map((word) => ({
+    word,
+    dueAt: word.due_at ? Math.min(new Date(word.due_at).getTime(), nowMs) : nowMs
+  }))
+
+  return {
+    queue,
+    learning: [],
+    history: [],
+    reviewedCount: 0,
+    correctCount: 0,
+    totalCount: queue.length
+  }
+}
+
+/**
+ * Lay out the cards still waiting in the main queue by book
+ * Each book keeps its own order and books keep the order they first appear in;
+ * by_book shows one book after another, interleave one card of each book in turn
+ */
+export function arrangeSessionQueue(
+  session: LearningSessionQueue,
+  order: ReviewQueueOrder
+): LearningSessionQueue {
+  const byBook = new Map<string, SessionCard[]>()
+  for (const card of session.queue) {
+    const cards = byBook.get(card.word.book_id)
+    if (cards) {
+      cards.push(card)
+    } else {
+      byBook.set(card.word.book_id, [card])
+    }
+  }
+
+  const books = [...byBook.values()]
+  let queue: SessionCard[]
+  if (order === "by_book") {
+    queue = books.flat()
+  } else {
+    queue = []
+    const longest = Math.max(0, ...books.map((cards) => cards.length))
+    for (let i = 0; i < longest; i++) {
+      for (const cards of books) {
+        if (i < cards.length) queue.push(cards[i])
+      }
+    }
+  }
+
+  return { ...session, queue }
+}
+
+/**
+ * Get the card to show next
+ * Learning cards whose due time has passed take priority over the main queue
+ */
+export function getCurrentCard(
+  session: LearningSessionQueue,
+  now: Date = new Date()
+): SessionCard | null {
+  const nextLearning = session.learning[0]
+  if (nextLearning && nextLearning.dueAt <= now.getTime()) {
+    return nextLearning
+  }
+  return session.queue[0] ?? null
+}
+
+/**
+ * Get the earliest due time of cards still waiting in the learning queue
+ */
+export function getNextLearningDueAt(session: LearningSessionQueue): number | null {
+  return session.learning[0]?.dueAt ?? null
+}
+
+/**
+ * Check if every card in the session has been completed
+ */
+export function isSessionComplete(session: LearningSessionQueue): boolean {
+  return session.queue.length === 0 && session.learning.length === 0
+}
+
+/**
+ * Number of cards still left in the session (ready + waiting)
+ */
+export function getRemainingCount(session: LearningSessionQueue): number {
+  return session.queue.length + session.learning.length
+}
+
+/**
+ * Apply a review result to the session
+ * Removes the graded card and puts it back into the learning queue
+ * if it is still in the short-term (minute-level) learning phase
+ */
+export function applySessionReview(
+  session: LearningSessionQueue,
+  cardKey: string,
+  progress: SessionProgress,
+  isCorrect: boolean,
+  ref: Pick<SessionReview, "offlineReviewId" | "previewLogId"> = {}
+): LearningSessionQueue {
+  const isOther = (card: SessionCard) => getCardKey(card.word) !== cardKey
+  const queue = session.queue.filter(isOther)
+  const learning = session.learning.filter(isOther)
+  const previous = [...session.queue, ...session.learning].find((card) => !isOther(card))
+
+  // A word suspended as a leech leaves the session even while relearning
+  if (progress.is_learning_phase && !progress.is_suspended && previous) {
+    insertByDueAt(learning, {
+      word: mergeWordProgress(previous.word, progress),
+      dueAt: new Date(progress.due_at).getTime()
+    })
+  }
+
+  return {
+    queue,
+    learning,
+    history: previous ? [...session.history, { card: previous, isCorrect, ...ref }] : session.history,
+    reviewedCount: session.reviewedCount + 1,
+    correctCount: isCorrect ? session.correctCount + 1 : session.correctCount,
+    totalCount: session.totalCount
+  }
+}
+
+/**
+ * Undo the last review of the session
+ * Pass the progress restored by undoLastReview; without it (an offline review
+ * that never reached the server, or preview practice) the card's state before
+ * grading is kept.
+ * The card is shown next (ahead of waiting learning cards) with its previous state
+ */
+export function undoSessionReview(
+  session: LearningSessionQueue,
+  cardKey: string,
+  progress?: SessionProgress | null
+): LearningSessionQueue {
+  const last = session.history[session.history.length - 1]
+  if (!last || getCardKey(last.card.word) !== cardKey) return session
+
+  const isOther = (card: SessionCard) => getCardKey(card.word) !== cardKey
+  const learning = session.learning.filter(isOther)
+  const word = progress ? mergeWordProgress(last.card.word, progress) : last.card.word
+
+  return {
+    queue: session.queue.filter(isOther),
+    // Due since the epoch, so getCurrentCard picks it before anything else
+    learning: [{ word, dueAt: 0 }, ...learning],
+    history: session.history.slice(0, -1),
+    reviewedCount: session.reviewedCount - 1,
+    correctCount: last.isCorrect ? session.correctCount - 1 : session.correctCount,
+    totalCount: session.totalCount
+  }
+}
+
+/**
+ * Take a word's cards out of the session (suspended, buried or marked known mid-session)
+ * They no longer count towards the session total; reviews already made are kept
+ */
+export function removeSessionCard(
+  session: LearningSessionQueue,
+  wordId: string
+): LearningSessionQueue {
+  const queue = session.queue.filter((card) => card.word.id !== wordId)
+  const learning = session.learning.filter((card) => card.word.id !== wordId)
+  const removed = session.queue.length - queue.length + session.learning.length - learning.length
+  if (removed === 0) return session
+
+  return {
+    ...session,
+    queue,
+    learning,
+    totalCount: session.totalCount - removed
+  }
+}
+
+/**
+ * Update a session word with freshly saved progress
+ */
+function mergeWordProgress(word: WordWithProgress, progress: SessionProgress): WordWithProgress {
+  return {
+    ...word,
+    state: progress.state,
+    stability: progress.stability,
+    due_at: progress.due_at,
+    last_review_at: progress.last_review_at,
+    lapses: progress.lapses,
+    difficulty: progress.difficulty,
+    elapsed_days: progress.elapsed_days,
+    reps: progress.reps,
+    total_reviews: progress.total_reviews,
+    learning_step: progress.learning_step,
+    is_learning_phase: progress.is_learning_phase,
+    scheduler_state: progress.scheduler_state,
+    is_leech: progress.is_leech,
+    is_suspended: progress.is_suspended
+  }
+}
+
+/**
+ * Insert a card keeping the learning queue sorted by due time
+ */
+function insertByDueAt(cards: SessionCard[], card: SessionCard): void {
+  const index = cards.findIndex((c) => c.dueAt > card.dueAt)
+  if (index === -1) {
+    cards.push(card)
+  } else {
+    cards.splice(index, 0, card)
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Leitner Scheduler
+ *
+ * Implements the Leitner box system used with paper flashcards:
+ * 1. Cards move up one box when remembered (Easy skips a box, Hard stays put)
+ * 2. A forgotten card goes back to box 1 and is repeated within the session
+ * 3. Each box has a fixed review interval
+ *
+ * New and forgotten cards first go through the book's learning or relearning steps.
+ *
+ * Stability holds the current interval in days so book statistics keep working.
+ */
+
+import type {
+  FSRSRating,
+  InitialSchedulingState,
+  LearningStepSettings,
+  LeitnerState,
+  SchedulableProgress,
+  SchedulingResult
+} from "../types/vocabulary"
+import { getElapsedDays } from "./fsrs"
+import {
+  addDays,
+  buildSchedulePreview,
+  isLearningPhase,
+  nextLearningStep,
+  resolveLearningSteps,
+  type IScheduler,
+  type LearningStepOutcome
+} from "./scheduler"
+
+/**
+ * Review interval in days for boxes 1..5
+ */
+export const LEITNER_BOX_INTERVALS = [1, 3, 7, 14, 30]
+
+/**
+ * Leitner Box Implementation
+ */
+export class LeitnerScheduler implements IScheduler {
+  readonly algorithm = "leitner" as const
+  private boxIntervals: number[]
+  private steps: LearningStepSettings
+
+  constructor(boxIntervals: number[] = LEITNER_BOX_INTERVALS, steps: Partial<LearningStepSettings> = {}) {
+    this.boxIntervals = boxIntervals
+    this.steps = resolveLearningSteps(steps)
+  }
+
+  /**
+   * Read the Leitner state of a card (box 0 = not placed yet)
+   * Cards scheduled by another algorithm go to the box matching their interval
+   */
+  private getState(progress: SchedulableProgress): LeitnerState {
+    if (progress.scheduler_state?.algorithm === "leitner") {
+      return progress.scheduler_state
+    }
+    if (progress.state === "new") {
+      return { algorithm: "leitner", box: 0 }
+    }
+
+    const box = this.boxIntervals.filter((interval) => interval <= progress.stability).length
+    return { algorithm: "leitner", box: Math.max(1, box) }
+  }
+
+  /**
+   * Process a review and calculate the next scheduling
+   */
+  review(progress: SchedulableProgress, rating: FSRSRating, now: Date = new Date()): SchedulingResult {
+    const { box } = this.getState(progress)
+    const elapsedDays = getElapsedDays(progress.last_review_at, now)
+    const lastBox = this.boxIntervals.length
+    const isLearning = isLearningPhase(progress)
+
+    // Learning cards follow the book's steps; a forgotten review card goes to the first relearning step
+    const next: LearningStepOutcome = isLearning
+      ? nextLearningStep(this.steps, progress, rating)
+      : rating === 1
+        ? { graduates: false, step: 0, delayMinutes: this.steps.relearning_steps[0] }
+        : { graduates: true }
+
+    // In steps: back to box 1 and repeat in this session
+    if (!next.graduates) {
+      return {
+        state: isLearning && progress.state !== "relearning" ? "learning" : "relearning",
+        difficulty: progress.difficulty,
+        stability: 0,
+        retrievability: rating === 1 ? 0 : 1,
+        elapsed_days: elapsedDays,
+        scheduled_days: 0,
+        due_at: new Date(now.getTime() + next.delayMinutes * 60 * 1000),
+        learning_step: next.step,
+        is_learning_phase: true,
+        scheduler_state: { algorithm: "leitner", box: 1 }
+      }
+    }
+
+    // New or just-forgotten cards start from box 1; only Easy moves them on
+    const nextBox = isLearning
+      ? Math.max(1, box) + (rating === 4 ? 1 : 0)
+      : box + (rating === 4 ? 2 : rating === 3 ? 1 : 0)
+    const newBox = Math.min(lastBox, Math.max(1, nextBox))
+    const interval = this.boxIntervals[newBox - 1]
+
+    return {
+      state: "review",
+      difficulty: progress.difficulty,
+      stability: interval,
+      retrievability: 1,
+      elapsed_days: elapsedDays,
+      scheduled_days: interval,
+      due_at: addDays(now, interval),
+      learning_step: 0,
+      is_learning_phase: false,
+      scheduler_state: { algorithm: "leitner", box: newBox }
+    }
+  }
+
+  /**
+   * Calculate estimated review intervals for display
+   */
+  getSchedulePreview(progress: SchedulableProgress, now: Date = new Date()): Record<FSRSRating, string> {
+    return buildSchedulePreview(this, progress, now)
+  }
+
+  /**
+   * Scheduling fields of a new card
+   */
+  createInitialState(): InitialSchedulingState {
+    return {
+      state: "new",
+      difficulty: 0,
+      stability: 0,
+      retrievability: 1,
+      elapsed_days: 0,
+      scheduled_days: 0,
+      reps: 0,
+      lapses: 0,
+      learning_step: 0,
+      is_learning_phase: true,
+      scheduler_state: { algorithm: "leitner", box: 0 }
+    }
+  }
+}
+
+/**
+ * Default Leitner scheduler instance
+ */
+export const leitnerScheduler = new LeitnerScheduler()
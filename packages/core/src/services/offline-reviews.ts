@@ -0,0 +1,365 @@
+/**
+ * Offline Review Service
+ * Keeps a learning session going without a connection:
+ * 1. Reviews are scheduled locally so the session can continue
+ * 2. Pending reviews are persisted through the platform storage adapter
+ * 3. On reconnect they are replayed in the order they were made; when the server
+ *    already has newer reviews of the card, its review logs are replayed together
+ *    with the pending review to rebuild the card's state
+ */
+
+import type { IStorageAdapter } from "../adapters/types"
+import { getSupabase, isNetworkError, isSupabaseInitialized } from "./supabase"
+import { createInitialWordProgress } from "./fsrs"
+import { getBookScheduler } from "./scheduler-factory"
+import type { IScheduler } from "./scheduler"
+import { getStudyDate } from "./study-day"
+import {
+  applyScheduledReview,
+  MAX_REVIEW_ATTEMPTS,
+  normalizeReviewTime,
+  STALE_PROGRESS_ERROR,
+  toSchedulableProgress,
+  type ReviewCounters
+} from "./vocabulary-detail"
+import type {
+  CardTemplate,
+  FSRSRating,
+  OfflineSyncResult,
+  PendingReview,
+  SchedulableProgress,
+  SchedulingResult,
+  SessionProgress,
+  UserWordProgress,
+  WordWithProgress
+} from "../types/vocabulary"
+
+/**
+ * Storage key prefix for a user's pending reviews
+ */
+const PENDING_REVIEWS_KEY = "offline-reviews"
+
+/**
+ * Outcome of replaying a single pending review
+ */
+type ReplayOutcome = "applied" | "retry" | "dropped"
+
+/**
+ * Syncs in flight per user, so two triggers never replay the same review twice
+ */
+const activeSyncs = new Map<string, Promise<OfflineSyncResult>>()
+
+function getPendingReviewsKey(userId: string): string {
+  return `${PENDING_REVIEWS_KEY}:${userId}`
+}
+
+// ============================================
+// Pending Review Queue
+// ============================================
+
+/**
+ * Get a user's pending reviews, oldest first
+ */
+export async function getPendingReviews(
+  storage: IStorageAdapter,
+  userId: string
+): Promise<PendingReview[]> {
+  try {
+    return (await storage.get<PendingReview[]>(getPendingReviewsKey(userId))) ?? []
+  } catch (err) {
+    console.error("Error reading pending reviews:", err)
+    return []
+  }
+}
+
+/**
+ * Add a review graded offline to the user's pending queue
+ */
+export async function queueOfflineReview(
+  storage: IStorageAdapter,
+  input: {
+    userId: string
+    wordId: string
+    bookId: string
+    cardType: CardTemplate
+    rating: FSRSRating
+    reviewedAt: Date
+    reviewTimeMs?: number | null
+  }
+): Promise<PendingReview> {
+  const review: PendingReview = {
+    id: `${input.wordId}:${input.cardType}:${input.reviewedAt.getTime()}`,
+    userId: input.userId,
+    wordId: input.wordId,
+    bookId: input.bookId,
+    cardType: input.cardType,
+    rating: input.rating,
+    reviewedAt: input.reviewedAt.toISOString(),
+    studyDate: getStudyDate(input.reviewedAt),
+    reviewTimeMs: normalizeReviewTime(input.reviewTimeMs)
+  }
+
+  const pending = await getPendingReviews(storage, input.userId)
+  await storage.set(getPendingReviewsKey(input.userId), [...pending, review])
+  return review
+}
+
+/**
+ * Remove a pending review (synced, dropped or undone)
+ * Returns false when it was no longer pending
+ */
+export async function removePendingReview(
+  storage: IStorageAdapter,
+  userId: string,
+  reviewId: string
+): Promise<boolean> {
+  const pending = await getPendingReviews(storage, userId)
+  const remaining = pending.filter((review) => review.id !== reviewId)
+  if (remaining.length === pending.length) return false
+
+  if (remaining.length > 0) {
+    await storage.set(getPendingReviewsKey(userId), remaining)
+  } else {
+    await storage.remove(getPendingReviewsKey(userId))
+  }
+  return true
+}
+
+// ============================================
+// Local Scheduling
+// ============================================
+
+/**
+ * Schedule a review on the device, for a session that cannot reach the server
+ * The server recomputes the schedule when the review is replayed
+ */
+export function scheduleLocalReview(
+  word: WordWithProgress,
+  rating: FSRSRating,
+  scheduler: IScheduler,
+  now: Date = new Date()
+): SessionProgress {
+  const result = scheduler.review({ ...word, word_id: word.id }, rating, now)
+
+  return {
+    word_id: word.id,
+    state: result.state,
+    difficulty: result.difficulty,
+    stability: result.stability,
+    elapsed_days: result.elapsed_days,
+    reps: word.reps + (rating >= 2 ? 1 : 0),
+    lapses: word.lapses + (rating === 1 ? 1 : 0),
+    total_reviews: word.total_reviews + 1,
+    learning_step: result.learning_step,
+    is_learning_phase: result.is_learning_phase,
+    last_review_at: now.toISOString(),
+    due_at: result.due_at.toISOString(),
+    scheduler_state: result.scheduler_state ?? null,
+    // Leeches are detected by the server when the review is replayed
+    is_leech: word.is_leech,
+    is_suspended: word.is_suspended
+  }
+}
+
+// ============================================
+// Replay
+// ============================================
+
+/**
+ * Rebuild a card's schedule from its review logs with the pending review merged in
+ * Used when the server has reviews newer than the pending one, so applying it on
+ * top of the current state would put the reviews out of order.
+ * The replay starts from the snapshot of the card taken before the first newer
+ * review, so changes made without a review (a reset, a vacation shift, a
+ * reschedule) are kept; logs without a snapshot replay the whole history.
+ * Counters follow apply_review: Again is a lapse, anything else a successful rep.
+ * They already include the pending review, so apply_review sets them as they are.
+ */
+async function replayReviewLogs(
+  review: PendingReview,
+  cardType: CardTemplate,
+  scheduler: IScheduler
+): Promise<{ result: SchedulingResult; counters: ReviewCounters } | null> {
+  const { data, error } = await getSupabase()
+    .from("review_logs")
+    .select("rating, reviewed_at, progress_before")
+    .eq("user_id", review.userId)
+    .eq("word_id", review.wordId)
+    .eq("card_type", cardType)
+    .eq("is_preview", false)
+    .order("reviewed_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching review logs for replay:", error)
+    return null
+  }
+
+  const logs = (data ?? []) as {
+    rating: FSRSRating
+    reviewed_at: string
+    progress_before: UserWordProgress | null
+  }[]
+  const reviewedAt = new Date(review.reviewedAt)
+  const firstNewer = logs.findIndex((log) => new Date(log.reviewed_at).getTime() > reviewedAt.getTime())
+  const snapshot = firstNewer >= 0 ? logs[firstNewer].progress_before : null
+  const replayedLogs = snapshot ? logs.slice(firstNewer) : logs
+
+  const events = [
+    ...replayedLogs.map((log) => ({ rating: log.rating, reviewedAt: new Date(log.reviewed_at) })),
+    { rating: review.rating, reviewedAt }
+  ].sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime())
+
+  let progress: SchedulableProgress = snapshot
+    ? toSchedulableProgress(snapshot)
+    : {
+        ...scheduler.createInitialState(),
+        word_id: review.wordId,
+        card_type: cardType,
+        total_reviews: 0,
+        last_review_at: null
+      }
+  let result: SchedulingResult | null = null
+  let correctReviews = snapshot?.correct_reviews ?? 0
+
+  for (const event of events) {
+    result = scheduler.review(progress, event.rating, event.reviewedAt)
+    progress = {
+      ...progress,
+      ...result,
+      reps: progress.reps + (event.rating >= 2 ? 1 : 0),
+      lapses: progress.lapses + (event.rating === 1 ? 1 : 0),
+      total_reviews: (progress.total_reviews ?? 0) + 1,
+      last_review_at: event.reviewedAt.toISOString()
+    }
+    correctReviews += event.rating >= 3 ? 1 : 0
+  }
+
+  if (!result) return null
+  return {
+    result,
+    counters: {
+      reps: progress.reps,
+      lapses: progress.lapses,
+      total_reviews: progress.total_reviews ?? events.length,
+      correct_reviews: correctReviews
+    }
+  }
+}
+
+/**
+ * Replay one pending review on the server
+ */
+async function replayPendingReview(
+  review: PendingReview,
+  scheduler: IScheduler
+): Promise<ReplayOutcome> {
+  const supabase = getSupabase()
+  const reviewedAt = new Date(review.reviewedAt)
+  const cardType = review.cardType ?? "recognition"
+
+  for (let attempt = 1; attempt <= MAX_REVIEW_ATTEMPTS; attempt++) {
+    const { data: existing, error: readError } = await supabase
+      .from("user_word_progress")
+      .select("*")
+      .eq("user_id", review.userId)
+      .eq("word_id", review.wordId)
+      .eq("card_type", cardType)
+      .maybeSingle()
+
+    if (readError) {
+      console.error("Error fetching progress for offline review:", readError)
+      return "retry"
+    }
+
+    // The row read here is the one apply_review replaces and snapshots for undo;
+    // expectedTotalReviews makes sure it is still the same row
+    const progress = existing ?? createInitialWordProgress(review.userId, review.wordId, review.bookId, cardType, scheduler)
+
+    // Reviewed elsewhere after this review was made: rebuild from the full history
+    const hasNewerReviews =
+      !!progress.last_review_at && new Date(progress.last_review_at).getTime() > reviewedAt.getTime()
+    const replayed = hasNewerReviews
+      ? await replayReviewLogs(review, cardType, scheduler)
+      : { result: scheduler.review(toSchedulableProgress(progress), review.rating, reviewedAt), counters: undefined }
+
+    if (!replayed) return "retry"
+
+    const { error } = await applyScheduledReview({
+      userId: review.userId,
+      wordId: review.wordId,
+      bookId: review.bookId,
+      cardType,
+      rating: review.rating,
+      expectedTotalReviews: progress.total_reviews,
+      result: replayed.result,
+      counters: replayed.counters,
+      reviewedAt,
+      studyDate: review.studyDate,
+      reviewTimeMs: review.reviewTimeMs
+    })
+
+    if (!error) return "applied"
+
+    // Another session reviewed the card meanwhile: read it again
+    if (error.code === STALE_PROGRESS_ERROR) continue
+
+    if (isNetworkError(error)) return "retry"
+
+    // Rejected outright (e.g. the word was deleted); keeping it would block the queue
+    console.error("Error replaying offline review:", error)
+    return "dropped"
+  }
+
+  return "retry"
+}
+
+/**
+ * Replay a user's pending reviews in order
+ * Stops at the first review that cannot be applied yet, so later reviews of the
+ * same word never overtake it
+ */
+export function syncPendingReviews(
+  storage: IStorageAdapter,
+  userId: string
+): Promise<OfflineSyncResult> {
+  const active = activeSyncs.get(userId)
+  if (active) return active
+
+  const sync = (async (): Promise<OfflineSyncResult> => {
+    const pending = await getPendingReviews(storage, userId)
+    const result: OfflineSyncResult = { synced: 0, dropped: 0, remaining: pending.length }
+    if (!isSupabaseInitialized() || pending.length === 0) return result
+
+    const schedulers = new Map<string, IScheduler>()
+
+    for (const review of pending) {
+      let scheduler = schedulers.get(review.bookId)
+      if (!scheduler) {
+        // Without the book's settings the review cannot be scheduled yet; keep the queue
+        try {
+          scheduler = await getBookScheduler(userId, review.bookId)
+        } catch (err) {
+          console.error("Error loading scheduler for offline review:", err)
+          break
+        }
+        schedulers.set(review.bookId, scheduler)
+      }
+
+      const outcome = await replayPendingReview(review, scheduler)
+      if (outcome === "retry") break
+
+      await removePendingReview(storage, userId, review.id)
+      result.remaining -= 1
+      if (outcome === "applied") {
+        result.synced += 1
+      } else {
+        result.dropped += 1
+      }
+    }
+
+    return result
+  })()
+
+  activeSyncs.set(userId, sync)
+  return sync.finally(() => activeSyncs.delete(userId))
+}
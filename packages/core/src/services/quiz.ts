@@ -0,0 +1,200 @@
+/**
+ * Quiz Service
+ * Multiple-choice questions for the "quiz" learning mode:
+ * 1. Distractors come from the same book, closest in part of speech and spelling
+ * 2. A card's question shows the word with four definitions, or the reverse
+ * 3. FSRS rating derived from correctness and answer time
+ */
+
+import { getSupabase, isSupabaseInitialized } from "./supabase"
+import { getClozeSentence } from "./card-templates"
+import { diffSpelling, normalizeSpelling } from "./spelling"
+import { hashString, seededShuffle } from "../utils"
+import type {
+  FSRSRating,
+  QuizAnswerResult,
+  QuizDirection,
+  QuizQuestion,
+  QuizWord,
+  WordWithProgress
+} from "../types/vocabulary"
+
+/**
+ * Choices per question, the answer included
+ */
+export const QUIZ_CHOICE_COUNT = 4
+
+/**
+ * Closest candidates considered per distractor, so a word's questions vary
+ */
+const DISTRACTOR_CANDIDATE_FACTOR = 3
+
+/**
+ * Answer time budget for a correct choice
+ * Base time plus a per-character allowance for reading the prompt and the choices
+ */
+const FAST_ANSWER_BASE_MS = 2000
+const FAST_ANSWER_PER_CHAR_MS = 15
+const SLOW_ANSWER_BASE_MS = 6000
+const SLOW_ANSWER_PER_CHAR_MS = 40
+
+/**
+ * Part-of-speech abbreviations a definition may start with, e.g. "adj. flexible"
+ */
+const PART_OF_SPEECH_PATTERN = /^\s*(n|v|vt|vi|adj|adv|prep|conj|pron|num|art|int|interj|aux|abbr)\./i
+
+/**
+ * Part of speech from the abbreviation a definition starts with, or null
+ * Transitive and intransitive verbs count as verbs
+ */
+export function getPartOfSpeech(definition: string | null): string | null {
+  const match = definition?.match(PART_OF_SPEECH_PATTERN)
+  if (!match) return null
+
+  const pos = match[1].toLowerCase()
+  return pos === "vt" || pos === "vi" ? "v" : pos
+}
+
+/**
+ * Share of characters that differ between two spellings, from 0 (same) to 1
+ */
+function spellingDistance(a: string, b: string): number {
+  const distance = diffSpelling(a, b).filter((segment) => segment.type !== "match").length
+  return distance / Math.max(1, normalizeSpelling(a).length, normalizeSpelling(b).length)
+}
+
+/**
+ * Fetch the words of a book that quiz questions draw their distractors from
+ */
+export async function getQuizWordPool(bookId: string): Promise<QuizWord[]> {
+  if (!isSupabaseInitialized()) {
+    return []
+  }
+
+  const supabase = getSupabase()
+  const { data, error } = await supabase
+    .from("vocabulary_words")
+    .select("id, word, definition")
+    .eq("book_id", bookId)
+    .order("id")
+
+  if (error) {
+    console.error("Error fetching quiz words:", error)
+    throw new Error("Failed to fetch quiz words")
+  }
+
+  return (data || []) as QuizWord[]
+}
+
+/**
+ * Pick distractors for a word out of its book
+ * Candidates sharing the word's part of speech come first, then the closest
+ * spellings; the distractors are drawn from the closest few, so the same word
+ * does not always meet the same ones. Choices never repeat the answer's text.
+ */
+export function pickDistractors(
+  target: QuizWord,
+  pool: QuizWord[],
+  direction: QuizDirection,
+  seed: number,
+  count: number = QUIZ_CHOICE_COUNT - 1
+): QuizWord[] {
+  const textOf = (word: QuizWord) =>
+    normalizeSpelling(direction === "word_to_definition" ? word.definition ?? "" : word.word)
+  const targetPos = getPartOfSpeech(target.definition)
+
+  const ranked = pool
+    .filter((word) => word.id !== target.id && textOf(word) !== "")
+    .map((word) => ({
+      word,
+      score: (targetPos !== null && getPartOfSpeech(word.definition) === targetPos ? 0 : 1)
+        + spellingDistance(target.word, word.word)
+    }))
+    .sort((a, b) => a.score - b.score)
+
+  // Keep one candidate per choice text
+  const seen = new Set([textOf(target)])
+  const candidates: QuizWord[] = []
+  for (const { word } of ranked) {
+    if (candidates.length >= count * DISTRACTOR_CANDIDATE_FACTOR) break
+    const text = textOf(word)
+    if (seen.has(text)) continue
+    seen.add(text)
+    candidates.push(word)
+  }
+
+  return seededShuffle(candidates, seed).slice(0, count)
+}
+
+/**
+ * Build the question for a card, or null when it cannot be quizzed
+ * Recognition cards show the word and ask for its definition; recall and cloze
+ * cards show the definition or the blanked example sentence and ask for the word.
+ * A card needs a definition to ask about and enough distractors in its book.
+ * The seed keeps a card's choices in place while it is shown.
+ */
+export function buildQuizQuestion(
+  card: WordWithProgress,
+  pool: QuizWord[],
+  seed: string
+): QuizQuestion | null {
+  const direction: QuizDirection = card.card_type === "recognition" ? "word_to_definition" : "definition_to_word"
+  const definition = card.definition?.trim() || null
+  const clozeSentence = card.card_type === "cloze" ? getClozeSentence(card.example_sentence, card.word) : null
+  const prompt = direction === "word_to_definition" ? card.word : clozeSentence ?? definition
+  if (!prompt || (direction === "word_to_definition" && !definition)) return null
+
+  const target: QuizWord = { id: card.id, word: card.word, definition }
+  const distractors = pickDistractors(target, pool, direction, hashString(seed))
+  if (distractors.length < QUIZ_CHOICE_COUNT - 1) return null
+
+  const choices = seededShuffle([target, ...distractors], hashString(`${seed}:choices`)).map((word) => ({
+    wordId: word.id,
+    text: direction === "word_to_definition" ? word.definition!.trim() : word.word
+  }))
+
+  return {
+    direction,
+    prompt,
+    choices,
+    answerIndex: choices.findIndex((choice) => choice.wordId === card.id)
+  }
+}
+
+/**
+ * Suggest an FSRS rating for a quiz answer
+ * - Again: wrong choice
+ * - Hard: correct but slow
+ * - Good: correct within a normal time
+ * - Easy: correct and fast
+ */
+export function suggestQuizRating(
+  isCorrect: boolean,
+  readingLength: number,
+  answerTimeMs: number
+): FSRSRating {
+  if (!isCorrect) return 1
+
+  if (answerTimeMs <= FAST_ANSWER_BASE_MS + readingLength * FAST_ANSWER_PER_CHAR_MS) return 4
+  if (answerTimeMs <= SLOW_ANSWER_BASE_MS + readingLength * SLOW_ANSWER_PER_CHAR_MS) return 3
+  return 2
+}
+
+/**
+ * Check a chosen answer against the question
+ */
+export function checkQuizAnswer(
+  question: QuizQuestion,
+  choiceIndex: number,
+  answerTimeMs: number
+): QuizAnswerResult {
+  const isCorrect = choiceIndex === question.answerIndex
+  const readingLength = question.choices.reduce((sum, choice) => sum + choice.text.length, question.prompt.length)
+
+  return {
+    isCorrect,
+    choiceIndex,
+    answerTimeMs,
+    suggestedRating: suggestQuizRating(isCorrect, readingLength, answerTimeMs)
+  }
+}
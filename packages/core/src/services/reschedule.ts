@@ -0,0 +1,182 @@
+/**
+ * Reschedule Service
+ * New FSRS parameters or a new desired retention only reach a card at its next
+ * review. Rescheduling applies them to a whole book at once:
+ * 1. Every review card's interval is recomputed from its stability and counted
+ *    from its last review
+ * 2. The plan is previewed with the daily workload before and after
+ * 3. The new due dates are written in batches, skipping cards reviewed meanwhile
+ */
+
+import { getSupabase, isSupabaseInitialized } from "./supabase"
+import { getUserFSRSParams, toFSRSParameters } from "./fsrs-params"
+import { createFSRSScheduler } from "./scheduler-factory"
+import { getBookSettings } from "./vocabulary"
+import { countDueByDay } from "./scheduler"
+import { addStudyDays, getStudyDate } from "./study-day"
+import type {
+  RescheduleItem,
+  ReschedulePlan,
+  SchedulableProgress,
+  WorkloadDiffDay
+} from "../types/vocabulary"
+
+/**
+ * Cards fetched per page when planning
+ */
+const CARD_PAGE_SIZE = 1000
+
+/**
+ * Cards written per request when applying
+ */
+const RESCHEDULE_BATCH_SIZE = 500
+
+/**
+ * Days covered by the workload preview
+ */
+const WORKLOAD_PREVIEW_DAYS = 30
+
+/**
+ * Review card as stored, with its current schedule
+ */
+type RescheduleCardRow = SchedulableProgress & {
+  id: string
+  word_id: string
+  due_at: string
+  scheduled_days: number
+}
+
+/**
+ * Fetch every review card of a book, page by page
+ */
+async function getReviewCards(userId: string, bookId: string): Promise<RescheduleCardRow[]> {
+  const supabase = getSupabase()
+  const cards: RescheduleCardRow[] = []
+
+  for (let from = 0; ; from += CARD_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("user_word_progress")
+      .select("id, word_id, card_type, total_reviews, state, difficulty, stability, learning_step, is_learning_phase, last_review_at, reps, lapses, scheduler_state, due_at, scheduled_days")
+      .eq("user_id", userId)
+      .eq("book_id", bookId)
+      .eq("state", "review")
+      .eq("is_learning_phase", false)
+      .not("last_review_at", "is", null)
+      .order("id")
+      .range(from, from + CARD_PAGE_SIZE - 1)
+
+    if (error) {
+      console.error("Error fetching cards to reschedule:", error)
+      throw new Error("Failed to plan reschedule")
+    }
+
+    cards.push(...((data || []) as RescheduleCardRow[]))
+    if (!data || data.length < CARD_PAGE_SIZE) break
+  }
+
+  return cards
+}
+
+// ============================================
+// Planning
+// ============================================
+
+/**
+ * Plan a reschedule of a book under its current settings and the user's FSRS weights
+ * Only FSRS books can be rescheduled. Load balancing is left out: the current
+ * load is made of the very due dates being replaced.
+ */
+export async function planReschedule(
+  userId: string,
+  bookId: string,
+  now: Date = new Date()
+): Promise<ReschedulePlan> {
+  const emptyPlan: ReschedulePlan = { bookId, cardCount: 0, items: [], workload: [] }
+  if (!isSupabaseInitialized()) return emptyPlan
+
+  const [settings, params, cards] = await Promise.all([
+    getBookSettings(userId, bookId),
+    getUserFSRSParams(userId),
+    getReviewCards(userId, bookId)
+  ])
+
+  if (settings.scheduling_algorithm !== "fsrs") {
+    throw new Error("Only FSRS books can be rescheduled")
+  }
+
+  const scheduler = createFSRSScheduler(settings, toFSRSParameters(params))
+
+  const items: RescheduleItem[] = []
+  for (const card of cards) {
+    const result = scheduler.reschedule(card)
+    if (!result || result.due_at.getTime() === new Date(card.due_at).getTime()) continue
+
+    items.push({
+      progressId: card.id,
+      wordId: card.word_id,
+      dueBefore: card.due_at,
+      dueAfter: result.due_at.toISOString(),
+      scheduledDaysBefore: card.scheduled_days,
+      scheduledDaysAfter: result.scheduled_days
+    })
+  }
+
+  const rescheduled = new Map(items.map((item) => [item.progressId, item.dueAfter]))
+  const today = getStudyDate(now)
+  const dayKeys = Array.from({ length: WORKLOAD_PREVIEW_DAYS }, (_, i) => addStudyDays(today, i))
+  const before = countDueByDay(cards.map((card) => new Date(card.due_at)), dayKeys)
+  const after = countDueByDay(cards.map((card) => new Date(rescheduled.get(card.id) ?? card.due_at)), dayKeys)
+
+  const workload: WorkloadDiffDay[] = dayKeys.map((date) => ({
+    date,
+    before: before.get(date) ?? 0,
+    after: after.get(date) ?? 0
+  }))
+
+  return { bookId, cardCount: cards.length, items, workload }
+}
+
+// ============================================
+// Applying
+// ============================================
+
+/**
+ * Apply a planned reschedule in batches
+ * Returns the number of cards rescheduled; cards reviewed since the plan was
+ * made are left alone
+ */
+export async function applyReschedule(
+  userId: string,
+  plan: ReschedulePlan,
+  onProgress?: (done: number, total: number) => void
+): Promise<number> {
+  if (!isSupabaseInitialized()) {
+    throw new Error("Supabase not initialized")
+  }
+
+  const supabase = getSupabase()
+  let rescheduled = 0
+
+  for (let from = 0; from < plan.items.length; from += RESCHEDULE_BATCH_SIZE) {
+    const batch = plan.items.slice(from, from + RESCHEDULE_BATCH_SIZE)
+    const { data, error } = await supabase.rpc("reschedule_cards", {
+      p_user_id: userId,
+      p_items: batch.map((item) => ({
+        progress_id: item.progressId,
+        due_before: item.dueBefore,
+        due_after: item.dueAfter,
+        scheduled_days: item.scheduledDaysAfter
+      }))
+    })
+
+    if (error) {
+      console.error("Error rescheduling cards:", error)
+      throw new Error("Failed to reschedule cards")
+    }
+
+    rescheduled += (data as number | null) ?? 0
+    onProgress?.(from + batch.length, plan.items.length)
+  }
+
+  return rescheduled
+}
@@ -0,0 +1,122 @@
+/**
+ * Scheduler Factory
+ * Picks the scheduling algorithm configured for a book
+ */
+
+import type { BookSettings, DueLoad, FSRSParameters } from "../types/vocabulary"
+import { DEFAULT_FSRS_PARAMS } from "../types/vocabulary"
+import { getSupabase, isSupabaseInitialized } from "./supabase"
+import { FSRSScheduler } from "./fsrs"
+import { getUserFSRSParams, toFSRSParameters } from "./fsrs-params"
+import { LeitnerScheduler, LEITNER_BOX_INTERVALS } from "./leitner"
+import { SM2Scheduler } from "./sm2"
+import { getBookSettings } from "./vocabulary"
+import { getStudyDaySettings } from "./study-day"
+import type { IScheduler } from "./scheduler"
+
+/**
+ * Book settings that shape a scheduler
+ */
+export type SchedulerSettings = Pick<
+  BookSettings,
+  | "scheduling_algorithm"
+  | "learning_steps"
+  | "relearning_steps"
+  | "desired_retention"
+  | "maximum_interval"
+>
+
+/**
+ * Build an FSRS scheduler for a book
+ * Uses the given weights (e.g. the user's fitted ones) with the book's steps,
+ * desired retention and maximum interval; a due load turns on load balancing
+ */
+export function createFSRSScheduler(
+  settings: Omit<SchedulerSettings, "scheduling_algorithm">,
+  fsrsParams: FSRSParameters = DEFAULT_FSRS_PARAMS,
+  dueLoad: DueLoad | null = null
+): FSRSScheduler {
+  return new FSRSScheduler(
+    {
+      ...fsrsParams,
+      requestRetention: settings.desired_retention,
+      maximumInterval: settings.maximum_interval
+    },
+    settings,
+    dueLoad
+  )
+}
+
+/**
+ * Get the scheduler for a book's settings
+ */
+export function createScheduler(
+  settings: SchedulerSettings,
+  fsrsParams: FSRSParameters = DEFAULT_FSRS_PARAMS,
+  dueLoad: DueLoad | null = null
+): IScheduler {
+  switch (settings.scheduling_algorithm) {
+    case "sm2":
+      return new SM2Scheduler(settings.maximum_interval, settings)
+    case "leitner":
+      return new LeitnerScheduler(LEITNER_BOX_INTERVALS, settings)
+    default:
+      return createFSRSScheduler(settings, fsrsParams, dueLoad)
+  }
+}
+
+/**
+ * Count the reviews due for a user on each of the next `days` days (all books)
+ * Days are the user's study days, matching the scheduler's day keys
+ */
+export async function getDueLoad(userId: string, days: number): Promise<DueLoad> {
+  const load: DueLoad = new Map()
+  if (!isSupabaseInitialized()) return load
+
+  const { timezone, day_start_hour } = getStudyDaySettings()
+  const supabase = getSupabase()
+  const { data, error } = await supabase.rpc("get_due_load", {
+    p_user_id: userId,
+    p_days: days,
+    p_timezone: timezone,
+    p_day_start_hour: day_start_hour
+  })
+
+  if (error) {
+    console.error("Error fetching due load:", error)
+    return load
+  }
+
+  for (const row of (data ?? []) as { day: string; due_count: number }[]) {
+    load.set(row.day, row.due_count)
+  }
+  return load
+}
+
+/**
+ * Days of due load a book's scheduler balances over, or null without load balancing
+ * Fuzz never reaches beyond 5% past the maximum interval
+ */
+export function getLoadBalancingDays(
+  settings: Pick<BookSettings, "scheduling_algorithm" | "load_balancing" | "maximum_interval">
+): number | null {
+  if (settings.scheduling_algorithm !== "fsrs" || !settings.load_balancing) return null
+  return Math.ceil(settings.maximum_interval * 1.05) + 1
+}
+
+/**
+ * Get the scheduler configured in a book's settings
+ */
+export async function getBookScheduler(userId: string, bookId: string): Promise<IScheduler> {
+  const settings = await getBookSettings(userId, bookId)
+  if (settings.scheduling_algorithm !== "fsrs") {
+    return createScheduler(settings)
+  }
+
+  const loadDays = getLoadBalancingDays(settings)
+  const [params, dueLoad] = await Promise.all([
+    getUserFSRSParams(userId),
+    loadDays !== null ? getDueLoad(userId, loadDays) : Promise.resolve(null)
+  ])
+  return createScheduler(settings, toFSRSParameters(params), dueLoad)
+}
@@ -0,0 +1,202 @@
+/**
+ * Scheduler Contract
+ * Common interface for spaced repetition algorithms (FSRS, SM-2, Leitner)
+ * and helpers shared by the implementations
+ */
+
+import type {
+  FSRSRating,
+  InitialSchedulingState,
+  LearningStepSettings,
+  SchedulableProgress,
+  SchedulingAlgorithm,
+  SchedulingResult
+} from "../types/vocabulary"
+import { DEFAULT_LEARNING_STEPS, DEFAULT_RELEARNING_STEPS } from "../types/vocabulary"
+import { getStudyDate } from "./study-day"
+
+/**
+ * Spaced repetition scheduler interface
+ */
+export interface IScheduler {
+  readonly algorithm: SchedulingAlgorithm
+
+  // Grade a card and compute its next schedule
+  review(progress: SchedulableProgress, rating: FSRSRating, now?: Date): SchedulingResult
+
+  // Next interval for each rating, formatted for the grading buttons
+  getSchedulePreview(progress: SchedulableProgress, now?: Date): Record<FSRSRating, string>
+
+  // Scheduling fields of a word that has never been reviewed
+  createInitialState(): InitialSchedulingState
+}
+
+/**
+ * Minutes per unit of a learning step ("1m", "1h", "1d")
+ */
+const STEP_UNIT_MINUTES: Record<string, number> = {
+  m: 1,
+  h: 60,
+  d: 24 * 60
+}
+
+/**
+ * Limits for a learning step list
+ */
+const MAX_STEP_COUNT = 10
+const MAX_STEP_MINUTES = 30 * 24 * 60 // 30 days
+
+/**
+ * Parse a learning step list such as "1m 10m 1h 1d" into minutes
+ * Returns null when the list is empty, too long or has an invalid step
+ */
+export function parseLearningSteps(input: string): number[] | null {
+  const tokens = input.trim().split(/[\s,]+/).filter(Boolean)
+  if (tokens.length === 0 || tokens.length > MAX_STEP_COUNT) return null
+
+  const steps: number[] = []
+  for (const token of tokens) {
+    const match = /^(\d+)([mhd])$/i.exec(token)
+    if (!match) return null
+
+    const minutes = parseInt(match[1], 10) * STEP_UNIT_MINUTES[match[2].toLowerCase()]
+    if (minutes < 1 || minutes > MAX_STEP_MINUTES) return null
+    steps.push(minutes)
+  }
+
+  return steps
+}
+
+/**
+ * Format a learning step list in minutes for editing (e.g. [1, 60, 1440] -> "1m 1h 1d")
+ */
+export function formatLearningSteps(steps: number[]): string {
+  return steps
+    .map((minutes) => {
+      if (minutes % STEP_UNIT_MINUTES.d === 0) return `${minutes / STEP_UNIT_MINUTES.d}d`
+      if (minutes % STEP_UNIT_MINUTES.h === 0) return `${minutes / STEP_UNIT_MINUTES.h}h`
+      return `${minutes}m`
+    })
+    .join(" ")
+}
+
+/**
+ * Next position of a card in its learning steps, or graduation
+ */
+export type LearningStepOutcome =
+  | { graduates: true }
+  | { graduates: false; step: number; delayMinutes: number }
+
+/**
+ * Learning and relearning steps of a book
+ * Empty lists fall back to the defaults so every phase has a first step
+ */
+export function resolveLearningSteps(steps: Partial<LearningStepSettings>): LearningStepSettings {
+  return {
+    learning_steps: steps.learning_steps?.length ? steps.learning_steps : DEFAULT_LEARNING_STEPS,
+    relearning_steps: steps.relearning_steps?.length ? steps.relearning_steps : DEFAULT_RELEARNING_STEPS
+  }
+}
+
+/**
+ * Whether a card is scheduled in minutes by the learning or relearning steps
+ */
+export function isLearningPhase(progress: SchedulableProgress): boolean {
+  return progress.is_learning_phase || progress.state === "new" || progress.state === "learning"
+}
+
+/**
+ * Move a learning-phase card through the steps of its phase (relearning after a lapse)
+ * Again restarts at the first step, Hard repeats the current step, Good moves
+ * to the next step and graduates after the last one, Easy graduates immediately.
+ * Hard on the first step waits halfway to the second (or 1.5x the only step), as Anki does.
+ */
+export function nextLearningStep(
+  steps: LearningStepSettings,
+  progress: SchedulableProgress,
+  rating: FSRSRating
+): LearningStepOutcome {
+  const phaseSteps = progress.state === "relearning" ? steps.relearning_steps : steps.learning_steps
+  const step = rating === 1 ? 0 : rating === 2 ? progress.learning_step : progress.learning_step + 1
+  if (rating === 4 || (rating === 3 && step >= phaseSteps.length)) {
+    return { graduates: true }
+  }
+
+  const current = phaseSteps[Math.min(step, phaseSteps.length - 1)]
+  const delayMinutes = rating === 2 && step === 0
+    ? phaseSteps.length > 1 ? (phaseSteps[0] + phaseSteps[1]) / 2 : current * 1.5
+    : current
+  return { graduates: false, step, delayMinutes }
+}
+
+/**
+ * Study date of a Date (YYYY-MM-DD), the key of a DueLoad
+ */
+export function getDayKey(date: Date): string {
+  return getStudyDate(date)
+}
+
+/**
+ * Add days to a date
+ */
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date)
+  result.setDate(result.getDate() + days)
+  return result
+}
+
+/**
+ * Count reviews per day over the given days, overdue cards on the first day
+ */
+export function countDueByDay(dueDates: Date[], dayKeys: string[]): Map<string, number> {
+  const counts = new Map(dayKeys.map((key) => [key, 0]))
+  const firstDay = dayKeys[0]
+
+  for (const due of dueDates) {
+    const key = getDayKey(due)
+    const day = key < firstDay ? firstDay : key
+    if (counts.has(day)) counts.set(day, counts.get(day)! + 1)
+  }
+
+  return counts
+}
+
+/**
+ * Format the interval of a scheduling result for display (e.g. "10m", "3d", "2mo")
+ */
+export function formatScheduleInterval(result: SchedulingResult, now: Date): string {
+  if (result.is_learning_phase) {
+    const minutes = Math.round((result.due_at.getTime() - now.getTime()) / 60000)
+    if (minutes < 60) return `${minutes}m`
+    if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h`
+    return `${Math.round(minutes / (24 * 60))}d`
+  }
+
+  const days = result.scheduled_days
+  if (days === 1) return "1d"
+  if (days < 30) return `${days}d`
+  if (days < 365) return `${Math.round(days / 30)}mo`
+  return `${Math.round(days / 365)}y`
+}
+
+/**
+ * Build a schedule preview by running every rating through a scheduler
+ */
+export function buildSchedulePreview(
+  scheduler: Pick<IScheduler, "review">,
+  progress: SchedulableProgress,
+  now: Date = new Date()
+): Record<FSRSRating, string> {
+  const previews: Record<FSRSRating, string> = {
+    1: "",
+    2: "",
+    3: "",
+    4: ""
+  }
+
+  for (const rating of [1, 2, 3, 4] as FSRSRating[]) {
+    previews[rating] = formatScheduleInterval(scheduler.review(progress, rating, now), now)
+  }
+
+  return previews
+}
@@ -0,0 +1,178 @@
+/**
+ * SM-2 Scheduler
+ *
+ * Implements the SuperMemo-2 algorithm (the basis of Anki's legacy scheduler):
+ * 1. An E-Factor per card, starting at 2.5 and never below 1.3
+ * 2. Intervals of 1 day, 6 days, then the previous interval times the E-Factor
+ * 3. A failed card restarts its repetitions and is repeated within the session
+ *
+ * New and failed cards first go through the book's learning or relearning steps.
+ *
+ * Stability holds the current interval in days so book statistics keep working.
+ * Reference: https://super-memory.com/english/ol/sm2.htm
+ */
+
+import type {
+  FSRSRating,
+  InitialSchedulingState,
+  LearningStepSettings,
+  SM2State,
+  SchedulableProgress,
+  SchedulingResult
+} from "../types/vocabulary"
+import { getElapsedDays } from "./fsrs"
+import {
+  addDays,
+  buildSchedulePreview,
+  isLearningPhase,
+  nextLearningStep,
+  resolveLearningSteps,
+  type IScheduler,
+  type LearningStepOutcome
+} from "./scheduler"
+
+const INITIAL_EASE = 2.5
+const MIN_EASE = 1.3
+const FIRST_INTERVAL = 1
+const SECOND_INTERVAL = 6
+const MAXIMUM_INTERVAL = 365
+
+/**
+ * SM-2 quality (0-5) for each rating; quality below 3 is a failure
+ */
+const RATING_TO_QUALITY: Record<FSRSRating, number> = {
+  1: 1, // Again
+  2: 3, // Hard: correct with serious difficulty
+  3: 4, // Good: correct after hesitation
+  4: 5  // Easy: perfect response
+}
+
+/**
+ * SM-2 Algorithm Implementation
+ */
+export class SM2Scheduler implements IScheduler {
+  readonly algorithm = "sm2" as const
+  private maximumInterval: number
+  private steps: LearningStepSettings
+
+  constructor(maximumInterval: number = MAXIMUM_INTERVAL, steps: Partial<LearningStepSettings> = {}) {
+    this.maximumInterval = maximumInterval
+    this.steps = resolveLearningSteps(steps)
+  }
+
+  /**
+   * Read the SM-2 state of a card
+   * Cards scheduled by another algorithm continue from their current interval
+   */
+  private getState(progress: SchedulableProgress): SM2State {
+    if (progress.scheduler_state?.algorithm === "sm2") {
+      return progress.scheduler_state
+    }
+
+    const interval = Math.max(0, Math.round(progress.stability))
+    return {
+      algorithm: "sm2",
+      ease: INITIAL_EASE,
+      interval,
+      repetitions: progress.state === "review" && interval > 0 ? 2 : 0
+    }
+  }
+
+  /**
+   * Calculate the new E-Factor after a review
+   * EF' = EF + (0.1 - (5-q) * (0.08 + (5-q) * 0.02))
+   */
+  private nextEase(ease: number, quality: number): number {
+    const newEase = ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    return Math.max(MIN_EASE, newEase)
+  }
+
+  /**
+   * Process a review and calculate the next scheduling
+   */
+  review(progress: SchedulableProgress, rating: FSRSRating, now: Date = new Date()): SchedulingResult {
+    const current = this.getState(progress)
+    const quality = RATING_TO_QUALITY[rating]
+    const elapsedDays = getElapsedDays(progress.last_review_at, now)
+    const isLearning = isLearningPhase(progress)
+
+    // Learning cards follow the book's steps; a failed review card goes to the first relearning step
+    const next: LearningStepOutcome = isLearning
+      ? nextLearningStep(this.steps, progress, rating)
+      : quality < 3
+        ? { graduates: false, step: 0, delayMinutes: this.steps.relearning_steps[0] }
+        : { graduates: true }
+
+    // In steps: repetitions restart (E-Factor unchanged) and the card is repeated in this session
+    if (!next.graduates) {
+      return {
+        state: isLearning && progress.state !== "relearning" ? "learning" : "relearning",
+        difficulty: progress.difficulty,
+        stability: 0,
+        retrievability: quality < 3 ? 0 : 1,
+        elapsed_days: elapsedDays,
+        scheduled_days: 0,
+        due_at: new Date(now.getTime() + next.delayMinutes * 60 * 1000),
+        learning_step: next.step,
+        is_learning_phase: true,
+        scheduler_state: { ...current, interval: 0, repetitions: 0 }
+      }
+    }
+
+    // Passed: 1 day, 6 days, then interval * E-Factor
+    const ease = this.nextEase(current.ease, quality)
+    const repetitions = current.repetitions + 1
+    const interval = Math.min(
+      this.maximumInterval,
+      repetitions === 1
+        ? FIRST_INTERVAL
+        : repetitions === 2
+          ? SECOND_INTERVAL
+          : Math.max(1, Math.round(current.interval * ease))
+    )
+
+    return {
+      state: "review",
+      difficulty: progress.difficulty,
+      stability: interval,
+      retrievability: 1,
+      elapsed_days: elapsedDays,
+      scheduled_days: interval,
+      due_at: addDays(now, interval),
+      learning_step: 0,
+      is_learning_phase: false,
+      scheduler_state: { algorithm: "sm2", ease, interval, repetitions }
+    }
+  }
+
+  /**
+   * Calculate estimated review intervals for display
+   */
+  getSchedulePreview(progress: SchedulableProgress, now: Date = new Date()): Record<FSRSRating, string> {
+    return buildSchedulePreview(this, progress, now)
+  }
+
+  /**
+   * Scheduling fields of a new card
+   */
+  createInitialState(): InitialSchedulingState {
+    return {
+      state: "new",
+      difficulty: 0,
+      stability: 0,
+      retrievability: 1,
+      elapsed_days: 0,
+      scheduled_days: 0,
+      reps: 0,
+      lapses: 0,
+      learning_step: 0,
+      is_learning_phase: true,
+      scheduler_state: { algorithm: "sm2", ease: INITIAL_EASE, interval: 0, repetitions: 0 }
+    }
+  }
+}
+
+/**
+ * Default SM-2 scheduler instance
+ */
+export const sm2Scheduler = new SM2Scheduler()
@@ -0,0 +1,117 @@
+/**
+ * Spelling Service
+ * Grades typed-recall answers for the "spelling" learning mode:
+ * 1. Character-level diff between the typed answer and the target word
+ * 2. FSRS rating suggestion from edit distance and answer time
+ */
+
+import type { FSRSRating, SpellingCheckResult, SpellingDiffSegment } from "../types/vocabulary"
+
+/**
+ * Answer time budget for a correct spelling
+ * Base time plus a per-character allowance, so long words are not penalised
+ */
+const FAST_ANSWER_BASE_MS = 3000
+const FAST_ANSWER_PER_CHAR_MS = 300
+const SLOW_ANSWER_BASE_MS = 8000
+const SLOW_ANSWER_PER_CHAR_MS = 800
+
+/**
+ * Maximum share of characters that may be wrong for the answer to count as "Hard"
+ */
+const HARD_MAX_ERROR_RATIO = 0.3
+
+/**
+ * Normalize a spelling for comparison (case, surrounding and repeated whitespace)
+ */
+export function normalizeSpelling(value: string): string {
+  return value.trim().replace(/\s+/g, " ").toLowerCase()
+}
+
+/**
+ * Compute a character-level diff of the answer against the expected word
+ * Uses a Levenshtein alignment; characters are compared case-insensitively
+ */
+export function diffSpelling(answer: string, expected: string): SpellingDiffSegment[] {
+  const a = [...answer.trim().replace(/\s+/g, " ")]
+  const e = [...expected.trim().replace(/\s+/g, " ")]
+  const same = (x: string, y: string) => x.toLowerCase() === y.toLowerCase()
+
+  // dp[i][j] = edit distance between a[0..i) and e[0..j)
+  const dp: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: e.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  )
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= e.length; j++) {
+      dp[i][j] = Math.min(
+        dp[i - 1][j] + 1,
+        dp[i][j - 1] + 1,
+        dp[i - 1][j - 1] + (same(a[i - 1], e[j - 1]) ? 0 : 1)
+      )
+    }
+  }
+
+  // Walk back through the table to recover the alignment
+  const segments: SpellingDiffSegment[] = []
+  let i = a.length
+  let j = e.length
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && dp[i][j] === dp[i - 1][j - 1] + (same(a[i - 1], e[j - 1]) ? 0 : 1)) {
+      const match = same(a[i - 1], e[j - 1])
+      segments.push({ type: match ? "match" : "wrong", text: a[i - 1], expected: e[j - 1] })
+      i--
+      j--
+    } else if (j > 0 && dp[i][j] === dp[i][j - 1] + 1) {
+      segments.push({ type: "missing", text: "", expected: e[j - 1] })
+      j--
+    } else {
+      segments.push({ type: "extra", text: a[i - 1], expected: "" })
+      i--
+    }
+  }
+
+  return segments.reverse()
+}
+
+/**
+ * Suggest an FSRS rating for a typed answer
+ * - Again: wrong beyond a small typo
+ * - Hard: a small typo, or correct but slow
+ * - Good: correct within a normal time
+ * - Easy: correct and fast
+ */
+export function suggestSpellingRating(
+  distance: number,
+  wordLength: number,
+  answerTimeMs: number
+): FSRSRating {
+  if (distance > 0) {
+    const errorRatio = distance / Math.max(1, wordLength)
+    return distance === 1 || errorRatio <= HARD_MAX_ERROR_RATIO ? 2 : 1
+  }
+
+  if (answerTimeMs <= FAST_ANSWER_BASE_MS + wordLength * FAST_ANSWER_PER_CHAR_MS) return 4
+  if (answerTimeMs <= SLOW_ANSWER_BASE_MS + wordLength * SLOW_ANSWER_PER_CHAR_MS) return 3
+  return 2
+}
+
+/**
+ * Check a typed answer against the expected word
+ */
+export function checkSpelling(
+  answer: string,
+  expected: string,
+  answerTimeMs: number
+): SpellingCheckResult {
+  const diff = diffSpelling(answer, expected)
+  const distance = diff.filter((segment) => segment.type !== "match").length
+  const wordLength = normalizeSpelling(expected).length
+
+  return {
+    isCorrect: normalizeSpelling(answer) === normalizeSpelling(expected),
+    distance,
+    diff,
+    answerTimeMs,
+    suggestedRating: suggestSpellingRating(distance, wordLength, answerTimeMs)
+  }
+}
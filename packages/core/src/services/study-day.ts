@@ -0,0 +1,153 @@
+/**
+ * Study Day Service
+ * The day that daily counters, streaks and "due today" are keyed on: a calendar
+ * day in the user's time zone that starts at their day start hour, so late-night
+ * study counts for the day before
+ */
+
+import { DEFAULT_DAY_START_HOUR, type StudyDaySettings } from "../types/vocabulary"
+
+const MS_PER_HOUR = 60 * 60 * 1000
+const MS_PER_DAY = 24 * MS_PER_HOUR
+
+/**
+ * Time zone of this device, the default until the user picks one
+ */
+export function getDeviceTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC"
+}
+
+/**
+ * Whether a string is an IANA time zone this runtime knows
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// ============================================
+// Active Settings
+// ============================================
+
+/**
+ * Study day of the signed-in user, set once their profile loads
+ * Kept here rather than passed around so offline grading uses it too
+ */
+let activeSettings: StudyDaySettings = {
+  timezone: getDeviceTimezone(),
+  day_start_hour: DEFAULT_DAY_START_HOUR
+}
+
+/**
+ * Use a user's study day for every day computation from now on
+ */
+export function setStudyDaySettings(settings: StudyDaySettings): void {
+  activeSettings = settings
+}
+
+/**
+ * Get the study day settings in use
+ */
+export function getStudyDaySettings(): StudyDaySettings {
+  return activeSettings
+}
+
+// ============================================
+// Calendar Helpers
+// ============================================
+
+/**
+ * Formatters are costly to build and study dates are computed per card
+ */
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hour12: false
+    })
+    formatters.set(timezone, formatter)
+  }
+  return formatter
+}
+
+/**
+ * Wall-clock time of an instant in a time zone, as if it were UTC
+ */
+function getWallClock(date: Date, timezone: string): number {
+  const parts: Record<string, number> = {}
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value, 10)
+  }
+  // Some runtimes write midnight as hour 24
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second)
+}
+
+/**
+ * Format a UTC-based timestamp as YYYY-MM-DD
+ */
+function formatDate(time: number): string {
+  return new Date(time).toISOString().split("T")[0]
+}
+
+/**
+ * Instant a study date starts at
+ */
+function getStartOfStudyDate(studyDate: string, settings: StudyDaySettings): Date {
+  const wallClockStart = Date.parse(studyDate) + settings.day_start_hour * MS_PER_HOUR
+  // The offset at the start itself can differ around a DST change, so it is taken twice
+  const guess = wallClockStart - (getWallClock(new Date(wallClockStart), settings.timezone) - wallClockStart)
+  return new Date(wallClockStart - (getWallClock(new Date(guess), settings.timezone) - guess))
+}
+
+// ============================================
+// Study Dates
+// ============================================
+
+/**
+ * Get the study date (YYYY-MM-DD) an instant falls on
+ */
+export function getStudyDate(date: Date = new Date(), settings: StudyDaySettings = activeSettings): string {
+  const shifted = new Date(date.getTime() - settings.day_start_hour * MS_PER_HOUR)
+  return formatDate(getWallClock(shifted, settings.timezone))
+}
+
+/**
+ * Add days to a study date
+ */
+export function addStudyDays(studyDate: string, days: number): string {
+  return formatDate(Date.parse(studyDate) + days * MS_PER_DAY)
+}
+
+/**
+ * Whole study days from one study date to another
+ */
+export function studyDaysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY)
+}
+
+/**
+ * Instant the study day of `date` started at
+ */
+export function getStudyDayStart(date: Date = new Date(), settings: StudyDaySettings = activeSettings): Date {
+  return getStartOfStudyDate(getStudyDate(date, settings), settings)
+}
+
+/**
+ * Instant the next study day starts at, the end of "today"
+ */
+export function getNextStudyDayStart(date: Date = new Date(), settings: StudyDaySettings = activeSettings): Date {
+  return getStartOfStudyDate(addStudyDays(getStudyDate(date, settings), 1), settings)
+}
@@ -55,3 +55,11 @@ export function isSupabaseInitialized(): boolean {
   return supabaseClient !== null
 }
 
+/**
+ * Errors without a Postgres/PostgREST code come from the network layer
+ * (e.g. "Failed to fetch"): the request never reached the database
+ */
+export function isNetworkError(error: { code?: string } | null): boolean {
+  return !!error && !error.code
+}
+
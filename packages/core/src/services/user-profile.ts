@@ -0,0 +1,85 @@
+/**
+ * User Profile Service
+ * Loads and stores the user's time zone and the hour their study day starts at
+ */
+
+import { getSupabase, isSupabaseInitialized } from "./supabase"
+import { getDeviceTimezone } from "./study-day"
+import type {
+  StudyDaySettings,
+  UpdateUserProfileInput,
+  UserProfileSettings
+} from "../types/vocabulary"
+import { DEFAULT_DAY_START_HOUR } from "../types/vocabulary"
+
+/**
+ * Get a user's profile
+ * Returns null when the user has not saved one yet
+ */
+export async function getUserProfile(userId: string): Promise<UserProfileSettings | null> {
+  if (!isSupabaseInitialized()) return null
+
+  const supabase = getSupabase()
+  const { data, error } = await supabase
+    .from("user_profiles")
+    .select("*")
+    .eq("user_id", userId)
+    .single()
+
+  if (error) {
+    if (error.code !== "PGRST116") {
+      console.error("Error fetching user profile:", error)
+    }
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Update a user's profile, creating it on first save
+ * Fields left out keep their stored value (or the defaults for a new profile)
+ */
+export async function updateUserProfile(
+  userId: string,
+  input: UpdateUserProfileInput
+): Promise<UserProfileSettings> {
+  if (!isSupabaseInitialized()) {
+    throw new Error("Supabase not initialized")
+  }
+
+  const current = toStudyDaySettings(await getUserProfile(userId))
+
+  const supabase = getSupabase()
+  const { data, error } = await supabase
+    .from("user_profiles")
+    .upsert(
+      {
+        user_id: userId,
+        timezone: input.timezone ?? current.timezone,
+        day_start_hour: input.day_start_hour ?? current.day_start_hour,
+        updated_at: new Date().toISOString()
+      },
+      { onConflict: "user_id" }
+    )
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error updating user profile:", error)
+    throw new Error("Failed to update user profile")
+  }
+
+  return data
+}
+
+/**
+ * Study day of a profile
+ * Users without a profile get this device's time zone and the default day start
+ */
+export function toStudyDaySettings(profile: UserProfileSettings | null): StudyDaySettings {
+  return {
+    timezone: profile?.timezone ?? getDeviceTimezone(),
+    day_start_hour: profile?.day_start_hour ?? DEFAULT_DAY_START_HOUR
+  }
+}
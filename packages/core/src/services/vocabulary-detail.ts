@@ -3,20 +3,47 @@
  * Handles book detail page data, learning sessions, and spaced repetition
  */
 
-import { getSupabase, isSupabaseInitialized } from "./supabase"
-import { fsrsScheduler, createInitialWordProgress, stateToMasteryLevel } from "./fsrs"
+import { getSupabase, isNetworkError, isSupabaseInitialized } from "./supabase"
+import { fsrsScheduler, createInitialWordProgress, getElapsedDays, stateToMasteryLevel } from "./fsrs"
+import { getUserScheduler } from "./fsrs-params"
+import { getBookScheduler } from "./scheduler-factory"
+import type { IScheduler } from "./scheduler"
+import { getBookSettings } from "./vocabulary"
+import { getNextStudyDayStart, getStudyDate, getStudyDayStart, studyDaysBetween } from "./study-day"
+import { burySiblingCards, getCardKey, getWordCardTemplates } from "./card-templates"
+import { hashString, seededShuffle } from "../utils"
 import type {
+  BookSettings,
+  CardTemplate,
   VocabularyBook,
   UserWordProgress,
   UserBookProgress,
   BookDetailStats,
   WordWithProgress,
   TodayLearningSession,
+  DueReviewBook,
+  DueReviewSession,
+  CustomStudyCriteria,
+  CustomStudyFilter,
   FSRSRating,
   FSRSState,
-  ReviewLog
+  ReviewOrder,
+  SchedulableProgress,
+  SchedulerState,
+  SchedulingResult
 } from "../types/vocabulary"
-import { GRADE_TO_RATING, type SpacedRepetitionGrade } from "../types/vocabulary"
+import {
+  CARD_TEMPLATES,
+  CUSTOM_STUDY_LAPSE_DAYS,
+  DEFAULT_BOOK_SETTINGS,
+  DEFAULT_CUSTOM_STUDY_LIMIT,
+  GRADE_TO_RATING,
+  MAX_CUSTOM_STUDY_LIMIT,
+  MIN_CUSTOM_STUDY_LIMIT,
+  type SpacedRepetitionGrade
+} from "../types/vocabulary"
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
 
 /**
  * Supabase query result type for word progress with joined vocabulary_words
@@ -24,16 +51,31 @@ import { GRADE_TO_RATING, type SpacedRepetitionGrade } from "../types/vocabulary
  */
 interface WordProgressWithWord {
   word_id: string
+  book_id: string
+  card_type: CardTemplate
   state: string
   stability: number
   due_at: string | null
   last_review_at: string | null
   lapses: number
+  difficulty: number
+  elapsed_days: number
+  reps: number
+  total_reviews: number
+  learning_step: number
+  is_learning_phase: boolean
+  scheduler_state: SchedulerState | null
+  is_leech: boolean
+  is_suspended: boolean
+  note: string | null
+  is_known: boolean
+  buried_until: string | null
   vocabulary_words: {
     id: string
     word: string
     phonetic: string | null
     definition: string
+    example_sentence: string | null
   }
 }
 
@@ -45,6 +87,271 @@ function asWordProgressList(data: unknown[] | null): WordProgressWithWord[] {
   return (data || []) as WordProgressWithWord[]
 }
 
+/**
+ * Columns selected for word progress lists (joined with vocabulary_words)
+ */
+const WORD_PROGRESS_COLUMNS = `
+  word_id,
+  book_id,
+  card_type,
+  state,
+  stability,
+  due_at,
+  last_review_at,
+  lapses,
+  difficulty,
+  elapsed_days,
+  reps,
+  total_reviews,
+  learning_step,
+  is_learning_phase,
+  scheduler_state,
+  is_leech,
+  is_suspended,
+  note,
+  is_known,
+  buried_until,
+  vocabulary_words!inner (
+    id,
+    word,
+    phonetic,
+    definition,
+    example_sentence
+  )
+`
+
+/**
+ * Map a joined word progress row to display format
+ */
+function toWordWithProgress(p: WordProgressWithWord): WordWithProgress {
+  return {
+    id: p.word_id,
+    book_id: p.book_id,
+    card_type: p.card_type,
+    word: p.vocabulary_words.word,
+    phonetic: p.vocabulary_words.phonetic,
+    definition: p.vocabulary_words.definition,
+    example_sentence: p.vocabulary_words.example_sentence,
+    state: p.state as FSRSState,
+    stability: p.stability,
+    due_at: p.due_at,
+    last_review_at: p.last_review_at,
+    lapses: p.lapses,
+    difficulty: p.difficulty,
+    elapsed_days: p.elapsed_days,
+    reps: p.reps,
+    total_reviews: p.total_reviews,
+    learning_step: p.learning_step,
+    is_learning_phase: p.is_learning_phase,
+    scheduler_state: p.scheduler_state,
+    is_leech: p.is_leech,
+    is_suspended: p.is_suspended,
+    note: p.note,
+    is_known: p.is_known,
+    buried_until: p.buried_until
+  }
+}
+
+/**
+ * Columns of a word needed to show any of its cards
+ */
+const WORD_COLUMNS = "id, word, phonetic, definition, example_sentence"
+
+/**
+ * A word as selected with WORD_COLUMNS
+ */
+interface WordRow {
+  id: string
+  word: string
+  phonetic: string | null
+  definition: string
+  example_sentence: string | null
+}
+
+/**
+ * Map a card the user has never studied to a new card
+ */
+function toUnseenWord(w: WordRow, bookId: string, cardType: CardTemplate): WordWithProgress {
+  return {
+    id: w.id,
+    book_id: bookId,
+    card_type: cardType,
+    word: w.word,
+    phonetic: w.phonetic,
+    definition: w.definition,
+    example_sentence: w.example_sentence,
+    state: "new" as FSRSState,
+    stability: 0,
+    due_at: null,
+    last_review_at: null,
+    lapses: 0,
+    difficulty: 0,
+    elapsed_days: 0,
+    reps: 0,
+    total_reviews: 0,
+    learning_step: 0,
+    is_learning_phase: true,
+    scheduler_state: null,
+    is_leech: false,
+    is_suspended: false,
+    note: null,
+    is_known: false,
+    buried_until: null
+  }
+}
+
+/**
+ * Whether a word is buried on the given study date (today by default)
+ */
+export function isBuried(buriedUntil: string | null, studyDate: string = getStudyDate()): boolean {
+  return buriedUntil !== null && buriedUntil > studyDate
+}
+
+/**
+ * PostgREST filter for words not buried on the given study date
+ */
+function notBuriedFilter(studyDate: string): string {
+  return `buried_until.is.null,buried_until.lte.${studyDate}`
+}
+
+/**
+ * Group the cards reviewed on a study date by word, for burying their siblings
+ */
+function groupReviewedCards(
+  cards: { word_id: string; card_type: CardTemplate; last_review_at: string | null }[],
+  studyDayStart: Date
+): Map<string, Set<CardTemplate>> {
+  const reviewed = new Map<string, Set<CardTemplate>>()
+  for (const card of cards) {
+    if (!card.last_review_at || new Date(card.last_review_at) < studyDayStart) continue
+    const templates = reviewed.get(card.word_id)
+    if (templates) {
+      templates.add(card.card_type)
+    } else {
+      reviewed.set(card.word_id, new Set([card.card_type]))
+    }
+  }
+  return reviewed
+}
+
+/**
+ * Get the cards of a book reviewed today, grouped by word
+ */
+async function getCardsReviewedToday(
+  userId: string,
+  bookId: string,
+  now: Date
+): Promise<Map<string, Set<CardTemplate>>> {
+  const studyDayStart = getStudyDayStart(now)
+  const { data } = await getSupabase()
+    .from("user_word_progress")
+    .select("word_id, card_type, last_review_at")
+    .eq("user_id", userId)
+    .eq("book_id", bookId)
+    .gte("last_review_at", studyDayStart.toISOString())
+
+  return groupReviewedCards(data || [], studyDayStart)
+}
+
+/**
+ * Remaining study quota for a book today
+ */
+interface DailyQuota {
+  settings: BookSettings
+  newRemaining: number
+  reviewRemaining: number
+  reviewsToday: number
+  isBacklog: boolean
+}
+
+/**
+ * Get today's remaining new/review quota from book settings and today's counters
+ * Reviews count only grades of cards that were in the review state; learning and
+ * relearning steps do not use the review limit
+ */
+async function getDailyQuota(userId: string, bookId: string): Promise<DailyQuota> {
+  const supabase = getSupabase()
+  const settings = await getBookSettings(userId, bookId)
+
+  const { data: bookProgress } = await supabase
+    .from("user_book_progress")
+    .select("new_words_today, review_cards_today, last_review_date")
+    .eq("user_id", userId)
+    .eq("book_id", bookId)
+    .single()
+
+  const studiedToday = bookProgress?.last_review_date === getStudyDate()
+  const newToday = studiedToday ? bookProgress?.new_words_today || 0 : 0
+  const reviewsToday = studiedToday ? bookProgress?.review_cards_today || 0 : 0
+
+  return {
+    settings,
+    newRemaining: Math.max(0, settings.daily_new_limit - newToday),
+    reviewRemaining: Math.max(0, settings.daily_review_limit - reviewsToday),
+    reviewsToday,
+    isBacklog: false
+  }
+}
+
+/**
+ * Apply backlog mode to today's quota
+ * While at least backlog_threshold reviews are overdue, reviews are capped at
+ * backlog_review_limit a day and no new words are introduced
+ */
+function applyBacklogMode(quota: DailyQuota, overdueCount: number): DailyQuota {
+  const { settings } = quota
+  if (!settings.backlog_mode || overdueCount < settings.backlog_threshold) return quota
+
+  return {
+    ...quota,
+    newRemaining: 0,
+    reviewRemaining: Math.min(
+      quota.reviewRemaining,
+      Math.max(0, settings.backlog_review_limit - quota.reviewsToday)
+    ),
+    isBacklog: true
+  }
+}
+
+/**
+ * Order due review cards by a book's review order (the input is ordered by due date)
+ * Retrievability follows the user's FSRS forgetting curve, also for books on SM-2 or Leitner
+ */
+async function orderDueReviews(
+  words: WordWithProgress[],
+  order: ReviewOrder,
+  { userId, bookId, now }: { userId: string; bookId: string; now: Date }
+): Promise<WordWithProgress[]> {
+  const byScore = (score: (word: WordWithProgress) => number) =>
+    words
+      .map((word) => ({ word, score: score(word) }))
+      .sort((a, b) => a.score - b.score)
+      .map(({ word }) => word)
+
+  switch (order) {
+    case "retrievability": {
+      const scheduler = await getUserScheduler(userId)
+      return byScore((word) =>
+        scheduler.predictRecall(getElapsedDays(word.last_review_at, now), word.stability)
+      )
+    }
+    case "difficulty":
+      return byScore((word) => -word.difficulty)
+    case "overdue":
+      // Days overdue per day of interval, so a week late on a 3-day card beats a week late on a year
+      return byScore((word) => {
+        const due = new Date(word.due_at!).getTime()
+        const lastReview = word.last_review_at ? new Date(word.last_review_at).getTime() : due
+        const interval = Math.max(due - lastReview, MS_PER_DAY)
+        return -(now.getTime() - due) / interval
+      })
+    case "random":
+      return seededShuffle(words, hashString(`${userId}:${bookId}:${getStudyDate(now)}:reviews`))
+    default:
+      return words
+  }
+}
+
 /**
  * Get a book with full details for the book detail page
  */
@@ -89,8 +396,20 @@ export async function getBookWithDetails(
   return { book, progress, stats }
 }
 
+/**
+ * What a word's cards add up to, for book statistics
+ */
+interface WordCardStatus {
+  known: boolean
+  suspended: boolean
+  buried: boolean
+  studied: number   // Cards reviewed at least once
+  mastered: number  // Of those, the mastered ones
+}
+
 /**
  * Calculate detailed book statistics
+ * Word counts add up a word's cards; today's counts are cards
  */
 async function calculateBookStats(
   bookId: string,
@@ -103,74 +422,165 @@ async function calculateBookStats(
 
   const supabase = getSupabase()
   const now = new Date()
+  const dailyQuota = await getDailyQuota(userId, bookId)
 
-  // Get word progress counts
+  // Get card progress
   const { data: progressData } = await supabase
     .from("user_word_progress")
-    .select("state, stability, due_at, is_learning_phase")
+    .select("word_id, card_type, state, stability, due_at, last_review_at, is_learning_phase, is_suspended, is_known, buried_until")
     .eq("user_id", userId)
     .eq("book_id", bookId)
 
   if (!progressData || progressData.length === 0) {
-    return getDefaultStats(totalWords)
+    return getDefaultStats(totalWords, dailyQuota.newRemaining)
   }
 
-  // Count by state
-  let mastered = 0
-  let learning = 0
-  let todayReview = 0
+  const today = getStudyDate(now)
+  const endOfToday = getNextStudyDayStart(now)
+  const reviewedToday = groupReviewedCards(progressData, getStudyDayStart(now))
+
+  // Words are counted by their cards: flagged if any card is, mastered once every
+  // card studied so far is
+  const wordStatus = new Map<string, WordCardStatus>()
+  const studiedCards = new Set<string>()
+  const learningDue: { id: string; card_type: CardTemplate }[] = []
+  const reviewDue: { id: string; card_type: CardTemplate }[] = []
+  let studied = 0
   let totalStability = 0
 
   for (const p of progressData) {
-    const mastery = stateToMasteryLevel(p.state as FSRSState, p.stability)
-    if (mastery === "mastered") mastered++
-    else if (mastery === "learning") learning++
-    
+    let status = wordStatus.get(p.word_id)
+    if (!status) {
+      status = { known: false, suspended: false, buried: false, studied: 0, mastered: 0 }
+      wordStatus.set(p.word_id, status)
+    }
+
+    // Known words count as mastered and are never studied
+    if (p.is_known) {
+      status.known = true
+      continue
+    }
+
+    const isWordBuried = isBuried(p.buried_until, today)
+    if (p.is_suspended) status.suspended = true
+    else if (isWordBuried) status.buried = true
+    const isParked = p.is_suspended || isWordBuried
+
+    // Flagged before their first review, or reset
+    if (p.state === "new") continue
+
+    studiedCards.add(getCardKey({ id: p.word_id, card_type: p.card_type }))
+    status.studied++
+    if (stateToMasteryLevel(p.state as FSRSState, p.stability) === "mastered") status.mastered++
+
+    studied++
     totalStability += p.stability || 0
 
-    // Count due for review
-    if (p.due_at && new Date(p.due_at) <= now) {
-      todayReview++
+    // Count due for review (learning cards are not limited by the review quota)
+    // Learning steps are due by the minute, reviews by the study day
+    if (p.due_at && !isParked) {
+      const due = new Date(p.due_at)
+      const card = { id: p.word_id, card_type: p.card_type }
+      if (p.is_learning_phase && due <= now) learningDue.push(card)
+      else if (!p.is_learning_phase && due < endOfToday) reviewDue.push(card)
+    }
+  }
+
+  let mastered = 0
+  let learning = 0
+  let known = 0
+  let suspended = 0
+  let buried = 0
+  let studiedWords = 0
+
+  for (const status of wordStatus.values()) {
+    if (status.known) {
+      known++
+      mastered++
+      continue
     }
+    if (status.suspended) suspended++
+    else if (status.buried) buried++
+
+    if (status.studied === 0) continue
+    studiedWords++
+    if (status.mastered === status.studied) mastered++
+    else learning++
   }
 
-  const newWords = totalWords - progressData.length
-  const averageStability = progressData.length > 0 ? totalStability / progressData.length : 0
+  // Siblings of a card reviewed or due today wait for another day
+  const keptWords = new Set<string>()
+  const learningDueCount = burySiblingCards(learningDue, reviewedToday, keptWords).length
+  const reviewDueCount = burySiblingCards(reviewDue, reviewedToday, keptWords).length
+
+  // Words with a card still to introduce, one new card each today
+  const { data: words } = await supabase
+    .from("vocabulary_words")
+    .select("id, word, example_sentence")
+    .eq("book_id", bookId)
+
+  const newCardWords = (words || []).filter((w) => {
+    const status = wordStatus.get(w.id)
+    return !(status?.known || status?.suspended || status?.buried)
+      && !reviewedToday.has(w.id)
+      && !keptWords.has(w.id)
+      && getWordCardTemplates(w, dailyQuota.settings.card_templates)
+        .some((template) => !studiedCards.has(getCardKey({ id: w.id, card_type: template })))
+  }).length
+
+  const newWords = totalWords - known - studiedWords
+  const averageStability = studied > 0 ? totalStability / studied : 0
 
   // Get book progress for accuracy and streak
   const { data: bookProgress } = await supabase
     .from("user_book_progress")
-    .select("accuracy_percent, streak_days, daily_new_limit")
+    .select("accuracy_percent, streak_days, last_review_date")
     .eq("user_id", userId)
     .eq("book_id", bookId)
     .single()
 
-  const dailyNewLimit = bookProgress?.daily_new_limit || 20
-  const todayNew = Math.min(dailyNewLimit, newWords)
+  const quota = applyBacklogMode(dailyQuota, reviewDueCount)
+  const todayReview = learningDueCount + Math.min(reviewDueCount, quota.reviewRemaining)
+  const todayNew = Math.min(quota.newRemaining, newCardWords)
   const estimatedMinutes = Math.ceil((todayReview + todayNew) * 0.5) // ~30 seconds per word
 
+  // The stored streak is only updated by reviews; a missed study day breaks it
+  const lastReviewDate = bookProgress?.last_review_date ?? null
+  const isStreakAlive = lastReviewDate !== null && studyDaysBetween(lastReviewDate, today) <= 1
+
   return {
     totalWords,
     mastered,
     learning,
     newWords,
+    known,
+    suspended,
+    buried,
     todayReview,
     todayNew,
+    isBacklog: quota.isBacklog,
     estimatedMinutes,
-    streak: bookProgress?.streak_days || 0,
+    streak: isStreakAlive ? bookProgress?.streak_days || 0 : 0,
     accuracy: bookProgress?.accuracy_percent || 0,
     averageStability
   }
 }
 
-function getDefaultStats(totalWords: number): BookDetailStats {
+function getDefaultStats(
+  totalWords: number,
+  newLimit: number = DEFAULT_BOOK_SETTINGS.daily_new_limit
+): BookDetailStats {
   return {
     totalWords,
     mastered: 0,
     learning: 0,
     newWords: totalWords,
+    known: 0,
+    suspended: 0,
+    buried: 0,
     todayReview: 0,
-    todayNew: Math.min(20, totalWords),
+    isBacklog: false,
+    todayNew: Math.min(newLimit, totalWords),
     estimatedMinutes: Math.min(10, totalWords),
     streak: 0,
     accuracy: 0,
@@ -179,90 +589,468 @@ function getDefaultStats(totalWords: number): BookDetailStats {
 }
 
 /**
- * Get today's learning session (words to review + new words)
+ * A book's cards to review today and what is left of its new word quota
  */
-export async function getTodayLearningSession(
-  bookId: string,
-  userId: string,
-  newLimit: number = 20,
-  reviewLimit: number = 100
-): Promise<TodayLearningSession> {
-  if (!isSupabaseInitialized()) {
-    return { reviewWords: [], newWords: [], totalCount: 0, estimatedMinutes: 0 }
-  }
+interface BookDueReviews {
+  settings: BookSettings
+  reviewWords: WordWithProgress[]
+  newRemaining: number
+  isBacklog: boolean
+  reviewedToday: Map<string, Set<CardTemplate>>  // Templates reviewed today per word
+}
 
+/**
+ * Get a book's due learning cards and today's review cards
+ * Limits come from book settings minus what has already been studied today;
+ * a word has at most one card in the session (siblings are buried)
+ */
+async function getBookDueReviews(
+  userId: string,
+  bookId: string,
+  now: Date
+): Promise<BookDueReviews> {
   const supabase = getSupabase()
-  const now = new Date()
-
-  // Get words due for review
-  const { data: dueProgress } = await supabase
+  const today = getStudyDate(now)
+  const endOfToday = getNextStudyDayStart(now)
+  const [dailyQuota, reviewedToday] = await Promise.all([
+    getDailyQuota(userId, bookId),
+    getCardsReviewedToday(userId, bookId, now)
+  ])
+
+  // Learning/relearning cards that are due are always included
+  const { data: learningProgress } = await supabase
     .from("user_word_progress")
-    .select(`
-      id,
-      word_id,
-      state,
-      stability,
-      due_at,
-      last_review_at,
-      lapses,
-      vocabulary_words!inner (
-        id,
-        word,
-        phonetic,
-        definition
-      )
-    `)
+    .select(WORD_PROGRESS_COLUMNS)
     .eq("user_id", userId)
     .eq("book_id", bookId)
+    .eq("is_learning_phase", true)
+    .eq("is_suspended", false)
+    .eq("is_known", false)
+    .or(notBuriedFilter(today))
+    .neq("state", "new")
     .lte("due_at", now.toISOString())
     .order("due_at")
-    .limit(reviewLimit)
 
-  const reviewWords: WordWithProgress[] = asWordProgressList(dueProgress).map((p) => ({
-    id: p.word_id,
-    word: p.vocabulary_words.word,
-    phonetic: p.vocabulary_words.phonetic,
-    definition: p.vocabulary_words.definition,
-    state: p.state as FSRSState,
-    stability: p.stability,
-    due_at: p.due_at,
-    last_review_at: p.last_review_at,
-    lapses: p.lapses
-  }))
-
-  // Get new words (words without progress)
-  const { data: allWords } = await supabase
-    .from("vocabulary_words")
-    .select("id, word, phonetic, definition")
-    .eq("book_id", bookId)
-
-  const { data: existingProgress } = await supabase
+  // Graduated cards due for review today; all of them, so they can be counted for
+  // backlog mode and put in the book's review order before the quota applies
+  const { data: dueProgress } = await supabase
     .from("user_word_progress")
-    .select("word_id")
+    .select(WORD_PROGRESS_COLUMNS)
     .eq("user_id", userId)
     .eq("book_id", bookId)
+    .eq("is_learning_phase", false)
+    .eq("is_suspended", false)
+    .eq("is_known", false)
+    .or(notBuriedFilter(today))
+    .lt("due_at", endOfToday.toISOString())
+    .order("due_at")
 
-  const existingWordIds = new Set((existingProgress || []).map(p => p.word_id))
-  const newWordsData = (allWords || [])
-    .filter(w => !existingWordIds.has(w.id))
-    .slice(0, newLimit)
+  const keptWords = new Set<string>()
+  const learningWords = burySiblingCards(
+    asWordProgressList(learningProgress).map(toWordWithProgress),
+    reviewedToday,
+    keptWords
+  )
+  const dueWords = burySiblingCards(asWordProgressList(dueProgress).map(toWordWithProgress), reviewedToday, keptWords)
+  const { settings, newRemaining, reviewRemaining, isBacklog } = applyBacklogMode(dailyQuota, dueWords.length)
+  const orderedDueWords = reviewRemaining > 0
+    ? await orderDueReviews(dueWords, settings.review_order, { userId, bookId, now })
+    : []
+
+  const reviewWords: WordWithProgress[] = [
+    ...learningWords,
+    ...orderedDueWords.slice(0, reviewRemaining)
+  ]
+
+  return { settings, reviewWords, newRemaining, isBacklog, reviewedToday }
+}
 
-  const newWords: WordWithProgress[] = newWordsData.map(w => ({
-    id: w.id,
-    word: w.word,
-    phonetic: w.phonetic,
-    definition: w.definition,
-    state: "new" as FSRSState,
-    stability: 0,
-    due_at: null,
-    last_review_at: null,
-    lapses: 0
-  }))
+/**
+ * Get today's learning session (cards to review + new cards)
+ * Limits come from book settings minus what has already been studied today;
+ * new cards follow the book's study order, a word's cards in template order.
+ * Words already in the session or studied today get no new card.
+ */
+export async function getTodayLearningSession(
+  bookId: string,
+  userId: string
+): Promise<TodayLearningSession> {
+  if (!isSupabaseInitialized()) {
+    return { reviewWords: [], newWords: [], totalCount: 0, estimatedMinutes: 0, isBacklog: false }
+  }
+
+  const supabase = getSupabase()
+  const now = new Date()
+  const today = getStudyDate(now)
+  const { settings, reviewWords, newRemaining, isBacklog, reviewedToday } = await getBookDueReviews(userId, bookId, now)
+
+  // Get new cards (cards without progress, or reset back to new)
+  let newWords: WordWithProgress[] = []
+  if (newRemaining > 0) {
+    const { data: allWords } = await supabase
+      .from("vocabulary_words")
+      .select(WORD_COLUMNS)
+      .eq("book_id", bookId)
+      .order("created_at")
+      .order("id")
+
+    const { data: existingProgress } = await supabase
+      .from("user_word_progress")
+      .select("word_id, card_type, state, is_suspended, is_known, buried_until")
+      .eq("user_id", userId)
+      .eq("book_id", bookId)
+
+    // Flags park every card of the word
+    const parkedWordIds = new Set(
+      (existingProgress || [])
+        .filter(p => p.is_suspended || p.is_known || isBuried(p.buried_until, today))
+        .map(p => p.word_id)
+    )
+    const studiedCards = new Set(
+      (existingProgress || [])
+        .filter(p => p.state !== "new")
+        .map(p => getCardKey({ id: p.word_id, card_type: p.card_type }))
+    )
+    const unseenWords = ((allWords || []) as WordRow[]).filter(w => !parkedWordIds.has(w.id))
+
+    // Random order is shuffled once per day so reloading keeps the same words
+    const orderedWords = settings.study_order === "random"
+      ? seededShuffle(unseenWords, hashString(`${userId}:${bookId}:${today}`))
+      : unseenWords
+
+    const newCards = orderedWords.flatMap(w =>
+      getWordCardTemplates(w, settings.card_templates)
+        .filter(template => !studiedCards.has(getCardKey({ id: w.id, card_type: template })))
+        .map(template => toUnseenWord(w, bookId, template))
+    )
+    const keptWords = new Set(reviewWords.map(w => w.id))
+    newWords = burySiblingCards(newCards, reviewedToday, keptWords).slice(0, newRemaining)
+  }
 
   const totalCount = reviewWords.length + newWords.length
   const estimatedMinutes = Math.ceil(totalCount * 0.5)
 
-  return { reviewWords, newWords, totalCount, estimatedMinutes }
+  return { reviewWords, newWords, totalCount, estimatedMinutes, isBacklog }
+}
+
+/**
+ * Get the due cards of every book the user studies as one session
+ * Each book keeps its own limits, backlog mode and review order. Cards come
+ * grouped by book, most recently studied book first; new words are left out
+ */
+export async function getDueReviewSession(userId: string): Promise<DueReviewSession> {
+  const emptySession: DueReviewSession = {
+    reviewWords: [],
+    newWords: [],
+    totalCount: 0,
+    estimatedMinutes: 0,
+    isBacklog: false,
+    books: []
+  }
+  if (!isSupabaseInitialized()) return emptySession
+
+  const supabase = getSupabase()
+  const now = new Date()
+
+  const { data, error } = await supabase
+    .from("user_book_progress")
+    .select("book_id, vocabulary_books!inner (name)")
+    .eq("user_id", userId)
+    .order("last_studied_at", { ascending: false, nullsFirst: false })
+
+  if (error) {
+    console.error("Error fetching studied books:", error)
+    throw new Error("Failed to fetch due reviews")
+  }
+
+  const studiedBooks = (data || []) as unknown as { book_id: string; vocabulary_books: { name: string } }[]
+  const dueByBook = await Promise.all(
+    studiedBooks.map((book) => getBookDueReviews(userId, book.book_id, now))
+  )
+
+  const books: DueReviewBook[] = []
+  const reviewWords: WordWithProgress[] = []
+  studiedBooks.forEach((book, i) => {
+    const { settings, reviewWords: bookWords, isBacklog } = dueByBook[i]
+    if (bookWords.length === 0) return
+    books.push({
+      book_id: book.book_id,
+      name: book.vocabulary_books.name,
+      settings,
+      dueCount: bookWords.length,
+      isBacklog
+    })
+    reviewWords.push(...bookWords)
+  })
+
+  return {
+    reviewWords,
+    newWords: [],
+    totalCount: reviewWords.length,
+    estimatedMinutes: Math.ceil(reviewWords.length * 0.5),
+    isBacklog: books.some((book) => book.isBacklog),
+    books
+  }
+}
+
+const CUSTOM_STUDY_FILTERS: CustomStudyFilter[] = ["leeches", "lapsed", "tag", "random"]
+
+/**
+ * Route of a custom study session: /vocabulary/:bookId/custom/:filter/:limit[/:tag]
+ */
+export function getCustomStudyPath(bookId: string, criteria: CustomStudyCriteria): string {
+  const path = `/vocabulary/${bookId}/custom/${criteria.filter}/${criteria.limit}`
+  return criteria.filter === "tag" && criteria.tag ? `${path}/${encodeURIComponent(criteria.tag)}` : path
+}
+
+/**
+ * Read the custom study criteria back from a route, or null if it is not one
+ */
+export function parseCustomStudyPath(path: string): CustomStudyCriteria | null {
+  const match = path.match(/\/vocabulary\/[^/]+\/custom\/([^/]+)\/(\d+)(?:\/([^/]+))?/)
+  if (!match || !CUSTOM_STUDY_FILTERS.includes(match[1] as CustomStudyFilter)) return null
+
+  const filter = match[1] as CustomStudyFilter
+  const tag = match[3] ? decodeURIComponent(match[3]) : null
+  if (filter === "tag" && !tag) return null
+
+  return { filter, tag: filter === "tag" ? tag : null, limit: parseInt(match[2], 10) }
+}
+
+/**
+ * Get words by id with the user's progress, keeping the given order
+ * A word comes as its card with the most lapses; words never studied come as
+ * a new card of the first of the book's templates they have
+ */
+async function getWordsWithProgress(
+  userId: string,
+  bookId: string,
+  wordIds: string[],
+  templates: CardTemplate[]
+): Promise<WordWithProgress[]> {
+  if (wordIds.length === 0) return []
+
+  const supabase = getSupabase()
+  const [wordsResult, progressResult] = await Promise.all([
+    supabase
+      .from("vocabulary_words")
+      .select(WORD_COLUMNS)
+      .in("id", wordIds),
+    supabase
+      .from("user_word_progress")
+      .select(WORD_PROGRESS_COLUMNS)
+      .eq("user_id", userId)
+      .in("word_id", wordIds)
+      .order("lapses", { ascending: false })
+  ])
+
+  if (wordsResult.error || progressResult.error) {
+    console.error("Error fetching custom study words:", wordsResult.error ?? progressResult.error)
+    throw new Error("Failed to fetch custom study session")
+  }
+
+  const wordById = new Map(((wordsResult.data || []) as WordRow[]).map((w) => [w.id, w]))
+  const progressByWord = new Map<string, WordWithProgress>()
+  for (const p of asWordProgressList(progressResult.data)) {
+    if (!progressByWord.has(p.word_id)) progressByWord.set(p.word_id, toWordWithProgress(p))
+  }
+
+  return wordIds.flatMap((id) => {
+    const studied = progressByWord.get(id)
+    if (studied) return [studied]
+    const word = wordById.get(id)
+    const template = word && getWordCardTemplates(word, templates)[0]
+    return word && template ? [toUnseenWord(word, bookId, template)] : []
+  })
+}
+
+/**
+ * Pick the words a custom study filter selects, in session order
+ */
+async function getCustomStudyWordIds(
+  userId: string,
+  bookId: string,
+  criteria: CustomStudyCriteria,
+  limit: number,
+  now: Date
+): Promise<string[]> {
+  const supabase = getSupabase()
+
+  switch (criteria.filter) {
+    case "leeches": {
+      // A word with several leech cards is drilled once; a word has at most one
+      // card per template, so this many rows always cover the limit
+      const { data, error } = await supabase
+        .from("user_word_progress")
+        .select("word_id")
+        .eq("user_id", userId)
+        .eq("book_id", bookId)
+        .eq("is_leech", true)
+        .order("lapses", { ascending: false })
+        .limit(limit * CARD_TEMPLATES.length)
+      if (error) throw error
+      return [...new Set((data || []).map((p) => p.word_id as string))].slice(0, limit)
+    }
+    case "lapsed": {
+      // Again on a graduated card is a lapse; today counts as one of the days
+      const since = getStudyDayStart(new Date(now.getTime() - (CUSTOM_STUDY_LAPSE_DAYS - 1) * MS_PER_DAY))
+      const { data, error } = await supabase
+        .from("review_logs")
+        .select("word_id")
+        .eq("user_id", userId)
+        .eq("book_id", bookId)
+        .eq("is_preview", false)
+        .eq("rating", 1)
+        .eq("state_before", "review")
+        .gte("reviewed_at", since.toISOString())
+        .order("reviewed_at", { ascending: false })
+      if (error) throw error
+      return [...new Set((data || []).map((log) => log.word_id as string))].slice(0, limit)
+    }
+    case "tag": {
+      if (!criteria.tag) return []
+      const { data, error } = await supabase
+        .from("vocabulary_words")
+        .select("id")
+        .eq("book_id", bookId)
+        .contains("tags", [criteria.tag])
+        .order("created_at")
+        .order("id")
+        .limit(limit)
+      if (error) throw error
+      return (data || []).map((w) => w.id)
+    }
+    case "random": {
+      const { data, error } = await supabase
+        .from("vocabulary_words")
+        .select("id")
+        .eq("book_id", bookId)
+      if (error) throw error
+      // A new sample every session
+      const seed = hashString(`${userId}:${bookId}:${now.getTime()}`)
+      return seededShuffle((data || []).map((w) => w.id), seed).slice(0, limit)
+    }
+    default:
+      return []
+  }
+}
+
+/**
+ * Get a custom study session: a chosen subset of a book to drill before a test
+ * Cards are practised in preview, so limits, burying and due dates do not apply.
+ * Every card goes in reviewWords to keep the filter's order.
+ */
+export async function getCustomStudySession(
+  bookId: string,
+  userId: string,
+  criteria: CustomStudyCriteria
+): Promise<TodayLearningSession> {
+  if (!isSupabaseInitialized()) {
+    return { reviewWords: [], newWords: [], totalCount: 0, estimatedMinutes: 0, isBacklog: false }
+  }
+
+  const limit = Math.min(
+    MAX_CUSTOM_STUDY_LIMIT,
+    Math.max(MIN_CUSTOM_STUDY_LIMIT, Math.round(criteria.limit) || DEFAULT_CUSTOM_STUDY_LIMIT)
+  )
+
+  let wordIds: string[]
+  try {
+    wordIds = await getCustomStudyWordIds(userId, bookId, criteria, limit, new Date())
+  } catch (error) {
+    console.error("Error selecting custom study words:", error)
+    throw new Error("Failed to fetch custom study session")
+  }
+
+  const settings = await getBookSettings(userId, bookId)
+  const reviewWords = await getWordsWithProgress(userId, bookId, wordIds, settings.card_templates)
+
+  return {
+    reviewWords,
+    newWords: [],
+    totalCount: reviewWords.length,
+    estimatedMinutes: Math.ceil(reviewWords.length * 0.5),
+    isBacklog: false
+  }
+}
+
+/**
+ * Log a grade from a custom study session as preview practice
+ * Nothing is rescheduled, so the card's state is logged as both before and after.
+ * FSRS training, offline replay and undo_last_review skip these logs.
+ * Returns the log id, used to undo the practice.
+ */
+export async function logPreviewReview(
+  userId: string,
+  word: WordWithProgress,
+  grade: SpacedRepetitionGrade,
+  reviewTimeMs?: number | null
+): Promise<string> {
+  const now = new Date()
+
+  const { data, error } = await getSupabase()
+    .from("review_logs")
+    .insert({
+      user_id: userId,
+      word_id: word.id,
+      book_id: word.book_id,
+      progress_id: null,
+      card_type: word.card_type,
+      is_preview: true,
+      rating: GRADE_TO_RATING[grade],
+      state_before: word.state,
+      state_after: word.state,
+      difficulty_before: word.difficulty,
+      stability_before: word.stability,
+      difficulty_after: word.difficulty,
+      stability_after: word.stability,
+      scheduled_days: 0,
+      elapsed_days: getElapsedDays(word.last_review_at, now),
+      review_time_ms: normalizeReviewTime(reviewTimeMs),
+      reviewed_at: now.toISOString()
+    })
+    .select("id")
+    .single()
+
+  if (error) {
+    console.error("Error logging practice:", error)
+    throw new Error("Failed to save practice")
+  }
+
+  return data.id
+}
+
+/**
+ * Remove a preview practice log (undo in a custom study session)
+ */
+export async function removePreviewReview(userId: string, logId: string): Promise<boolean> {
+  const { error } = await getSupabase()
+    .from("review_logs")
+    .delete()
+    .eq("id", logId)
+    .eq("user_id", userId)
+    .eq("is_preview", true)
+
+  if (error) {
+    console.error("Error removing practice:", error)
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Keep the first card of each word, up to limit words
+ */
+function uniqueWords(cards: WordWithProgress[], limit: number): WordWithProgress[] {
+  const seen = new Set<string>()
+  const words: WordWithProgress[] = []
+  for (const card of cards) {
+    if (seen.has(card.id)) continue
+    seen.add(card.id)
+    words.push(card)
+  }
+  return words.slice(0, limit)
 }
 
 /**
@@ -279,37 +1067,14 @@ export async function getRecentWords(
 
   const { data } = await supabase
     .from("user_word_progress")
-    .select(`
-      word_id,
-      state,
-      stability,
-      due_at,
-      last_review_at,
-      lapses,
-      vocabulary_words!inner (
-        id,
-        word,
-        phonetic,
-        definition
-      )
-    `)
+    .select(WORD_PROGRESS_COLUMNS)
     .eq("user_id", userId)
     .eq("book_id", bookId)
     .not("last_review_at", "is", null)
     .order("last_review_at", { ascending: false })
-    .limit(limit)
+    .limit(limit * CARD_TEMPLATES.length)
 
-  return asWordProgressList(data).map((p) => ({
-    id: p.word_id,
-    word: p.vocabulary_words.word,
-    phonetic: p.vocabulary_words.phonetic,
-    definition: p.vocabulary_words.definition,
-    state: p.state as FSRSState,
-    stability: p.stability,
-    due_at: p.due_at,
-    last_review_at: p.last_review_at,
-    lapses: p.lapses
-  }))
+  return uniqueWords(asWordProgressList(data).map(toWordWithProgress), limit)
 }
 
 /**
@@ -326,248 +1091,220 @@ export async function getDifficultWords(
 
   const { data } = await supabase
     .from("user_word_progress")
-    .select(`
-      word_id,
-      state,
-      stability,
-      due_at,
-      last_review_at,
-      lapses,
-      vocabulary_words!inner (
-        id,
-        word,
-        phonetic,
-        definition
-      )
-    `)
+    .select(WORD_PROGRESS_COLUMNS)
     .eq("user_id", userId)
     .eq("book_id", bookId)
     .gt("lapses", 0)
     .order("lapses", { ascending: false })
     .order("stability", { ascending: true })
-    .limit(limit)
+    .limit(limit * CARD_TEMPLATES.length)
 
-  return asWordProgressList(data).map((p) => ({
-    id: p.word_id,
-    word: p.vocabulary_words.word,
-    phonetic: p.vocabulary_words.phonetic,
-    definition: p.vocabulary_words.definition,
-    state: p.state as FSRSState,
-    stability: p.stability,
-    due_at: p.due_at,
-    last_review_at: p.last_review_at,
-    lapses: p.lapses
-  }))
+  return uniqueWords(asWordProgressList(data).map(toWordWithProgress), limit)
 }
 
 /**
- * Process a word review and update progress
+ * Postgres error code apply_review raises when the progress changed after it was read
  */
-export async function processWordReview(
-  userId: string,
-  wordId: string,
-  bookId: string,
-  grade: SpacedRepetitionGrade
-): Promise<UserWordProgress | null> {
-  if (!isSupabaseInitialized()) return null
-
-  const supabase = getSupabase()
-  const rating = GRADE_TO_RATING[grade]
-  const now = new Date()
+export const STALE_PROGRESS_ERROR = "40001"
 
-  // Get current progress or create new
-  let { data: progress } = await supabase
-    .from("user_word_progress")
-    .select("*")
-    .eq("user_id", userId)
-    .eq("word_id", wordId)
-    .single()
+/**
+ * Attempts before giving up on a review that keeps racing another session
+ */
+export const MAX_REVIEW_ATTEMPTS = 3
 
-  const isNew = !progress
+/**
+ * Review counters of a card, as kept by apply_review
+ */
+export type ReviewCounters = Pick<UserWordProgress, "reps" | "lapses" | "total_reviews" | "correct_reviews">
 
-  if (!progress) {
-    // Create initial progress
-    const initial = createInitialWordProgress(userId, wordId, bookId)
-    const { data: newProgress, error } = await supabase
-      .from("user_word_progress")
-      .insert(initial)
-      .select()
-      .single()
+/**
+ * A scheduled review ready to be persisted by apply_review
+ */
+export interface ScheduledReview {
+  userId: string
+  wordId: string
+  bookId: string
+  cardType: CardTemplate
+  rating: FSRSRating
+  expectedTotalReviews: number  // total_reviews of the progress the result was computed from
+  result: SchedulingResult
+  counters?: ReviewCounters     // Counters of a card rebuilt from its logs, this review included
+  reviewedAt: Date
+  studyDate: string
+  reviewTimeMs: number | null
+}
 
-    if (error) {
-      console.error("Error creating progress:", error)
-      return null
-    }
-    progress = newProgress
-  }
-
-  // Calculate new scheduling with FSRS
-  const schedulingResult = fsrsScheduler.review(
-    {
-      state: progress.state as FSRSState,
-      difficulty: progress.difficulty,
-      stability: progress.stability,
-      learning_step: progress.learning_step,
-      is_learning_phase: progress.is_learning_phase,
-      elapsed_days: progress.elapsed_days,
-      reps: progress.reps,
-      lapses: progress.lapses
-    },
-    rating,
-    now
-  )
+/**
+ * Persist a scheduled review: progress, review log and book counters in one transaction
+ * Fails with STALE_PROGRESS_ERROR when the progress changed since it was read
+ */
+export async function applyScheduledReview(review: ScheduledReview) {
+  const { result } = review
+  const { data, error } = await getSupabase().rpc("apply_review", {
+    p_user_id: review.userId,
+    p_word_id: review.wordId,
+    p_book_id: review.bookId,
+    p_rating: review.rating,
+    p_expected_total_reviews: review.expectedTotalReviews,
+    p_state: result.state,
+    p_difficulty: result.difficulty,
+    p_stability: result.stability,
+    p_retrievability: result.retrievability,
+    p_elapsed_days: result.elapsed_days,
+    p_scheduled_days: result.scheduled_days,
+    p_due_at: result.due_at.toISOString(),
+    p_learning_step: result.learning_step,
+    p_is_learning_phase: result.is_learning_phase,
+    p_scheduler_state: result.scheduler_state ?? null,
+    p_reviewed_at: review.reviewedAt.toISOString(),
+    p_study_date: review.studyDate,
+    p_review_time_ms: review.reviewTimeMs,
+    p_card_type: review.cardType,
+    p_counters: review.counters ?? null
+  })
+
+  return { progress: (data as UserWordProgress | null) ?? null, error }
+}
 
-  // Prepare update
-  const updateData: Partial<UserWordProgress> = {
-    state: schedulingResult.state,
-    difficulty: schedulingResult.difficulty,
-    stability: schedulingResult.stability,
-    retrievability: schedulingResult.retrievability,
-    elapsed_days: schedulingResult.elapsed_days,
-    scheduled_days: schedulingResult.scheduled_days,
-    due_at: schedulingResult.due_at.toISOString(),
-    learning_step: schedulingResult.learning_step,
-    is_learning_phase: schedulingResult.is_learning_phase,
-    last_review_at: now.toISOString(),
-    total_reviews: progress.total_reviews + 1,
-    correct_reviews: rating >= 3 ? progress.correct_reviews + 1 : progress.correct_reviews,
-    reps: rating >= 2 ? progress.reps + 1 : progress.reps,
-    lapses: rating === 1 ? progress.lapses + 1 : progress.lapses,
-    updated_at: now.toISOString()
-  }
-
-  // Update progress
-  const { data: updatedProgress, error: updateError } = await supabase
-    .from("user_word_progress")
-    .update(updateData)
-    .eq("id", progress.id)
-    .select()
-    .single()
+/**
+ * Normalize a measured review time for review_logs.review_time_ms
+ */
+export function normalizeReviewTime(reviewTimeMs?: number | null): number | null {
+  return reviewTimeMs != null && Number.isFinite(reviewTimeMs)
+    ? Math.max(0, Math.round(reviewTimeMs))
+    : null
+}
 
-  if (updateError) {
-    console.error("Error updating progress:", updateError)
-    return null
+/**
+ * Scheduling fields of a word's progress
+ */
+export function toSchedulableProgress(progress: SchedulableProgress): SchedulableProgress {
+  return {
+    word_id: progress.word_id,
+    card_type: progress.card_type,
+    total_reviews: progress.total_reviews,
+    state: progress.state,
+    difficulty: progress.difficulty,
+    stability: progress.stability,
+    learning_step: progress.learning_step,
+    is_learning_phase: progress.is_learning_phase,
+    last_review_at: progress.last_review_at,
+    reps: progress.reps,
+    lapses: progress.lapses,
+    scheduler_state: progress.scheduler_state
   }
-
-  // Log the review
-  await logReview(userId, wordId, bookId, progress, updatedProgress, rating, now)
-
-  // Update book progress stats
-  await updateBookProgressStats(userId, bookId, isNew)
-
-  return updatedProgress
 }
 
 /**
- * Log a review for analytics
+ * Process a review of one of a word's cards and update its progress
+ * Scheduling runs here; the apply_review database function persists the progress,
+ * review log and book counters in one transaction
+ * reviewTimeMs is the active time from reveal to grade, stored in the review log
+ * isOffline is set when the server could not be reached, so the caller can keep
+ * the review for later instead of losing it
  */
-async function logReview(
+export async function processWordReview(
   userId: string,
   wordId: string,
   bookId: string,
-  before: UserWordProgress,
-  after: UserWordProgress,
-  rating: FSRSRating,
-  now: Date
-): Promise<void> {
-  if (!isSupabaseInitialized()) return
+  cardType: CardTemplate,
+  grade: SpacedRepetitionGrade,
+  reviewTimeMs?: number | null
+): Promise<{ progress: UserWordProgress | null; isOffline: boolean }> {
+  if (!isSupabaseInitialized()) return { progress: null, isOffline: false }
 
   const supabase = getSupabase()
+  const rating = GRADE_TO_RATING[grade]
 
-  const logEntry: Omit<ReviewLog, 'id' | 'created_at'> = {
-    user_id: userId,
-    word_id: wordId,
-    book_id: bookId,
-    progress_id: after.id,
-    rating,
-    state_before: before.state,
-    state_after: after.state,
-    difficulty_before: before.difficulty,
-    stability_before: before.stability,
-    difficulty_after: after.difficulty,
-    stability_after: after.stability,
-    scheduled_days: after.scheduled_days,
-    elapsed_days: before.elapsed_days,
-    reviewed_at: now.toISOString()
+  // The book's settings are read from the server; without them the review cannot be scheduled
+  let scheduler: IScheduler
+  try {
+    scheduler = await getBookScheduler(userId, bookId)
+  } catch (err) {
+    console.error("Error loading book scheduler:", err)
+    return { progress: null, isOffline: true }
   }
 
-  await supabase.from("review_logs").insert(logEntry)
-}
-
-/**
- * Update book progress statistics after a review
- */
-async function updateBookProgressStats(
-  userId: string,
-  bookId: string,
-  isNewWord: boolean
-): Promise<void> {
-  if (!isSupabaseInitialized()) return
-
-  const supabase = getSupabase()
-  const today = new Date().toISOString().split('T')[0]
+  for (let attempt = 1; attempt <= MAX_REVIEW_ATTEMPTS; attempt++) {
+    const now = new Date()
 
-  // Get current book progress
-  const { data: bookProgress } = await supabase
-    .from("user_book_progress")
-    .select("*")
-    .eq("user_id", userId)
-    .eq("book_id", bookId)
-    .single()
+    // Get current progress (new cards have none until their first review)
+    const { data: existing, error: readError } = await supabase
+      .from("user_word_progress")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("word_id", wordId)
+      .eq("card_type", cardType)
+      .maybeSingle()
+
+    if (readError) {
+      console.error("Error fetching progress for review:", readError)
+      return { progress: null, isOffline: isNetworkError(readError) }
+    }
 
-  if (!bookProgress) {
-    // Create book progress if doesn't exist
-    await supabase.from("user_book_progress").insert({
-      user_id: userId,
-      book_id: bookId,
-      mastered_count: 0,
-      learning_count: 0,
-      new_count: 0,
-      streak_days: 1,
-      accuracy_percent: 0,
-      total_reviews: 1,
-      reviews_today: 1,
-      new_words_today: isNewWord ? 1 : 0,
-      last_review_date: today,
-      daily_new_limit: 20,
-      daily_review_limit: 100
+    const progress = existing ?? createInitialWordProgress(userId, wordId, bookId, cardType, scheduler)
+
+    // Calculate new scheduling with the book's algorithm
+    const result = scheduler.review(toSchedulableProgress(progress), rating, now)
+
+    const { progress: updatedProgress, error } = await applyScheduledReview({
+      userId,
+      wordId,
+      bookId,
+      cardType,
+      rating,
+      expectedTotalReviews: progress.total_reviews,
+      result,
+      reviewedAt: now,
+      studyDate: getStudyDate(now),
+      reviewTimeMs: normalizeReviewTime(reviewTimeMs)
     })
-    return
-  }
 
-  // Check if this is a new day
-  const isNewDay = bookProgress.last_review_date !== today
-  const newStreak = isNewDay
-    ? (isConsecutiveDay(bookProgress.last_review_date, today) ? bookProgress.streak_days + 1 : 1)
-    : bookProgress.streak_days
+    if (!error) {
+      return { progress: updatedProgress, isOffline: false }
+    }
+
+    // Another session reviewed the card first: reschedule from its latest state
+    if (error.code === STALE_PROGRESS_ERROR && attempt < MAX_REVIEW_ATTEMPTS) {
+      continue
+    }
 
-  // Update counts
-  const updateData: Partial<UserBookProgress> = {
-    total_reviews: bookProgress.total_reviews + 1,
-    reviews_today: isNewDay ? 1 : bookProgress.reviews_today + 1,
-    new_words_today: isNewDay ? (isNewWord ? 1 : 0) : (isNewWord ? bookProgress.new_words_today + 1 : bookProgress.new_words_today),
-    last_review_date: today,
-    last_studied_at: new Date().toISOString(),
-    streak_days: newStreak,
-    updated_at: new Date().toISOString()
+    console.error("Error applying review:", error)
+    return { progress: null, isOffline: isNetworkError(error) }
   }
 
-  await supabase
-    .from("user_book_progress")
-    .update(updateData)
-    .eq("id", bookProgress.id)
+  return { progress: null, isOffline: false }
 }
 
 /**
- * Check if two dates are consecutive
+ * Undo the user's latest review
+ * The undo_last_review database function restores the card's previous progress
+ * and the book's daily counters, then deletes the review log entry.
+ * Pass wordId and cardType to undo only if the latest review is of that card.
+ * Returns the restored progress, or null when there is nothing to undo.
  */
-function isConsecutiveDay(dateStr1: string | null, dateStr2: string): boolean {
-  if (!dateStr1) return false
-  const date1 = new Date(dateStr1)
-  const date2 = new Date(dateStr2)
-  const diffTime = date2.getTime() - date1.getTime()
-  const diffDays = diffTime / (1000 * 60 * 60 * 24)
-  return diffDays === 1
+export async function undoLastReview(
+  userId: string,
+  wordId?: string,
+  cardType?: CardTemplate
+): Promise<UserWordProgress | null> {
+  if (!isSupabaseInitialized()) return null
+
+  const supabase = getSupabase()
+  const { data, error } = await supabase.rpc("undo_last_review", {
+    p_user_id: userId,
+    p_word_id: wordId ?? null,
+    p_card_type: cardType ?? null
+  })
+
+  if (error) {
+    console.error("Error undoing review:", error)
+    throw new Error("Failed to undo review")
+  }
+
+  // A NULL row comes back with every column null
+  const restored = data as UserWordProgress | null
+  return restored?.id ? restored : null
 }
 
 /**
@@ -614,6 +1351,7 @@ export async function initializeBookProgress(
       total_reviews: 0,
       reviews_today: 0,
       new_words_today: 0,
+      review_cards_today: 0,
       last_review_date: null,
       daily_new_limit: 20,
       daily_review_limit: 100
@@ -633,9 +1371,10 @@ export async function initializeBookProgress(
  * Get schedule preview for a word
  */
 export function getWordSchedulePreview(
-  progress: Pick<UserWordProgress, 'state' | 'difficulty' | 'stability' | 'learning_step' | 'is_learning_phase' | 'elapsed_days' | 'reps' | 'lapses'>
+  progress: SchedulableProgress,
+  scheduler: IScheduler = fsrsScheduler
 ): Record<FSRSRating, string> {
-  return fsrsScheduler.getSchedulePreview(progress)
+  return scheduler.getSchedulePreview(progress)
 }
 
 /**
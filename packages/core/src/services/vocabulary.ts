@@ -34,6 +34,7 @@ export interface IVocabularyApi {
   
   // Words
   getBookWords(bookId: string): Promise<VocabularyWord[]>
+  getBookTags(bookId: string): Promise<string[]>
   addWords(bookId: string, words: string[]): Promise<VocabularyWord[]>
   deleteWord(wordId: string): Promise<void>
 }
@@ -382,6 +383,30 @@ export async function getBookWords(bookId: string): Promise<VocabularyWord[]> {
   return data || []
 }
 
+/**
+ * Get the tags used by a book's words, sorted
+ */
+export async function getBookTags(bookId: string): Promise<string[]> {
+  if (!isSupabaseInitialized()) {
+    return []
+  }
+
+  const supabase = getSupabase()
+  const { data, error } = await supabase
+    .from("vocabulary_words")
+    .select("tags")
+    .eq("book_id", bookId)
+    .neq("tags", "{}")
+
+  if (error) {
+    console.error("Error fetching word tags:", error)
+    throw new Error("Failed to fetch word tags")
+  }
+
+  const tags = new Set((data || []).flatMap((word) => word.tags as string[]))
+  return [...tags].sort((a, b) => a.localeCompare(b))
+}
+
 /**
  * Add words to a vocabulary book
  */
@@ -575,9 +600,48 @@ export async function updateBookSettings(
   if (input.learning_mode !== undefined) {
     updateData.learning_mode = input.learning_mode
   }
+  if (input.card_templates !== undefined) {
+    updateData.card_templates = input.card_templates
+  }
   if (input.study_order !== undefined) {
     updateData.study_order = input.study_order
   }
+  if (input.scheduling_algorithm !== undefined) {
+    updateData.scheduling_algorithm = input.scheduling_algorithm
+  }
+  if (input.learning_steps !== undefined) {
+    updateData.learning_steps = input.learning_steps
+  }
+  if (input.relearning_steps !== undefined) {
+    updateData.relearning_steps = input.relearning_steps
+  }
+  if (input.desired_retention !== undefined) {
+    updateData.desired_retention = input.desired_retention
+  }
+  if (input.maximum_interval !== undefined) {
+    updateData.maximum_interval = input.maximum_interval
+  }
+  if (input.leech_threshold !== undefined) {
+    updateData.leech_threshold = input.leech_threshold
+  }
+  if (input.leech_action !== undefined) {
+    updateData.leech_action = input.leech_action
+  }
+  if (input.load_balancing !== undefined) {
+    updateData.load_balancing = input.load_balancing
+  }
+  if (input.review_order !== undefined) {
+    updateData.review_order = input.review_order
+  }
+  if (input.backlog_mode !== undefined) {
+    updateData.backlog_mode = input.backlog_mode
+  }
+  if (input.backlog_review_limit !== undefined) {
+    updateData.backlog_review_limit = input.backlog_review_limit
+  }
+  if (input.backlog_threshold !== undefined) {
+    updateData.backlog_threshold = input.backlog_threshold
+  }
 
   if (existing) {
     // Update existing settings
@@ -632,6 +696,7 @@ export const vocabularyApi: IVocabularyApi = {
   getBookProgress,
   getUserBooksWithProgress,
   getBookWords,
+  getBookTags,
   addWords,
   deleteWord: async (wordId: string) => {
     // We need bookId to update word count, but for simple delete we can skip
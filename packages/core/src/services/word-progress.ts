@@ -0,0 +1,235 @@
+/**
+ * Word Progress Service
+ * Per-word actions outside of reviews: leeches, flags, notes and resets
+ * Flags, notes and resets apply to every card of the word
+ */
+
+import { getSupabase, isSupabaseInitialized } from "./supabase"
+import { createInitialWordProgress, fsrsScheduler } from "./fsrs"
+import { addStudyDays, getStudyDate } from "./study-day"
+import { getBookSettings } from "./vocabulary"
+import { getWordCardTemplates } from "./card-templates"
+import type { FSRSState, UserWordProgress, WordFlag, WordWithProgress } from "../types/vocabulary"
+
+/**
+ * Supabase row of a leech joined with its word
+ */
+interface LeechRow extends Omit<WordWithProgress, "id" | "word" | "phonetic" | "definition" | "example_sentence" | "state"> {
+  word_id: string
+  state: string
+  vocabulary_words: {
+    word: string
+    phonetic: string | null
+    definition: string | null
+    example_sentence: string | null
+  }
+}
+
+/**
+ * Get the leech cards of a book, most lapses first
+ */
+export async function getLeechWords(
+  bookId: string,
+  userId: string
+): Promise<WordWithProgress[]> {
+  if (!isSupabaseInitialized()) return []
+
+  const supabase = getSupabase()
+
+  const { data, error } = await supabase
+    .from("user_word_progress")
+    .select(`
+      word_id,
+      book_id,
+      card_type,
+      state,
+      stability,
+      due_at,
+      last_review_at,
+      lapses,
+      difficulty,
+      elapsed_days,
+      reps,
+      learning_step,
+      is_learning_phase,
+      scheduler_state,
+      is_leech,
+      is_suspended,
+      note,
+      is_known,
+      buried_until,
+      vocabulary_words!inner (
+        word,
+        phonetic,
+        definition,
+        example_sentence
+      )
+    `)
+    .eq("user_id", userId)
+    .eq("book_id", bookId)
+    .eq("is_leech", true)
+    .order("lapses", { ascending: false })
+
+  if (error) {
+    console.error("Error fetching leeches:", error)
+    return []
+  }
+
+  return ((data || []) as unknown as LeechRow[]).map(({ word_id, vocabulary_words, ...progress }) => ({
+    ...progress,
+    id: word_id,
+    word: vocabulary_words.word,
+    phonetic: vocabulary_words.phonetic,
+    definition: vocabulary_words.definition,
+    example_sentence: vocabulary_words.example_sentence,
+    state: progress.state as FSRSState
+  }))
+}
+
+/**
+ * Update fields of the progress of every card of a word
+ * Returns the first card's updated progress
+ */
+async function updateWordProgress(
+  userId: string,
+  wordId: string,
+  changes: Partial<UserWordProgress>,
+  action: string
+): Promise<UserWordProgress> {
+  if (!isSupabaseInitialized()) {
+    throw new Error("Supabase not initialized")
+  }
+
+  const { data, error } = await getSupabase()
+    .from("user_word_progress")
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .eq("word_id", wordId)
+    .select()
+
+  if (error || !data?.length) {
+    console.error(`Error trying to ${action}:`, error)
+    throw new Error(`Failed to ${action}`)
+  }
+
+  return data[0]
+}
+
+/**
+ * Progress changes that turn a flag on or off
+ * Buried words come back on the next study date
+ */
+function getFlagChanges(flag: WordFlag, enabled: boolean, now: Date): Partial<UserWordProgress> {
+  switch (flag) {
+    case "suspended":
+      return { is_suspended: enabled }
+    case "buried":
+      return { buried_until: enabled ? addStudyDays(getStudyDate(now), 1) : null }
+    case "known":
+      return { is_known: enabled }
+  }
+}
+
+/**
+ * Turn a word flag on or off, on every card of the word
+ * Words never studied get a progress row for each card their book enables, so
+ * new words can be flagged too; sessions leave out every card of a word flagged
+ * on any of them
+ */
+export async function setWordFlag(
+  userId: string,
+  bookId: string,
+  wordId: string,
+  flag: WordFlag,
+  enabled: boolean
+): Promise<UserWordProgress> {
+  if (!isSupabaseInitialized()) {
+    throw new Error("Supabase not initialized")
+  }
+
+  const action = `${enabled ? "set" : "clear"} ${flag} flag`
+  const changes = getFlagChanges(flag, enabled, new Date())
+  const supabase = getSupabase()
+
+  const { data: existing, error: readError } = await supabase
+    .from("user_word_progress")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("word_id", wordId)
+    .limit(1)
+    .maybeSingle()
+
+  if (readError) {
+    console.error(`Error trying to ${action}:`, readError)
+    throw new Error(`Failed to ${action}`)
+  }
+
+  if (existing) {
+    return updateWordProgress(userId, wordId, changes, action)
+  }
+
+  const [settings, { data: word, error: wordError }] = await Promise.all([
+    getBookSettings(userId, bookId),
+    supabase
+      .from("vocabulary_words")
+      .select("word, example_sentence")
+      .eq("id", wordId)
+      .single()
+  ])
+
+  if (wordError) {
+    console.error(`Error trying to ${action}:`, wordError)
+    throw new Error(`Failed to ${action}`)
+  }
+
+  // A word whose sentence does not fit its only template still gets that card
+  const templates = getWordCardTemplates(word, settings.card_templates)
+  const cardTypes = templates.length > 0 ? templates : settings.card_templates.slice(0, 1)
+
+  const { data, error } = await supabase
+    .from("user_word_progress")
+    .insert(cardTypes.map((cardType) => ({
+      ...createInitialWordProgress(userId, wordId, bookId, cardType),
+      ...changes
+    })))
+    .select()
+
+  if (error || !data?.length) {
+    console.error(`Error trying to ${action}:`, error)
+    throw new Error(`Failed to ${action}`)
+  }
+
+  return data[0]
+}
+
+/**
+ * Save the learner's note on a word (empty clears it)
+ */
+export function updateWordNote(
+  userId: string,
+  wordId: string,
+  note: string
+): Promise<UserWordProgress> {
+  return updateWordProgress(userId, wordId, { note: note.trim() || null }, "update word note")
+}
+
+/**
+ * Reset a word so all of its cards are learned again from scratch
+ * Clears the leech, suspended, buried and known flags; the note and review history are kept
+ */
+export function resetWordProgress(userId: string, wordId: string): Promise<UserWordProgress> {
+  return updateWordProgress(
+    userId,
+    wordId,
+    {
+      ...fsrsScheduler.createInitialState(),
+      last_review_at: null,
+      due_at: new Date().toISOString(),
+      is_leech: false,
+      is_suspended: false,
+      is_known: false,
+      buried_until: null
+    },
+    "reset word"
+  )
+}
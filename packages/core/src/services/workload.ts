@@ -0,0 +1,133 @@
+/**
+ * Workload Estimation Service
+ * Simulates FSRS reviews to estimate how many cards a book will ask for each day
+ */
+
+import type { FSRSRating, SchedulableProgress } from "../types/vocabulary"
+import { createSeededRandom } from "../utils"
+import { getElapsedDays, type FSRSScheduler } from "./fsrs"
+import type { IScheduler } from "./scheduler"
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Forgetting curve deciding whether a simulated review is passed
+ */
+export type RecallModel = Pick<FSRSScheduler, "predictRecall">
+
+/**
+ * Options for estimating the daily workload
+ */
+export interface WorkloadEstimateOptions {
+  newPerDay: number
+  days?: number      // Horizon to average over (default: 90)
+  samples?: number   // Simulated cards (default: 200)
+  seed?: number
+}
+
+/**
+ * Estimated workload over the horizon
+ */
+export interface WorkloadEstimate {
+  reviewsPerDay: number   // Average reviews a day, learning steps included
+  newPerDay: number
+  days: number
+}
+
+/**
+ * Simulate the reviews of one card from `firstReview` until the end of `reviewsByDay`
+ * Each review adds `weight` to the day it falls on, counted in whole days from `origin`
+ */
+export function simulateReviews(
+  scheduler: IScheduler,
+  recall: RecallModel,
+  initial: SchedulableProgress,
+  firstReview: Date,
+  origin: Date,
+  reviewsByDay: number[],
+  random: () => number,
+  weight: number = 1
+): void {
+  const end = origin.getTime() + reviewsByDay.length * MS_PER_DAY
+
+  let progress = initial
+  let now = firstReview
+
+  while (now.getTime() < end) {
+    // Learning steps are assumed passed; day reviews succeed with the predicted recall
+    const rating: FSRSRating = progress.is_learning_phase
+      ? 3
+      : random() < recall.predictRecall(getElapsedDays(progress.last_review_at, now), progress.stability)
+        ? 3
+        : 1
+
+    const result = scheduler.review(progress, rating, now)
+    reviewsByDay[Math.floor((now.getTime() - origin.getTime()) / MS_PER_DAY)] += weight
+
+    progress = {
+      ...progress,
+      ...result,
+      reps: progress.reps + 1,
+      lapses: progress.lapses + (rating === 1 && !progress.is_learning_phase ? 1 : 0),
+      total_reviews: (progress.total_reviews ?? 0) + 1,
+      last_review_at: now.toISOString()
+    }
+    now = result.due_at
+  }
+}
+
+/**
+ * Simulate one card from its first review until the horizon
+ * Returns the number of reviews falling on each day since the card was introduced
+ */
+export function simulateCard(
+  scheduler: IScheduler,
+  recall: RecallModel,
+  wordId: string,
+  start: Date,
+  days: number,
+  random: () => number
+): number[] {
+  const reviewsByDay = new Array<number>(days).fill(0)
+  const initial: SchedulableProgress = {
+    ...scheduler.createInitialState(),
+    word_id: wordId,
+    last_review_at: null
+  }
+
+  simulateReviews(scheduler, recall, initial, start, start, reviewsByDay, random)
+  return reviewsByDay
+}
+
+/**
+ * Estimate the average daily reviews when studying `newPerDay` new words every day
+ * Uses Monte Carlo simulation of the scheduler, so retention and maximum interval
+ * of the scheduler are reflected in the estimate
+ */
+export function estimateDailyWorkload(
+  scheduler: FSRSScheduler,
+  { newPerDay, days = 90, samples = 200, seed = 1 }: WorkloadEstimateOptions
+): WorkloadEstimate {
+  const random = createSeededRandom(seed)
+  const start = new Date()
+
+  // Expected reviews of one card by age (days since introduced)
+  const reviewsByAge = new Array<number>(days).fill(0)
+  for (let i = 0; i < samples; i++) {
+    simulateCard(scheduler, scheduler, `simulated-${i}`, start, days, random).forEach((count, age) => {
+      reviewsByAge[age] += count / samples
+    })
+  }
+
+  // With a new batch every day, day d sees the cards of every age up to d
+  let total = 0
+  reviewsByAge.forEach((count, age) => {
+    total += count * (days - age)
+  })
+
+  return {
+    reviewsPerDay: Math.round((newPerDay * total) / days),
+    newPerDay,
+    days
+  }
+}
@@ -30,24 +30,93 @@ export type {
   FSRSState,
   FSRSRating,
   FSRSParameters,
+  FSRSVersion,
+  FSRSMemoryState,
+  UserFSRSParams,
+  FSRSTrainingReview,
+  FSRSOptimizationProgress,
+  FSRSOptimizationResult,
   ReviewLog,
   BookDetailStats,
   WordWithProgress,
   TodayLearningSession,
+  ReviewQueueOrder,
+  DueReviewBook,
+  DueReviewSession,
+  CustomStudyFilter,
+  CustomStudyCriteria,
+  SessionCard,
+  SessionReview,
+  SessionProgress,
+  PendingReview,
+  OfflineSyncResult,
+  LearningSessionQueue,
   SchedulingResult,
+  SchedulingAlgorithm,
+  SM2State,
+  LeitnerState,
+  SchedulerState,
+  SchedulableProgress,
+  DueLoad,
+  InitialSchedulingState,
+  UserProfileSettings,
+  StudyDaySettings,
+  UpdateUserProfileInput,
   BookSettings,
+  LearningStepSettings,
   UpdateBookSettingsInput,
   StudyOrder,
-  LearningMode
+  LearningMode,
+  CardTemplate,
+  LeechAction,
+  ReviewOrder,
+  WordFlag,
+  DueShiftAction,
+  DueShiftItem,
+  WorkloadDiffDay,
+  DueShiftPlan,
+  DueShift,
+  RescheduleItem,
+  ReschedulePlan,
+  SpellingDiffSegment,
+  SpellingCheckResult,
+  QuizWord,
+  QuizDirection,
+  QuizChoice,
+  QuizQuestion,
+  QuizAnswerResult
 } from "./vocabulary"
 export {
   BOOK_COVER_COLORS,
   DEFAULT_BOOK_COVER_COLOR,
   GRADE_TO_RATING,
+  RATING_TO_GRADE,
   DEFAULT_FSRS_PARAMS,
-  LEARNING_STEPS,
-  LEARNING_GRADUATION_STEPS,
-  DEFAULT_BOOK_SETTINGS
+  DEFAULT_FSRS5_PARAMS,
+  DEFAULT_FSRS_PARAMS_BY_VERSION,
+  DEFAULT_LEARNING_STEPS,
+  DEFAULT_RELEARNING_STEPS,
+  DEFAULT_BOOK_SETTINGS,
+  MIN_DESIRED_RETENTION,
+  MAX_DESIRED_RETENTION,
+  MIN_MAXIMUM_INTERVAL,
+  MAX_MAXIMUM_INTERVAL,
+  MIN_LEECH_THRESHOLD,
+  MAX_LEECH_THRESHOLD,
+  MIN_BACKLOG_REVIEW_LIMIT,
+  MAX_BACKLOG_REVIEW_LIMIT,
+  MIN_BACKLOG_THRESHOLD,
+  MAX_BACKLOG_THRESHOLD,
+  MIN_DUE_SHIFT_DAYS,
+  MAX_DUE_SHIFT_DAYS,
+  DEFAULT_DAY_START_HOUR,
+  MIN_DAY_START_HOUR,
+  MAX_DAY_START_HOUR,
+  DEFAULT_CUSTOM_STUDY_LIMIT,
+  MIN_CUSTOM_STUDY_LIMIT,
+  MAX_CUSTOM_STUDY_LIMIT,
+  CUSTOM_STUDY_LAPSE_DAYS,
+  CARD_TEMPLATES
 } from "./vocabulary"
 
 /**
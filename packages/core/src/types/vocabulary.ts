@@ -39,6 +39,16 @@ export const GRADE_TO_RATING: Record<SpacedRepetitionGrade, FSRSRating> = {
   easy: 4
 }
 
+/**
+ * Map FSRS rating back to UI grade
+ */
+export const RATING_TO_GRADE: Record<FSRSRating, SpacedRepetitionGrade> = {
+  1: "forgot",
+  2: "hard",
+  3: "good",
+  4: "easy"
+}
+
 /**
  * Vocabulary book - represents a collection of words
  */
@@ -67,6 +77,7 @@ export interface VocabularyWord {
   definition: string | null
   example_sentence: string | null
   notes: string | null
+  tags: string[]
   created_at: string
   updated_at: string
 }
@@ -79,6 +90,7 @@ export interface UserWordProgress {
   user_id: string
   word_id: string
   book_id: string
+  card_type: CardTemplate  // One row per card of the word
   
   // FSRS Core Parameters
   state: FSRSState
@@ -87,7 +99,7 @@ export interface UserWordProgress {
   retrievability: number  // R: probability of recall (0-1)
   
   // FSRS Card State
-  elapsed_days: number    // Days since last review
+  elapsed_days: number    // Days between the previous review and the latest one
   scheduled_days: number  // Days until next review
   reps: number            // Total successful review count
   lapses: number          // Times forgotten (Again count)
@@ -99,10 +111,20 @@ export interface UserWordProgress {
   // Scheduling
   last_review_at: string | null   // Last review timestamp
   due_at: string                  // When this card is due for review
+  scheduler_state: SchedulerState | null // Algorithm-specific state (SM-2, Leitner)
   
   // Statistics
   total_reviews: number
   correct_reviews: number
+
+  // Leech handling
+  is_leech: boolean       // Lapses reached the book's leech threshold
+  is_suspended: boolean   // Left out of learning sessions
+  note: string | null     // Learner's own note (e.g. a mnemonic)
+
+  // Parked outside of scheduling
+  is_known: boolean             // "I already know this": never studied
+  buried_until: string | null   // Hidden from sessions before this study date (YYYY-MM-DD)
   
   created_at: string
   updated_at: string
@@ -117,6 +139,7 @@ export interface ReviewLog {
   word_id: string
   book_id: string
   progress_id: string
+  card_type: CardTemplate
   
   rating: FSRSRating
   state_before: FSRSState
@@ -131,6 +154,10 @@ export interface ReviewLog {
   elapsed_days: number
   review_time_ms?: number
   
+  // Snapshots taken before the review, used to undo it
+  progress_before?: UserWordProgress | null
+  book_progress_before?: UserBookProgress | null
+  
   reviewed_at: string
   created_at: string
 }
@@ -151,8 +178,9 @@ export interface UserBookProgress {
   
   // Daily limits and counters
   total_reviews: number
-  reviews_today: number
+  reviews_today: number          // Every grade, learning steps included
   new_words_today: number
+  review_cards_today: number     // Grades of cards in the review state (the daily review limit)
   last_review_date: string | null
   daily_new_limit: number
   daily_review_limit: number
@@ -161,19 +189,28 @@ export interface UserBookProgress {
   updated_at: string
 }
 
+/**
+ * FSRS algorithm version
+ * - 4.5: 17 weights, legacy same-day adjustments
+ * - 5: 19 weights, same-day reviews update stability (w17, w18)
+ */
+export type FSRSVersion = "4.5" | "5"
+
 /**
  * FSRS Parameters (configurable)
  */
 export interface FSRSParameters {
+  version: FSRSVersion          // Algorithm the weights belong to
   requestRetention: number      // Target retention rate (default: 0.9)
   maximumInterval: number       // Max days between reviews (default: 365)
-  w: number[]                   // Weight parameters for FSRS-4.5
+  w: number[]                   // Weight parameters (17 for FSRS-4.5, 19 for FSRS-5)
 }
 
 /**
  * Default FSRS parameters (FSRS-4.5)
  */
 export const DEFAULT_FSRS_PARAMS: FSRSParameters = {
+  version: "4.5",
   requestRetention: 0.9,
   maximumInterval: 365,
   // FSRS-4.5 default weights
@@ -181,20 +218,123 @@ export const DEFAULT_FSRS_PARAMS: FSRSParameters = {
 }
 
 /**
- * Learning phase steps (in minutes)
- * Users must pass through these before entering day-based scheduling
+ * Default FSRS parameters (FSRS-5)
+ */
+export const DEFAULT_FSRS5_PARAMS: FSRSParameters = {
+  version: "5",
+  requestRetention: 0.9,
+  maximumInterval: 365,
+  // FSRS-5 default weights
+  w: [
+    0.40255, 1.18385, 3.173, 15.69105, 7.1949, 0.5345, 1.4604, 0.0046, 1.54575, 0.1192,
+    1.01925, 1.9395, 0.11, 0.29605, 2.2698, 0.2315, 2.9898, 0.51655, 0.6621
+  ]
+}
+
+/**
+ * Default parameters for each FSRS version
+ */
+export const DEFAULT_FSRS_PARAMS_BY_VERSION: Record<FSRSVersion, FSRSParameters> = {
+  "4.5": DEFAULT_FSRS_PARAMS,
+  "5": DEFAULT_FSRS5_PARAMS
+}
+
+/**
+ * FSRS memory state of a card (difficulty and stability)
+ */
+export interface FSRSMemoryState {
+  difficulty: number
+  stability: number
+}
+
+/**
+ * Fitted FSRS parameters for a user (user_fsrs_params table)
+ */
+export interface UserFSRSParams {
+  id: string
+  user_id: string
+  version: FSRSVersion
+  w: number[]
+  // Fit metrics are null until the optimizer has run for this version
+  review_count: number
+  log_loss_before: number | null
+  log_loss_after: number | null
+  rmse_before: number | null
+  rmse_after: number | null
+  optimized_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * A user's study day (user_profiles table)
+ * The study day starts at day_start_hour in the user's IANA time zone; daily
+ * counters, streaks and "due today" roll over then
+ */
+export interface UserProfileSettings {
+  user_id: string
+  timezone: string        // IANA name, e.g. "Asia/Shanghai"
+  day_start_hour: number  // 0-23, local time
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * What a study day is computed from
+ */
+export type StudyDaySettings = Pick<UserProfileSettings, "timezone" | "day_start_hour">
+
+/**
+ * Input for updating the user profile
+ */
+export interface UpdateUserProfileInput {
+  timezone?: string
+  day_start_hour?: number
+}
+
+/**
+ * A logged review used to train the FSRS optimizer
  */
-export const LEARNING_STEPS: Record<FSRSRating, number> = {
-  1: 1,    // Again: 1 minute
-  2: 5,    // Hard: 5 minutes  
-  3: 10,   // Good: 10 minutes
-  4: 60    // Easy: 1 hour (skip to next step or graduate)
+export interface FSRSTrainingReview {
+  word_id: string
+  card_type: CardTemplate
+  rating: FSRSRating
+  reviewed_at: string
 }
 
 /**
- * Number of steps required to graduate from learning phase
+ * Progress of a running FSRS optimization
  */
-export const LEARNING_GRADUATION_STEPS = 2
+export interface FSRSOptimizationProgress {
+  iteration: number
+  totalIterations: number
+  logLoss: number
+}
+
+/**
+ * Result of fitting FSRS weights to a review history
+ */
+export interface FSRSOptimizationResult {
+  version: FSRSVersion
+  w: number[]
+  reviewCount: number
+  logLossBefore: number
+  logLossAfter: number
+  rmseBefore: number
+  rmseAfter: number
+}
+
+/**
+ * Default learning steps (in minutes)
+ * New words pass through these before entering day-based scheduling
+ */
+export const DEFAULT_LEARNING_STEPS = [1, 10]
+
+/**
+ * Default relearning steps (in minutes)
+ * Lapsed words pass through these before returning to day-based scheduling
+ */
+export const DEFAULT_RELEARNING_STEPS = [10]
 
 /**
  * Combined book data with user progress
@@ -270,11 +410,15 @@ export const DEFAULT_BOOK_COVER_COLOR = BOOK_COVER_COLORS[3]
  */
 export interface BookDetailStats {
   totalWords: number
-  mastered: number
+  mastered: number    // Includes words marked as known
   learning: number
   newWords: number
+  known: number       // Marked "I already know this"
+  suspended: number
+  buried: number      // Buried until a later day
   todayReview: number
   todayNew: number
+  isBacklog: boolean  // Backlog mode is holding back new words today
   estimatedMinutes: number
   streak: number
   accuracy: number
@@ -286,14 +430,35 @@ export interface BookDetailStats {
  */
 export interface WordWithProgress {
   id: string
+  book_id: string
+  card_type: CardTemplate  // The card of the word being studied
   word: string
   phonetic: string | null
   definition: string | null
+  example_sentence: string | null
   state: FSRSState
   stability: number
   due_at: string | null
   last_review_at: string | null
   lapses: number
+
+  // Scheduling state needed to grade the word in a learning session
+  difficulty: number
+  elapsed_days: number
+  reps: number
+  total_reviews: number
+  learning_step: number
+  is_learning_phase: boolean
+  scheduler_state: SchedulerState | null
+
+  // Leech handling
+  is_leech: boolean
+  is_suspended: boolean
+  note: string | null
+
+  // Parked outside of scheduling
+  is_known: boolean
+  buried_until: string | null
 }
 
 /**
@@ -304,6 +469,131 @@ export interface TodayLearningSession {
   newWords: WordWithProgress[]
   totalCount: number
   estimatedMinutes: number
+  isBacklog: boolean
+}
+
+/**
+ * How a review session across books lays out its cards
+ * - interleave: one card from each book in turn
+ * - by_book: every card of one book before the next
+ */
+export type ReviewQueueOrder = "interleave" | "by_book"
+
+/**
+ * A book's share of a review session across books
+ */
+export interface DueReviewBook {
+  book_id: string
+  name: string
+  settings: BookSettings
+  dueCount: number  // Cards of this book in the session, after its daily limits
+  isBacklog: boolean
+}
+
+/**
+ * Due cards of every book the user studies, in one session
+ * New words are left to each book's own session
+ */
+export interface DueReviewSession extends TodayLearningSession {
+  books: DueReviewBook[]
+}
+
+/**
+ * Cards a custom study session drills
+ * - leeches: cards flagged as leeches, suspended or not
+ * - lapsed: cards forgotten in review during the last few study days
+ * - tag: words carrying a tag
+ * - random: a random sample of the book
+ */
+export type CustomStudyFilter = "leeches" | "lapsed" | "tag" | "random"
+
+/**
+ * What a custom study session drills and how many cards at most
+ */
+export interface CustomStudyCriteria {
+  filter: CustomStudyFilter
+  tag: string | null  // Only used by the tag filter
+  limit: number
+}
+
+/**
+ * A card waiting in an active learning session
+ */
+export interface SessionCard {
+  word: WordWithProgress
+  dueAt: number // Epoch ms; learning cards wait until this time before reappearing
+}
+
+/**
+ * A graded card remembered so the review can be undone
+ */
+export interface SessionReview {
+  card: SessionCard  // The card as it was before grading
+  isCorrect: boolean
+  offlineReviewId?: string  // Set while the review waits in the offline queue
+  previewLogId?: string  // Set for practice logged by a custom study session
+}
+
+/**
+ * Progress fields a learning session needs after a review
+ * Saved progress from the server, or progress scheduled locally while offline
+ */
+export type SessionProgress = Pick<
+  UserWordProgress,
+  | "word_id"
+  | "state"
+  | "difficulty"
+  | "stability"
+  | "elapsed_days"
+  | "reps"
+  | "lapses"
+  | "total_reviews"
+  | "learning_step"
+  | "is_learning_phase"
+  | "last_review_at"
+  | "due_at"
+  | "scheduler_state"
+  | "is_leech"
+  | "is_suspended"
+>
+
+/**
+ * A review graded without a connection, waiting to be replayed on the server
+ */
+export interface PendingReview {
+  id: string
+  userId: string
+  wordId: string
+  bookId: string
+  cardType?: CardTemplate  // Missing on reviews queued before card templates; those are recognition
+  rating: FSRSRating
+  reviewedAt: string  // ISO timestamp of the grade
+  studyDate: string   // Study date the review counts towards (YYYY-MM-DD)
+  reviewTimeMs: number | null
+}
+
+/**
+ * Outcome of replaying pending offline reviews
+ */
+export interface OfflineSyncResult {
+  synced: number     // Applied on the server
+  dropped: number    // Rejected by the server and discarded
+  remaining: number  // Still pending (e.g. the connection dropped again)
+}
+
+/**
+ * In-memory queue driving an active learning session
+ * - queue: cards ready to study, in presentation order
+ * - learning: learning/relearning cards waiting for their minute-level due time
+ * - history: graded cards, most recent last, for undo
+ */
+export interface LearningSessionQueue {
+  queue: SessionCard[]
+  learning: SessionCard[]
+  history: SessionReview[]
+  reviewedCount: number
+  correctCount: number
+  totalCount: number
 }
 
 /**
@@ -319,8 +609,61 @@ export interface SchedulingResult {
   due_at: Date
   learning_step: number
   is_learning_phase: boolean
+  scheduler_state?: SchedulerState | null // Omitted by algorithms without extra state
+}
+
+/**
+ * Scheduling algorithm a book uses
+ */
+export type SchedulingAlgorithm = "fsrs" | "sm2" | "leitner"
+
+/**
+ * SM-2 card state
+ */
+export interface SM2State {
+  algorithm: "sm2"
+  ease: number          // E-Factor, >= 1.3
+  interval: number      // Last interval in days
+  repetitions: number   // Consecutive successful reviews
+}
+
+/**
+ * Leitner card state
+ */
+export interface LeitnerState {
+  algorithm: "leitner"
+  box: number           // 1 = reviewed most often
 }
 
+/**
+ * Algorithm-specific state stored in user_word_progress.scheduler_state
+ * Tagged with its algorithm so state left by another algorithm is ignored
+ */
+export type SchedulerState = SM2State | LeitnerState
+
+/**
+ * Progress fields a scheduler reads to grade a card
+ * word_id seeds the interval fuzz so a review can be reproduced
+ */
+export type SchedulableProgress = Pick<
+  UserWordProgress,
+  'state' | 'difficulty' | 'stability' | 'learning_step' | 'is_learning_phase' | 'last_review_at' | 'reps' | 'lapses' | 'scheduler_state'
+> & Partial<Pick<UserWordProgress, 'word_id' | 'card_type' | 'total_reviews'>>
+
+/**
+ * Reviews already due for a user on each day, keyed by local date (YYYY-MM-DD)
+ * Used to load-balance new due dates
+ */
+export type DueLoad = Map<string, number>
+
+/**
+ * Scheduling fields of a word that has never been reviewed
+ */
+export type InitialSchedulingState = Pick<
+  UserWordProgress,
+  'state' | 'difficulty' | 'stability' | 'retrievability' | 'elapsed_days' | 'scheduled_days' | 'reps' | 'lapses' | 'learning_step' | 'is_learning_phase' | 'scheduler_state'
+>
+
 /**
  * Study order type
  */
@@ -328,8 +671,197 @@ export type StudyOrder = "sequential" | "random"
 
 /**
  * Learning mode type
+ * - read_only: reveal the answer and grade yourself
+ * - spelling: type the word on recall and cloze cards
+ * - quiz: pick the answer out of four choices; the rating is derived
+ */
+export type LearningMode = "read_only" | "spelling" | "quiz"
+
+/**
+ * Card templates: the ways a word is studied, each card with its own schedule
+ * - recognition: word -> meaning
+ * - recall: meaning -> word (typed in spelling mode, picked in quiz mode)
+ * - cloze: the example sentence with the word blanked out -> word (typed in spelling mode, picked in quiz mode)
+ * - listening: the word read aloud -> typed spelling
+ */
+export type CardTemplate = "recognition" | "recall" | "cloze" | "listening"
+
+/**
+ * What happens when a word becomes a leech
+ * - flag: only mark it, it keeps coming up in sessions
+ * - suspend: mark it and leave it out of sessions until unsuspended
+ */
+export type LeechAction = "flag" | "suspend"
+
+/**
+ * Order of due reviews in a session
+ * - due: earliest due date first
+ * - retrievability: lowest predicted recall first
+ * - difficulty: hardest cards first
+ * - overdue: most overdue relative to the card's interval first
+ * - random: shuffled once per day
+ */
+export type ReviewOrder = "due" | "retrievability" | "difficulty" | "overdue" | "random"
+
+/**
+ * Flags that park a word outside of its schedule
+ * - suspended: left out of sessions until unsuspended
+ * - buried: left out of sessions until tomorrow
+ * - known: "I already know this", never studied
+ */
+export type WordFlag = "suspended" | "buried" | "known"
+
+/**
+ * Vacation mode shifts of review due dates
+ * - postpone: reviews due before the learner is back are pushed past the trip
+ * - advance: reviews due during the trip are brought forward to today
+ */
+export type DueShiftAction = "postpone" | "advance"
+
+/**
+ * One card moved by a planned shift
+ */
+export interface DueShiftItem {
+  progressId: string
+  wordId: string
+  bookId: string
+  dueBefore: string             // Exactly as stored, so the server can tell if it changed
+  dueAfter: string
+  retrievabilityBefore: number  // Predicted recall when reviewed on schedule
+  retrievabilityAfter: number   // Predicted recall when reviewed at the shifted time
+}
+
+/**
+ * Reviews due on a day before and after a change of due dates
+ * (a vacation shift or a reschedule)
+ */
+export interface WorkloadDiffDay {
+  date: string  // YYYY-MM-DD
+  before: number
+  after: number
+}
+
+/**
+ * A shift planned for preview, least affected cards first
  */
-export type LearningMode = "read_only" | "spelling"
+export interface DueShiftPlan {
+  action: DueShiftAction
+  bookId: string | null  // null for all books
+  days: number
+  candidateCount: number
+  items: DueShiftItem[]
+  workload: WorkloadDiffDay[]
+}
+
+/**
+ * A shift that was applied (due_shifts table)
+ */
+export interface DueShift {
+  id: string
+  user_id: string
+  book_id: string | null
+  action: DueShiftAction
+  days: number
+  card_count: number
+  created_at: string
+  reverted_at: string | null
+}
+
+/**
+ * Limits for the length of a shift in days
+ */
+export const MIN_DUE_SHIFT_DAYS = 1
+export const MAX_DUE_SHIFT_DAYS = 365
+
+/**
+ * One card given a new due date by a planned reschedule
+ */
+export interface RescheduleItem {
+  progressId: string
+  wordId: string
+  dueBefore: string  // Exactly as stored, so the server can tell if it changed
+  dueAfter: string
+  scheduledDaysBefore: number
+  scheduledDaysAfter: number
+}
+
+/**
+ * A reschedule of a book's review cards under its current parameters, planned for preview
+ */
+export interface ReschedulePlan {
+  bookId: string
+  cardCount: number        // Review cards examined
+  items: RescheduleItem[]  // Cards whose due date changes
+  workload: WorkloadDiffDay[]
+}
+
+/**
+ * One character of a spelling diff
+ * - match: typed correctly
+ * - wrong: typed a different character (expected holds the right one)
+ * - missing: character left out (text is empty)
+ * - extra: character that should not be there (expected is empty)
+ */
+export interface SpellingDiffSegment {
+  type: "match" | "wrong" | "missing" | "extra"
+  text: string
+  expected: string
+}
+
+/**
+ * Result of checking a typed answer in spelling mode
+ */
+export interface SpellingCheckResult {
+  isCorrect: boolean
+  distance: number              // Levenshtein edit distance
+  diff: SpellingDiffSegment[]
+  answerTimeMs: number
+  suggestedRating: FSRSRating
+}
+
+/**
+ * A book word as a quiz choice or distractor
+ */
+export interface QuizWord {
+  id: string
+  word: string
+  definition: string | null
+}
+
+/**
+ * Quiz direction
+ * - word_to_definition: the word is shown, the definition is picked (recognition cards)
+ * - definition_to_word: the definition or cloze sentence is shown, the word is picked
+ */
+export type QuizDirection = "word_to_definition" | "definition_to_word"
+
+/**
+ * One of the candidate answers of a quiz question
+ */
+export interface QuizChoice {
+  wordId: string
+  text: string
+}
+
+/**
+ * Multiple-choice question for a card in quiz mode
+ */
+export interface QuizQuestion {
+  direction: QuizDirection
+  prompt: string
+  choices: QuizChoice[]
+  answerIndex: number
+}
+
+/**
+ * Result of answering a quiz question
+ */
+export interface QuizAnswerResult {
+  isCorrect: boolean
+  choiceIndex: number
+  answerTimeMs: number
+  suggestedRating: FSRSRating
+}
 
 /**
  * Book settings - user-specific settings for vocabulary books
@@ -341,11 +873,29 @@ export interface BookSettings {
   daily_new_limit: number
   daily_review_limit: number
   learning_mode: LearningMode
+  card_templates: CardTemplate[]  // Cards studied for each word, at least one
   study_order: StudyOrder
+  scheduling_algorithm: SchedulingAlgorithm
+  learning_steps: number[]     // Minutes, e.g. [1, 10, 60, 1440]
+  relearning_steps: number[]   // Minutes
+  desired_retention: number    // Target probability of recall at review time (0.70-0.99)
+  maximum_interval: number     // Max days between reviews
+  load_balancing: boolean      // Fuzz towards the day with the fewest reviews due
+  leech_threshold: number      // Lapses after which a word is a leech
+  leech_action: LeechAction
+  review_order: ReviewOrder
+  backlog_mode: boolean          // Cap reviews and pause new words while the backlog is large
+  backlog_review_limit: number   // Daily review cap while in backlog
+  backlog_threshold: number      // Overdue reviews at which the backlog starts
   created_at: string
   updated_at: string
 }
 
+/**
+ * Step settings a scheduler needs from a book
+ */
+export type LearningStepSettings = Pick<BookSettings, "learning_steps" | "relearning_steps">
+
 /**
  * Default book settings
  */
@@ -353,9 +903,69 @@ export const DEFAULT_BOOK_SETTINGS: Omit<BookSettings, "id" | "user_id" | "book_
   daily_new_limit: 20,
   daily_review_limit: 60, // 3x of daily_new_limit
   learning_mode: "read_only",
-  study_order: "sequential"
+  card_templates: ["recognition"],
+  study_order: "sequential",
+  scheduling_algorithm: "fsrs",
+  learning_steps: DEFAULT_LEARNING_STEPS,
+  relearning_steps: DEFAULT_RELEARNING_STEPS,
+  desired_retention: DEFAULT_FSRS_PARAMS.requestRetention,
+  maximum_interval: DEFAULT_FSRS_PARAMS.maximumInterval,
+  load_balancing: false,
+  leech_threshold: 8,
+  leech_action: "flag",
+  review_order: "due",
+  backlog_mode: false,
+  backlog_review_limit: 50,
+  backlog_threshold: 30
 }
 
+/**
+ * Allowed range of desired retention in book settings
+ */
+export const MIN_DESIRED_RETENTION = 0.7
+export const MAX_DESIRED_RETENTION = 0.99
+
+/**
+ * Allowed range of maximum interval (days) in book settings
+ */
+export const MIN_MAXIMUM_INTERVAL = 1
+export const MAX_MAXIMUM_INTERVAL = 36500
+
+/**
+ * Allowed range of the leech threshold (lapses) in book settings
+ */
+export const MIN_LEECH_THRESHOLD = 1
+export const MAX_LEECH_THRESHOLD = 99
+
+/**
+ * Allowed ranges of the backlog mode settings
+ */
+export const MIN_BACKLOG_REVIEW_LIMIT = 1
+export const MAX_BACKLOG_REVIEW_LIMIT = 1000
+export const MIN_BACKLOG_THRESHOLD = 1
+export const MAX_BACKLOG_THRESHOLD = 10000
+
+/**
+ * Hour the study day starts at until the user picks another,
+ * so late-night study still counts for the day before
+ */
+export const DEFAULT_DAY_START_HOUR = 4
+export const MIN_DAY_START_HOUR = 0
+export const MAX_DAY_START_HOUR = 23
+
+/**
+ * Custom study: cards per session and how far back lapses are looked for
+ */
+export const DEFAULT_CUSTOM_STUDY_LIMIT = 50
+export const MIN_CUSTOM_STUDY_LIMIT = 1
+export const MAX_CUSTOM_STUDY_LIMIT = 200
+export const CUSTOM_STUDY_LAPSE_DAYS = 7
+
+/**
+ * Every card template, in the order a word's cards are introduced
+ */
+export const CARD_TEMPLATES: CardTemplate[] = ["recognition", "recall", "cloze", "listening"]
+
 /**
  * Update book settings input
  */
@@ -363,5 +973,18 @@ export interface UpdateBookSettingsInput {
   daily_new_limit?: number
   daily_review_limit?: number
   learning_mode?: LearningMode
+  card_templates?: CardTemplate[]
   study_order?: StudyOrder
+  scheduling_algorithm?: SchedulingAlgorithm
+  learning_steps?: number[]
+  relearning_steps?: number[]
+  desired_retention?: number
+  maximum_interval?: number
+  load_balancing?: boolean
+  leech_threshold?: number
+  leech_action?: LeechAction
+  review_order?: ReviewOrder
+  backlog_mode?: boolean
+  backlog_review_limit?: number
+  backlog_threshold?: number
 }
@@ -35,3 +35,47 @@ export function withDelay<T>(data: T, delayMs: number = 500): Promise<T> {
   })
 }
 
+
+/**
+ * Hash a string to a 32-bit unsigned integer (FNV-1a)
+ * Useful as a stable seed for createSeededRandom
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Create a deterministic pseudo-random generator (mulberry32)
+ * Returns a function yielding numbers in [0, 1), like Math.random
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Shuffle a copy of an array with a seeded generator (Fisher-Yates)
+ * The same seed always produces the same order
+ */
+export function seededShuffle<T>(items: readonly T[], seed: number): T[] {
+  const random = createSeededRandom(seed)
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    const temp = result[i]
+    result[i] = result[j]
+    result[j] = temp
+  }
+  return result
+}
@@ -0,0 +1,29 @@
+/**
+ * FSRS Optimizer Worker
+ * Runs the FSRS parameter fitting off the main thread
+ */
+
+import { optimizeParams } from "../services/fsrs-optimizer"
+import { setStudyDaySettings } from "../services/study-day"
+import type { FSRSOptimizerRequest, FSRSOptimizerResponse } from "../services/fsrs-optimizer"
+
+const worker = self as unknown as Worker
+
+/**
+ * Post a typed message back to the main thread
+ */
+function respond(message: FSRSOptimizerResponse): void {
+  worker.postMessage(message)
+}
+
+worker.addEventListener("message", (event: MessageEvent<FSRSOptimizerRequest>) => {
+  try {
+    setStudyDaySettings(event.data.studyDay)
+    const result = optimizeParams(event.data.reviews, event.data.params, {
+      onProgress: (progress) => respond({ type: "progress", progress })
+    })
+    respond({ type: "result", result })
+  } catch (err) {
+    respond({ type: "error", message: err instanceof Error ? err.message : "Optimization failed" })
+  }
+})
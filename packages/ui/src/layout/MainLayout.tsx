@@ -1,5 +1,6 @@
 import React from "react"
 import { motion } from "framer-motion"
+import { useAuth, useUserProfile } from "@ace-ielts/core"
 import { Header } from "./Header"
 import { Sidebar } from "./Sidebar"
 
@@ -12,12 +13,16 @@ interface MainLayoutProps {
 /**
  * Main layout component combining sidebar, header, and content area
  * Follows the design system's layout specifications with Framer Motion animations
+ * Also loads the user's profile so every page counts days in their study day
  */
 export function MainLayout({
   children,
   activeNav = "dashboard",
   onNavigate
 }: MainLayoutProps) {
+  const { user } = useAuth()
+  useUserProfile({ userId: user?.id ?? null })
+
   return (
     <div className="flex h-screen bg-neutral-background">
       {/* Sidebar */}
@@ -3,14 +3,39 @@
  * Modal dialog for configuring vocabulary book learning settings
  */
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { motion, AnimatePresence } from "framer-motion"
 import { Settings, Loader2, AlertCircle, X } from "lucide-react"
 import {
   useTranslation,
   useBookSettings,
+  useFSRSParams,
+  createFSRSScheduler,
+  toFSRSParameters,
+  estimateDailyWorkload,
+  parseLearningSteps,
+  formatLearningSteps,
+  DEFAULT_LEARNING_STEPS,
+  DEFAULT_RELEARNING_STEPS,
+  DEFAULT_BOOK_SETTINGS,
+  MIN_DESIRED_RETENTION,
+  MAX_DESIRED_RETENTION,
+  MIN_MAXIMUM_INTERVAL,
+  MAX_MAXIMUM_INTERVAL,
+  MIN_LEECH_THRESHOLD,
+  MAX_LEECH_THRESHOLD,
+  MIN_BACKLOG_REVIEW_LIMIT,
+  MAX_BACKLOG_REVIEW_LIMIT,
+  MIN_BACKLOG_THRESHOLD,
+  MAX_BACKLOG_THRESHOLD,
+  CARD_TEMPLATES,
+  isTypedCard,
+  type CardTemplate,
+  type ReviewOrder,
   type StudyOrder,
-  type LearningMode
+  type LearningMode,
+  type LeechAction,
+  type SchedulingAlgorithm
 } from "@ace-ielts/core"
 
 import {
@@ -21,6 +46,7 @@ import {
   DialogDescription,
   DialogFooter,
   Button,
+  Checkbox,
   Input,
   Label,
   ToggleGroup,
@@ -56,12 +82,26 @@ export function BookSettingsDialog({
     bookId,
     enabled: open
   })
+  const { params: userFSRSParams } = useFSRSParams({ userId, enabled: open })
 
   // Form state (local until submitted)
   const [dailyNewLimit, setDailyNewLimit] = useState(20)
   const [dailyReviewLimit, setDailyReviewLimit] = useState(60)
   const [learningMode, setLearningMode] = useState<LearningMode>("read_only")
+  const [cardTemplates, setCardTemplates] = useState<CardTemplate[]>(DEFAULT_BOOK_SETTINGS.card_templates)
   const [studyOrder, setStudyOrder] = useState<StudyOrder>("sequential")
+  const [schedulingAlgorithm, setSchedulingAlgorithm] = useState<SchedulingAlgorithm>("fsrs")
+  const [learningSteps, setLearningSteps] = useState(formatLearningSteps(DEFAULT_LEARNING_STEPS))
+  const [relearningSteps, setRelearningSteps] = useState(formatLearningSteps(DEFAULT_RELEARNING_STEPS))
+  const [desiredRetention, setDesiredRetention] = useState(DEFAULT_BOOK_SETTINGS.desired_retention)
+  const [maximumInterval, setMaximumInterval] = useState(DEFAULT_BOOK_SETTINGS.maximum_interval)
+  const [loadBalancing, setLoadBalancing] = useState(DEFAULT_BOOK_SETTINGS.load_balancing)
+  const [leechThreshold, setLeechThreshold] = useState(DEFAULT_BOOK_SETTINGS.leech_threshold)
+  const [leechAction, setLeechAction] = useState<LeechAction>(DEFAULT_BOOK_SETTINGS.leech_action)
+  const [reviewOrder, setReviewOrder] = useState<ReviewOrder>(DEFAULT_BOOK_SETTINGS.review_order)
+  const [backlogMode, setBacklogMode] = useState(DEFAULT_BOOK_SETTINGS.backlog_mode)
+  const [backlogReviewLimit, setBacklogReviewLimit] = useState(DEFAULT_BOOK_SETTINGS.backlog_review_limit)
+  const [backlogThreshold, setBacklogThreshold] = useState(DEFAULT_BOOK_SETTINGS.backlog_threshold)
   const [error, setError] = useState<string | null>(null)
 
   // Sync form state with fetched settings
@@ -70,10 +110,74 @@ export function BookSettingsDialog({
       setDailyNewLimit(settings.daily_new_limit)
       setDailyReviewLimit(settings.daily_review_limit)
       setLearningMode(settings.learning_mode)
+      setCardTemplates(settings.card_templates)
       setStudyOrder(settings.study_order)
+      setSchedulingAlgorithm(settings.scheduling_algorithm)
+      setLearningSteps(formatLearningSteps(settings.learning_steps))
+      setRelearningSteps(formatLearningSteps(settings.relearning_steps))
+      setDesiredRetention(settings.desired_retention)
+      setMaximumInterval(settings.maximum_interval)
+      setLoadBalancing(settings.load_balancing)
+      setLeechThreshold(settings.leech_threshold)
+      setLeechAction(settings.leech_action)
+      setReviewOrder(settings.review_order)
+      setBacklogMode(settings.backlog_mode)
+      setBacklogReviewLimit(settings.backlog_review_limit)
+      setBacklogThreshold(settings.backlog_threshold)
     }
   }, [settings])
 
+  // Parsed step lists (null while the input is invalid)
+  const parsedLearningSteps = useMemo(() => parseLearningSteps(learningSteps), [learningSteps])
+  const parsedRelearningSteps = useMemo(() => parseLearningSteps(relearningSteps), [relearningSteps])
+  const isRetentionValid = desiredRetention >= MIN_DESIRED_RETENTION && desiredRetention <= MAX_DESIRED_RETENTION
+  const isIntervalValid = Number.isInteger(maximumInterval)
+    && maximumInterval >= MIN_MAXIMUM_INTERVAL
+    && maximumInterval <= MAX_MAXIMUM_INTERVAL
+
+  // Estimated daily workload with the settings being edited (FSRS only)
+  const workload = useMemo(() => {
+    if (schedulingAlgorithm !== "fsrs" || !isRetentionValid || !isIntervalValid) return null
+    if (!parsedLearningSteps || !parsedRelearningSteps) return null
+
+    const scheduler = createFSRSScheduler(
+      {
+        learning_steps: parsedLearningSteps,
+        relearning_steps: parsedRelearningSteps,
+        desired_retention: desiredRetention,
+        maximum_interval: maximumInterval
+      },
+      toFSRSParameters(userFSRSParams)
+    )
+    return estimateDailyWorkload(scheduler, { newPerDay: dailyNewLimit })
+  }, [
+    schedulingAlgorithm,
+    isRetentionValid,
+    isIntervalValid,
+    parsedLearningSteps,
+    parsedRelearningSteps,
+    desiredRetention,
+    maximumInterval,
+    dailyNewLimit,
+    userFSRSParams
+  ])
+
+  // Turn a card template on or off, keeping template order
+  const handleTemplateChange = (template: CardTemplate, enabled: boolean) => {
+    setCardTemplates((prev) =>
+      CARD_TEMPLATES.filter((value) => (value === template ? enabled : prev.includes(value)))
+    )
+  }
+
+  // Spelling mode types recall, cloze and listening cards; with only recognition
+  // enabled it would have nothing to type, so recall is turned on
+  const handleLearningModeChange = (mode: LearningMode) => {
+    setLearningMode(mode)
+    if (mode === "spelling" && !cardTemplates.some((template) => isTypedCard(template, mode))) {
+      handleTemplateChange("recall", true)
+    }
+  }
+
   // Auto-update review limit when new limit changes (3x multiplier)
   const handleNewLimitChange = (value: string) => {
     const numValue = parseInt(value, 10)
@@ -104,12 +208,85 @@ export function BookSettingsDialog({
       return
     }
 
+    if (cardTemplates.length === 0) {
+      setError(t("vocabulary.settings.errors.noCardTemplates"))
+      return
+    }
+
+    if (learningMode === "spelling" && !cardTemplates.some((template) => isTypedCard(template, learningMode))) {
+      setError(t("vocabulary.settings.errors.noTypedCardTemplate"))
+      return
+    }
+
+    if (!parsedLearningSteps || !parsedRelearningSteps) {
+      setError(t("vocabulary.settings.errors.invalidSteps"))
+      return
+    }
+
+    if (!isRetentionValid) {
+      setError(t("vocabulary.settings.errors.invalidRetention", {
+        min: MIN_DESIRED_RETENTION,
+        max: MAX_DESIRED_RETENTION
+      }))
+      return
+    }
+
+    if (!isIntervalValid) {
+      setError(t("vocabulary.settings.errors.invalidMaximumInterval", {
+        min: MIN_MAXIMUM_INTERVAL,
+        max: MAX_MAXIMUM_INTERVAL
+      }))
+      return
+    }
+
+    if (
+      !Number.isInteger(leechThreshold)
+      || leechThreshold < MIN_LEECH_THRESHOLD
+      || leechThreshold > MAX_LEECH_THRESHOLD
+    ) {
+      setError(t("vocabulary.settings.errors.invalidLeechThreshold", {
+        min: MIN_LEECH_THRESHOLD,
+        max: MAX_LEECH_THRESHOLD
+      }))
+      return
+    }
+
+    if (
+      !Number.isInteger(backlogReviewLimit)
+      || backlogReviewLimit < MIN_BACKLOG_REVIEW_LIMIT
+      || backlogReviewLimit > MAX_BACKLOG_REVIEW_LIMIT
+      || !Number.isInteger(backlogThreshold)
+      || backlogThreshold < MIN_BACKLOG_THRESHOLD
+      || backlogThreshold > MAX_BACKLOG_THRESHOLD
+    ) {
+      setError(t("vocabulary.settings.errors.invalidBacklog", {
+        minLimit: MIN_BACKLOG_REVIEW_LIMIT,
+        maxLimit: MAX_BACKLOG_REVIEW_LIMIT,
+        minThreshold: MIN_BACKLOG_THRESHOLD,
+        maxThreshold: MAX_BACKLOG_THRESHOLD
+      }))
+      return
+    }
+
     try {
       await updateSettings({
         daily_new_limit: dailyNewLimit,
         daily_review_limit: dailyReviewLimit,
         learning_mode: learningMode,
-        study_order: studyOrder
+        card_templates: cardTemplates,
+        study_order: studyOrder,
+        scheduling_algorithm: schedulingAlgorithm,
+        learning_steps: parsedLearningSteps,
+        relearning_steps: parsedRelearningSteps,
+        desired_retention: desiredRetention,
+        maximum_interval: maximumInterval,
+        load_balancing: loadBalancing,
+        leech_threshold: leechThreshold,
+        leech_action: leechAction,
+        review_order: reviewOrder,
+        backlog_mode: backlogMode,
+        backlog_review_limit: backlogReviewLimit,
+        backlog_threshold: backlogThreshold
       })
 
       // Close dialog and notify parent
@@ -228,7 +405,7 @@ export function BookSettingsDialog({
                 type="single"
                 value={learningMode}
                 onValueChange={(value) => {
-                  if (value) setLearningMode(value as LearningMode)
+                  if (value) handleLearningModeChange(value as LearningMode)
                 }}
                 disabled={isUpdating}
                 className="w-full"
@@ -239,14 +416,51 @@ export function BookSettingsDialog({
                 <ToggleGroupItem value="spelling" aria-label="Spelling">
                   {t("vocabulary.settings.spelling")}
                 </ToggleGroupItem>
+                <ToggleGroupItem value="quiz" aria-label="Quiz">
+                  {t("vocabulary.settings.quiz")}
+                </ToggleGroupItem>
               </ToggleGroup>
               <p className="text-xs text-text-tertiary">
                 {learningMode === "read_only" 
                   ? t("vocabulary.settings.readOnlyHint")
-                  : t("vocabulary.settings.spellingHint")}
+                  : learningMode === "spelling"
+                    ? t("vocabulary.settings.spellingHint")
+                    : t("vocabulary.settings.quizHint")}
               </p>
             </div>
 
+            {/* Card Templates */}
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <h3 className="text-sm font-semibold text-text-primary">
+                  {t("vocabulary.settings.cardTemplates")}
+                </h3>
+                <p className="text-xs text-text-tertiary">
+                  {t("vocabulary.settings.cardTemplatesHint")}
+                </p>
+              </div>
+
+              {CARD_TEMPLATES.map((template) => (
+                <div key={template} className="flex items-start gap-3">
+                  <Checkbox
+                    id={`card-template-${template}`}
+                    checked={cardTemplates.includes(template)}
+                    onCheckedChange={(checked) => handleTemplateChange(template, checked === true)}
+                    disabled={isUpdating}
+                    className="mt-0.5"
+                  />
+                  <div className="space-y-1">
+                    <Label htmlFor={`card-template-${template}`}>
+                      {t(`vocabulary.cardTemplates.${template}`)}
+                    </Label>
+                    <p className="text-xs text-text-tertiary">
+                      {t(`vocabulary.settings.cardTemplateHints.${template}`)}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+
             {/* Study Order */}
             <div className="space-y-4">
               <h3 className="text-sm font-semibold text-text-primary">
@@ -274,6 +488,343 @@ export function BookSettingsDialog({
               </p>
             </div>
 
+            {/* Review Order */}
+            <div className="space-y-4">
+              <h3 className="text-sm font-semibold text-text-primary">
+                {t("vocabulary.settings.reviewOrder")}
+              </h3>
+
+              <ToggleGroup
+                type="single"
+                value={reviewOrder}
+                onValueChange={(value) => {
+                  if (value) setReviewOrder(value as ReviewOrder)
+                }}
+                disabled={isUpdating}
+                className="w-full flex-wrap"
+              >
+                {(["due", "retrievability", "difficulty", "overdue", "random"] as ReviewOrder[]).map((order) => (
+                  <ToggleGroupItem key={order} value={order} aria-label={order}>
+                    {t(`vocabulary.settings.reviewOrders.${order}`)}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              <p className="text-xs text-text-tertiary">
+                {t(`vocabulary.settings.reviewOrderHints.${reviewOrder}`)}
+              </p>
+            </div>
+
+            {/* Scheduling Algorithm */}
+            <div className="space-y-4">
+              <h3 className="text-sm font-semibold text-text-primary">
+                {t("vocabulary.settings.schedulingAlgorithm")}
+              </h3>
+
+              <ToggleGroup
+                type="single"
+                value={schedulingAlgorithm}
+                onValueChange={(value) => {
+                  if (value) setSchedulingAlgorithm(value as SchedulingAlgorithm)
+                }}
+                disabled={isUpdating}
+                className="w-full"
+              >
+                <ToggleGroupItem value="fsrs" aria-label="FSRS">
+                  {t("vocabulary.settings.algorithms.fsrs")}
+                </ToggleGroupItem>
+                <ToggleGroupItem value="sm2" aria-label="SM-2">
+                  {t("vocabulary.settings.algorithms.sm2")}
+                </ToggleGroupItem>
+                <ToggleGroupItem value="leitner" aria-label="Leitner">
+                  {t("vocabulary.settings.algorithms.leitner")}
+                </ToggleGroupItem>
+              </ToggleGroup>
+              <p className="text-xs text-text-tertiary">
+                {t(`vocabulary.settings.algorithmHints.${schedulingAlgorithm}`)}
+              </p>
+            </div>
+
+            {/* Retention and Intervals */}
+            <div className="space-y-4">
+              <h3 className="text-sm font-semibold text-text-primary">
+                {t("vocabulary.settings.retentionAndIntervals")}
+              </h3>
+
+              {/* Desired Retention (FSRS only) */}
+              {schedulingAlgorithm === "fsrs" && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-4">
+                    <Label htmlFor="desired-retention" required className="min-w-[140px]">
+                      {t("vocabulary.settings.desiredRetention")}
+                    </Label>
+                    <Input
+                      id="desired-retention"
+                      type="number"
+                      min={MIN_DESIRED_RETENTION}
+                      max={MAX_DESIRED_RETENTION}
+                      step="0.01"
+                      value={desiredRetention}
+                      onChange={(e) => {
+                        const numValue = parseFloat(e.target.value)
+                        if (!isNaN(numValue)) setDesiredRetention(numValue)
+                      }}
+                      disabled={isUpdating}
+                      className="flex-1"
+                    />
+                  </div>
+                  <div className="flex gap-4">
+                    <div className="min-w-[140px]"></div>
+                    <p className="text-xs text-text-tertiary flex-1">
+                      {t("vocabulary.settings.desiredRetentionHint")}
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              {/* Maximum Interval */}
+              <div className="space-y-2">
+                <div className="flex items-center gap-4">
+                  <Label htmlFor="maximum-interval" required className="min-w-[140px]">
+                    {t("vocabulary.settings.maximumInterval")}
+                  </Label>
+                  <Input
+                    id="maximum-interval"
+                    type="number"
+                    min={MIN_MAXIMUM_INTERVAL}
+                    max={MAX_MAXIMUM_INTERVAL}
+                    value={maximumInterval}
+                    onChange={(e) => {
+                      const numValue = parseInt(e.target.value, 10)
+                      if (!isNaN(numValue) && numValue > 0) setMaximumInterval(numValue)
+                    }}
+                    disabled={isUpdating}
+                    className="flex-1"
+                  />
+                </div>
+                <div className="flex gap-4">
+                  <div className="min-w-[140px]"></div>
+                  <p className="text-xs text-text-tertiary flex-1">
+                    {t("vocabulary.settings.maximumIntervalHint")}
+                  </p>
+                </div>
+              </div>
+
+              {/* Load Balancing (FSRS only) */}
+              {schedulingAlgorithm === "fsrs" && (
+                <div className="flex items-start gap-3">
+                  <Checkbox
+                    id="load-balancing"
+                    checked={loadBalancing}
+                    onCheckedChange={(checked) => setLoadBalancing(checked === true)}
+                    disabled={isUpdating}
+                    className="mt-0.5"
+                  />
+                  <div className="space-y-1">
+                    <Label htmlFor="load-balancing">
+                      {t("vocabulary.settings.loadBalancing")}
+                    </Label>
+                    <p className="text-xs text-text-tertiary">
+                      {t("vocabulary.settings.loadBalancingHint")}
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              {/* Estimated Workload */}
+              {workload && (
+                <div className="rounded-lg bg-neutral-background p-3 text-sm">
+                  <p className="text-text-primary font-medium">
+                    {t("vocabulary.settings.estimatedWorkload", { count: workload.reviewsPerDay })}
+                  </p>
+                  <p className="text-xs text-text-tertiary mt-1">
+                    {t("vocabulary.settings.estimatedWorkloadHint", {
+                      newCount: workload.newPerDay,
+                      days: workload.days
+                    })}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Learning Steps */}
+            <div className="space-y-4">
+              <h3 className="text-sm font-semibold text-text-primary">
+                {t("vocabulary.settings.steps")}
+              </h3>
+
+              {/* New word steps */}
+              <div className="space-y-2">
+                <div className="flex items-center gap-4">
+                  <Label htmlFor="learning-steps" required className="min-w-[140px]">
+                    {t("vocabulary.settings.learningSteps")}
+                  </Label>
+                  <Input
+                    id="learning-steps"
+                    value={learningSteps}
+                    onChange={(e) => setLearningSteps(e.target.value)}
+                    placeholder="1m 10m"
+                    disabled={isUpdating}
+                    aria-invalid={!parsedLearningSteps}
+                    className={parsedLearningSteps ? "flex-1" : "flex-1 border-red-500"}
+                  />
+                </div>
+                <div className="flex gap-4">
+                  <div className="min-w-[140px]"></div>
+                  <p className={parsedLearningSteps ? "text-xs text-text-tertiary flex-1" : "text-xs text-red-600 flex-1"}>
+                    {parsedLearningSteps
+                      ? t("vocabulary.settings.learningStepsHint")
+                      : t("vocabulary.settings.errors.invalidSteps")}
+                  </p>
+                </div>
+              </div>
+
+              {/* Lapsed word steps */}
+              <div className="space-y-2">
+                <div className="flex items-center gap-4">
+                  <Label htmlFor="relearning-steps" required className="min-w-[140px]">
+                    {t("vocabulary.settings.relearningSteps")}
+                  </Label>
+                  <Input
+                    id="relearning-steps"
+                    value={relearningSteps}
+                    onChange={(e) => setRelearningSteps(e.target.value)}
+                    placeholder="10m"
+                    disabled={isUpdating}
+                    aria-invalid={!parsedRelearningSteps}
+                    className={parsedRelearningSteps ? "flex-1" : "flex-1 border-red-500"}
+                  />
+                </div>
+                <div className="flex gap-4">
+                  <div className="min-w-[140px]"></div>
+                  <p className={parsedRelearningSteps ? "text-xs text-text-tertiary flex-1" : "text-xs text-red-600 flex-1"}>
+                    {parsedRelearningSteps
+                      ? t("vocabulary.settings.relearningStepsHint")
+                      : t("vocabulary.settings.errors.invalidSteps")}
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            {/* Leeches */}
+            <div className="space-y-4">
+              <h3 className="text-sm font-semibold text-text-primary">
+                {t("vocabulary.settings.leeches")}
+              </h3>
+
+              <div className="space-y-2">
+                <div className="flex items-center gap-4">
+                  <Label htmlFor="leech-threshold" required className="min-w-[140px]">
+                    {t("vocabulary.settings.leechThreshold")}
+                  </Label>
+                  <Input
+                    id="leech-threshold"
+                    type="number"
+                    min={MIN_LEECH_THRESHOLD}
+                    max={MAX_LEECH_THRESHOLD}
+                    value={leechThreshold}
+                    onChange={(e) => {
+                      const numValue = parseInt(e.target.value, 10)
+                      if (!isNaN(numValue) && numValue > 0) setLeechThreshold(numValue)
+                    }}
+                    disabled={isUpdating}
+                    className="flex-1"
+                  />
+                </div>
+                <div className="flex gap-4">
+                  <div className="min-w-[140px]"></div>
+                  <p className="text-xs text-text-tertiary flex-1">
+                    {t("vocabulary.settings.leechThresholdHint")}
+                  </p>
+                </div>
+              </div>
+
+              <ToggleGroup
+                type="single"
+                value={leechAction}
+                onValueChange={(value) => {
+                  if (value) setLeechAction(value as LeechAction)
+                }}
+                disabled={isUpdating}
+                className="w-full"
+              >
+                <ToggleGroupItem value="flag" aria-label="Flag only">
+                  {t("vocabulary.settings.leechActions.flag")}
+                </ToggleGroupItem>
+                <ToggleGroupItem value="suspend" aria-label="Suspend">
+                  {t("vocabulary.settings.leechActions.suspend")}
+                </ToggleGroupItem>
+              </ToggleGroup>
+              <p className="text-xs text-text-tertiary">
+                {t(`vocabulary.settings.leechActionHints.${leechAction}`)}
+              </p>
+            </div>
+
+            {/* Backlog Mode */}
+            <div className="space-y-4">
+              <h3 className="text-sm font-semibold text-text-primary">
+                {t("vocabulary.settings.backlog")}
+              </h3>
+
+              <div className="flex items-start gap-3">
+                <Checkbox
+                  id="backlog-mode"
+                  checked={backlogMode}
+                  onCheckedChange={(checked) => setBacklogMode(checked === true)}
+                  disabled={isUpdating}
+                  className="mt-0.5"
+                />
+                <div className="space-y-1">
+                  <Label htmlFor="backlog-mode">
+                    {t("vocabulary.settings.backlogMode")}
+                  </Label>
+                  <p className="text-xs text-text-tertiary">
+                    {t("vocabulary.settings.backlogModeHint")}
+                  </p>
+                </div>
+              </div>
+
+              {backlogMode && (
+                <>
+                  <div className="flex items-center gap-4">
+                    <Label htmlFor="backlog-threshold" required className="min-w-[140px]">
+                      {t("vocabulary.settings.backlogThreshold")}
+                    </Label>
+                    <Input
+                      id="backlog-threshold"
+                      type="number"
+                      min={MIN_BACKLOG_THRESHOLD}
+                      max={MAX_BACKLOG_THRESHOLD}
+                      value={backlogThreshold}
+                      onChange={(e) => {
+                        const numValue = parseInt(e.target.value, 10)
+                        if (!isNaN(numValue) && numValue > 0) setBacklogThreshold(numValue)
+                      }}
+                      disabled={isUpdating}
+                      className="flex-1"
+                    />
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <Label htmlFor="backlog-review-limit" required className="min-w-[140px]">
+                      {t("vocabulary.settings.backlogReviewLimit")}
+                    </Label>
+                    <Input
+                      id="backlog-review-limit"
+                      type="number"
+                      min={MIN_BACKLOG_REVIEW_LIMIT}
+                      max={MAX_BACKLOG_REVIEW_LIMIT}
+                      value={backlogReviewLimit}
+                      onChange={(e) => {
+                        const numValue = parseInt(e.target.value, 10)
+                        if (!isNaN(numValue) && numValue > 0) setBacklogReviewLimit(numValue)
+                      }}
+                      disabled={isUpdating}
+                      className="flex-1"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+
               {/* Error Message */}
               <AnimatePresence>
                 {error && (
@@ -0,0 +1,182 @@
+/**
+ * Custom Study Dialog
+ * Build a cram session over a subset of a book (leeches, recent lapses, a tag or
+ * a random sample), practised in preview so the schedule is left alone
+ */
+
+import { useEffect, useState } from "react"
+import { AlertCircle, Dumbbell } from "lucide-react"
+import {
+  useTranslation,
+  useNavigation,
+  useBookTags,
+  getCustomStudyPath,
+  DEFAULT_CUSTOM_STUDY_LIMIT,
+  MIN_CUSTOM_STUDY_LIMIT,
+  MAX_CUSTOM_STUDY_LIMIT,
+  CUSTOM_STUDY_LAPSE_DAYS,
+  type CustomStudyFilter
+} from "@ace-ielts/core"
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  Button,
+  Input,
+  Label,
+  ToggleGroup,
+  ToggleGroupItem
+} from "../../components"
+
+interface CustomStudyDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  bookId: string
+}
+
+const FILTERS: CustomStudyFilter[] = ["leeches", "lapsed", "tag", "random"]
+
+export function CustomStudyDialog({ open, onOpenChange, bookId }: CustomStudyDialogProps) {
+  const { t } = useTranslation()
+  const navigation = useNavigation()
+  const { tags } = useBookTags({ bookId, enabled: open })
+
+  // Form state
+  const [filter, setFilter] = useState<CustomStudyFilter>("leeches")
+  const [tag, setTag] = useState<string | null>(null)
+  const [limit, setLimit] = useState(DEFAULT_CUSTOM_STUDY_LIMIT)
+  const [error, setError] = useState<string | null>(null)
+
+  // Start from a clean form every time
+  useEffect(() => {
+    if (open) {
+      setFilter("leeches")
+      setTag(null)
+      setLimit(DEFAULT_CUSTOM_STUDY_LIMIT)
+      setError(null)
+    }
+  }, [open])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (!Number.isInteger(limit) || limit < MIN_CUSTOM_STUDY_LIMIT || limit > MAX_CUSTOM_STUDY_LIMIT) {
+      setError(t("vocabulary.customStudy.errors.invalidLimit", { min: MIN_CUSTOM_STUDY_LIMIT, max: MAX_CUSTOM_STUDY_LIMIT }))
+      return
+    }
+
+    if (filter === "tag" && !tag) {
+      setError(t("vocabulary.customStudy.errors.noTag"))
+      return
+    }
+
+    onOpenChange(false)
+    navigation.navigate(getCustomStudyPath(bookId, { filter, tag: filter === "tag" ? tag : null, limit }))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Dumbbell className="h-5 w-5 text-primary" />
+            {t("vocabulary.customStudy.title")}
+          </DialogTitle>
+          <DialogDescription>
+            {t("vocabulary.customStudy.description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6 mt-4">
+          {/* Filter */}
+          <div className="space-y-2">
+            <Label>{t("vocabulary.customStudy.filter")}</Label>
+            <ToggleGroup
+              type="single"
+              value={filter}
+              onValueChange={(value) => {
+                if (value) setFilter(value as CustomStudyFilter)
+              }}
+              className="flex-wrap justify-start"
+            >
+              {FILTERS.map((value) => (
+                <ToggleGroupItem key={value} value={value}>
+                  {t(`vocabulary.customStudy.filters.${value}`)}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <p className="text-xs text-text-tertiary">
+              {t(`vocabulary.customStudy.filterHints.${filter}`, { days: CUSTOM_STUDY_LAPSE_DAYS })}
+            </p>
+          </div>
+
+          {/* Tag */}
+          {filter === "tag" && (
+            <div className="space-y-2">
+              <Label required>{t("vocabulary.customStudy.tag")}</Label>
+              {tags.length > 0 ? (
+                <ToggleGroup
+                  type="single"
+                  value={tag ?? ""}
+                  onValueChange={(value) => setTag(value || null)}
+                  className="flex-wrap justify-start"
+                >
+                  {tags.map((value) => (
+                    <ToggleGroupItem key={value} value={value}>
+                      {value}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              ) : (
+                <p className="text-sm text-text-secondary">{t("vocabulary.customStudy.noTags")}</p>
+              )}
+            </div>
+          )}
+
+          {/* Card Limit */}
+          <div className="flex items-center gap-4">
+            <Label htmlFor="custom-study-limit" required className="min-w-[140px]">
+              {t("vocabulary.customStudy.limit")}
+            </Label>
+            <Input
+              id="custom-study-limit"
+              type="number"
+              min={MIN_CUSTOM_STUDY_LIMIT}
+              max={MAX_CUSTOM_STUDY_LIMIT}
+              value={limit}
+              onChange={(e) => setLimit(parseInt(e.target.value, 10))}
+              className="flex-1"
+            />
+          </div>
+
+          <p className="text-sm text-text-secondary p-3 rounded-lg bg-neutral-background border border-neutral-border">
+            {t("vocabulary.customStudy.previewNote")}
+          </p>
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <DialogFooter className="gap-2 pt-4 border-t border-neutral-border">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              {t("vocabulary.settings.cancel")}
+            </Button>
+            <Button type="submit">
+              {t("vocabulary.customStudy.start")}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default CustomStudyDialog
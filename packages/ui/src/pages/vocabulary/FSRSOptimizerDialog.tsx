@@ -0,0 +1,234 @@
+/**
+ * FSRS Optimizer Dialog
+ * Fits the spaced repetition parameters to the user's own review history
+ */
+
+import { BrainCircuit, Loader2, AlertCircle, CheckCircle2 } from "lucide-react"
+import {
+  useTranslation,
+  useFSRSOptimizer,
+  MIN_REVIEWS_FOR_OPTIMIZATION,
+  type FSRSOptimizationResult,
+  type FSRSVersion
+} from "@ace-ielts/core"
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  Button,
+  Progress,
+  ToggleGroup,
+  ToggleGroupItem
+} from "../../components"
+
+interface FSRSOptimizerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  userId: string
+}
+
+/**
+ * Before/after comparison of fit metrics
+ */
+function MetricsTable({ result }: { result: FSRSOptimizationResult }) {
+  const { t } = useTranslation()
+
+  const rows = [
+    { label: t("vocabulary.optimizer.logLoss"), before: result.logLossBefore, after: result.logLossAfter },
+    { label: t("vocabulary.optimizer.rmse"), before: result.rmseBefore, after: result.rmseAfter }
+  ]
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-text-tertiary text-xs">
+          <th className="text-left font-medium py-1"></th>
+          <th className="text-right font-medium py-1">{t("vocabulary.optimizer.before")}</th>
+          <th className="text-right font-medium py-1">{t("vocabulary.optimizer.after")}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.label} className="border-t border-neutral-border">
+            <td className="py-2 text-text-secondary">{row.label}</td>
+            <td className="py-2 text-right tabular-nums text-text-secondary">{row.before.toFixed(4)}</td>
+            <td className="py-2 text-right tabular-nums font-medium text-text-primary">{row.after.toFixed(4)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+export function FSRSOptimizerDialog({
+  open,
+  onOpenChange,
+  userId
+}: FSRSOptimizerDialogProps) {
+  const { t } = useTranslation()
+
+  const {
+    params,
+    version,
+    isLoading,
+    switchVersion,
+    isSwitching,
+    optimize,
+    isOptimizing,
+    progress,
+    result,
+    error
+  } = useFSRSOptimizer({ userId, enabled: open })
+
+  const handleOptimize = async () => {
+    try {
+      await optimize()
+    } catch (err) {
+      console.error("Error optimizing FSRS parameters:", err)
+    }
+  }
+
+  const handleSwitchVersion = async (value: FSRSVersion) => {
+    try {
+      await switchVersion(value)
+    } catch (err) {
+      console.error("Error switching FSRS version:", err)
+    }
+  }
+
+  const progressPercent = progress
+    ? Math.round((progress.iteration / progress.totalIterations) * 100)
+    : 0
+  const improved = !!result && result.logLossAfter < result.logLossBefore
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isOptimizing && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BrainCircuit className="h-5 w-5 text-primary" />
+            {t("vocabulary.optimizer.title")}
+          </DialogTitle>
+          <DialogDescription>
+            {t("vocabulary.optimizer.description", { count: MIN_REVIEWS_FOR_OPTIMIZATION })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4 mt-2">
+            {/* Algorithm version */}
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-text-primary">
+                {t("vocabulary.optimizer.version")}
+              </h3>
+              <ToggleGroup
+                type="single"
+                value={version}
+                onValueChange={(value) => {
+                  if (value && value !== version) handleSwitchVersion(value as FSRSVersion)
+                }}
+                disabled={isOptimizing || isSwitching}
+                className="w-full"
+              >
+                <ToggleGroupItem value="4.5" aria-label="FSRS-4.5">
+                  FSRS-4.5
+                </ToggleGroupItem>
+                <ToggleGroupItem value="5" aria-label="FSRS-5">
+                  FSRS-5
+                </ToggleGroupItem>
+              </ToggleGroup>
+              <p className="text-xs text-text-tertiary">
+                {t("vocabulary.optimizer.versionHint")}
+              </p>
+            </div>
+
+            {/* Current parameters */}
+            <div className="rounded-lg border border-neutral-border p-3 text-sm">
+              {params?.optimized_at ? (
+                <>
+                  <p className="text-text-primary font-medium">
+                    {t("vocabulary.optimizer.personalized", {
+                      date: new Date(params.optimized_at).toLocaleDateString()
+                    })}
+                  </p>
+                  <p className="text-text-tertiary text-xs mt-1">
+                    {t("vocabulary.optimizer.trainedOn", { count: params.review_count })}
+                  </p>
+                </>
+              ) : (
+                <p className="text-text-secondary">
+                  {t("vocabulary.optimizer.usingDefaults", { version })}
+                </p>
+              )}
+            </div>
+
+            {/* Progress */}
+            {isOptimizing && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-xs text-text-secondary">
+                  <span>{t("vocabulary.optimizer.running")}</span>
+                  <span className="tabular-nums">{progressPercent}%</span>
+                </div>
+                <Progress value={progressPercent} />
+              </div>
+            )}
+
+            {/* Result */}
+            {result && !isOptimizing && (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2 text-sm">
+                  <CheckCircle2 className={improved ? "h-4 w-4 text-green-600" : "h-4 w-4 text-text-tertiary"} />
+                  <span className="text-text-primary">
+                    {improved
+                      ? t("vocabulary.optimizer.saved")
+                      : t("vocabulary.optimizer.noImprovement")}
+                  </span>
+                </div>
+                <MetricsTable result={result} />
+              </div>
+            )}
+
+            {/* Error */}
+            {error && !isOptimizing && (
+              <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                <span>{error.message || t("vocabulary.optimizer.failed")}</span>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isOptimizing}
+          >
+            {t("vocabulary.optimizer.close")}
+          </Button>
+          <Button onClick={handleOptimize} disabled={isLoading || isOptimizing || isSwitching} className="gap-2">
+            {isOptimizing ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                {t("vocabulary.optimizer.optimizing")}
+              </>
+            ) : (
+              t("vocabulary.optimizer.optimize")
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default FSRSOptimizerDialog
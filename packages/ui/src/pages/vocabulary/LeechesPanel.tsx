@@ -0,0 +1,228 @@
+/**
+ * Leeches Panel
+ * Lists a book's leeches (words failed over and over) with actions to deal with them
+ */
+
+import { useState } from "react"
+import { motion } from "framer-motion"
+import { Bug, Loader2, Pause, Pencil, Play, RotateCcw } from "lucide-react"
+import {
+  useTranslation,
+  useLeechWords,
+  type WordWithProgress
+} from "@ace-ielts/core"
+
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Button,
+  Textarea
+} from "../../components"
+
+interface LeechesPanelProps {
+  userId: string
+  bookId: string
+  className?: string
+}
+
+/**
+ * One leech with its note editor and actions
+ */
+function LeechItem({
+  word,
+  index,
+  disabled,
+  onSaveNote,
+  onReset,
+  onSetSuspended
+}: {
+  word: WordWithProgress
+  index: number
+  disabled: boolean
+  onSaveNote: (note: string) => Promise<void>
+  onReset: () => Promise<void>
+  onSetSuspended: (suspended: boolean) => Promise<void>
+}) {
+  const { t } = useTranslation()
+  const [isEditing, setIsEditing] = useState(false)
+  const [isConfirmingReset, setIsConfirmingReset] = useState(false)
+  const [note, setNote] = useState(word.note ?? "")
+
+  const handleSaveNote = async () => {
+    await onSaveNote(note)
+    setIsEditing(false)
+  }
+
+  const handleReset = async () => {
+    if (!isConfirmingReset) {
+      setIsConfirmingReset(true)
+      return
+    }
+    await onReset()
+    setIsConfirmingReset(false)
+  }
+
+  return (
+    <motion.div
+      className="py-3 border-b border-neutral-border last:border-0 space-y-2"
+      initial={{ opacity: 0, x: -10 }}
+      animate={{ opacity: 1, x: 0 }}
+      transition={{ delay: index * 0.05 }}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="font-medium text-text-primary truncate">{word.word}</span>
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-accent-blue text-primary">
+            {t(`vocabulary.cardTemplates.${word.card_type}`)}
+          </span>
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700">
+            {t("vocabulary.leeches.lapses", { count: word.lapses })}
+          </span>
+          {word.is_suspended && (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-600">
+              {t("vocabulary.leeches.suspended")}
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-1 shrink-0">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => {
+              setNote(word.note ?? "")
+              setIsEditing(!isEditing)
+            }}
+            disabled={disabled}
+            title={t("vocabulary.leeches.editNote")}
+            aria-label={t("vocabulary.leeches.editNote")}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onSetSuspended(!word.is_suspended)}
+            disabled={disabled}
+            title={word.is_suspended ? t("vocabulary.leeches.unsuspend") : t("vocabulary.leeches.suspend")}
+            aria-label={word.is_suspended ? t("vocabulary.leeches.unsuspend") : t("vocabulary.leeches.suspend")}
+          >
+            {word.is_suspended ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+          </Button>
+          <Button
+            variant={isConfirmingReset ? "outline" : "ghost"}
+            size={isConfirmingReset ? "sm" : "icon"}
+            className={isConfirmingReset ? "h-8 text-red-600 border-red-200" : "h-8 w-8"}
+            onClick={handleReset}
+            onBlur={() => setIsConfirmingReset(false)}
+            disabled={disabled}
+            title={t("vocabulary.leeches.reset")}
+            aria-label={t("vocabulary.leeches.reset")}
+          >
+            {isConfirmingReset ? t("vocabulary.leeches.confirmReset") : <RotateCcw className="h-4 w-4" />}
+          </Button>
+        </div>
+      </div>
+
+      {word.definition && (
+        <p className="text-xs text-text-secondary line-clamp-1">{word.definition}</p>
+      )}
+
+      {isEditing ? (
+        <div className="space-y-2">
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={t("vocabulary.leeches.notePlaceholder")}
+            disabled={disabled}
+            className="min-h-[60px]"
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsEditing(false)} disabled={disabled}>
+              {t("vocabulary.settings.cancel")}
+            </Button>
+            <Button size="sm" onClick={handleSaveNote} disabled={disabled}>
+              {t("vocabulary.settings.save")}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        word.note && <p className="text-xs italic text-text-tertiary whitespace-pre-line">{word.note}</p>
+      )}
+    </motion.div>
+  )
+}
+
+/**
+ * Leeches card for the book detail page
+ */
+export function LeechesPanel({ userId, bookId, className }: LeechesPanelProps) {
+  const { t } = useTranslation()
+  const {
+    leeches,
+    isLoading,
+    updateNote,
+    resetWord,
+    setSuspended,
+    isUpdating
+  } = useLeechWords({ userId, bookId })
+  const [actionError, setActionError] = useState(false)
+
+  // Run an action, keeping the panel open with a message if it fails
+  const run = async (action: () => Promise<unknown>) => {
+    setActionError(false)
+    try {
+      await action()
+    } catch (err) {
+      console.error("Error updating leech:", err)
+      setActionError(true)
+    }
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-1">
+        <CardTitle className="text-base flex items-center gap-2 text-red-600">
+          <Bug className="h-4 w-4" />
+          {t("vocabulary.leeches.title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="py-2">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : leeches.length > 0 ? (
+          <div>
+            <p className="text-xs text-text-tertiary mb-1">{t("vocabulary.leeches.hint")}</p>
+            {leeches.map((word, index) => (
+              <LeechItem
+                key={`${word.id}:${word.card_type}`}
+                word={word}
+                index={index}
+                disabled={isUpdating}
+                onSaveNote={(note) => run(() => updateNote(word.id, note))}
+                onReset={() => run(() => resetWord(word.id))}
+                onSetSuspended={(suspended) => run(() => setSuspended(word.id, suspended))}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-text-tertiary py-4 text-center">
+            {t("vocabulary.leeches.empty")}
+          </p>
+        )}
+
+        {actionError && (
+          <p className="text-xs text-red-600 mt-2">{t("vocabulary.leeches.actionFailed")}</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default LeechesPanel
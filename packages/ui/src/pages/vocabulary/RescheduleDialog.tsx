@@ -0,0 +1,210 @@
+/**
+ * Reschedule Dialog
+ * Recompute the due dates of a book's cards under its current FSRS parameters
+ * and desired retention, with a workload preview before applying
+ */
+
+import { useState } from "react"
+import { AlertCircle, CalendarClock, Loader2 } from "lucide-react"
+import {
+  useTranslation,
+  useBookSettings,
+  useReschedule,
+  type ReschedulePlan
+} from "@ace-ielts/core"
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  Button,
+  Progress
+} from "../../components"
+import { WorkloadDiffChart } from "./WorkloadDiffChart"
+
+interface RescheduleDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  userId: string
+  bookId: string
+}
+
+/**
+ * Average interval in days of the planned cards, before or after
+ */
+function averageInterval(plan: ReschedulePlan, key: "scheduledDaysBefore" | "scheduledDaysAfter"): number {
+  if (plan.items.length === 0) return 0
+  const total = plan.items.reduce((sum, item) => sum + item[key], 0)
+  return Math.round(total / plan.items.length)
+}
+
+export function RescheduleDialog({
+  open,
+  onOpenChange,
+  userId,
+  bookId
+}: RescheduleDialogProps) {
+  const { t } = useTranslation()
+  const { settings } = useBookSettings({ userId, bookId, enabled: open })
+  const {
+    planReschedule,
+    isPlanning,
+    applyReschedule,
+    isApplying,
+    progress
+  } = useReschedule({ userId, bookId })
+
+  const [plan, setPlan] = useState<ReschedulePlan | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const isBusy = isPlanning || isApplying
+  const isSupported = settings?.scheduling_algorithm === "fsrs"
+  const earlier = plan?.items
+    .filter((item) => new Date(item.dueAfter).getTime() < new Date(item.dueBefore).getTime())
+    .length ?? 0
+
+  const resetPlan = () => {
+    setPlan(null)
+    setMessage(null)
+    setError(null)
+  }
+
+  const handlePreview = async () => {
+    resetPlan()
+    try {
+      setPlan(await planReschedule())
+    } catch (err) {
+      console.error("Error planning reschedule:", err)
+      setError(t("vocabulary.reschedule.errors.previewFailed"))
+    }
+  }
+
+  const handleApply = async () => {
+    if (!plan) return
+    setError(null)
+    try {
+      const count = await applyReschedule(plan)
+      setPlan(null)
+      setMessage(t("vocabulary.reschedule.applied", { count }))
+    } catch (err) {
+      console.error("Error applying reschedule:", err)
+      // Batches written before the failure stay applied; a new preview picks up the rest
+      setPlan(null)
+      setError(t("vocabulary.reschedule.errors.applyFailed"))
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    // Closing mid-way would hide the progress of a running reschedule
+    if (isApplying) return
+    if (!newOpen) {
+      resetPlan()
+    }
+    onOpenChange(newOpen)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] flex flex-col">
+        <DialogHeader className="flex-shrink-0">
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5 text-primary" />
+            {t("vocabulary.reschedule.title")}
+          </DialogTitle>
+          <DialogDescription>
+            {t("vocabulary.reschedule.description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-y-auto flex-1 space-y-6 mt-4 pr-2 -mr-2">
+          {settings && !isSupported && (
+            <div className="flex items-center gap-2 p-3 bg-amber-50 text-amber-700 rounded-lg text-sm">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              <span>{t("vocabulary.reschedule.fsrsOnly")}</span>
+            </div>
+          )}
+
+          {/* Preview */}
+          {plan && (
+            <div className="space-y-3 p-3 rounded-lg bg-neutral-background border border-neutral-border">
+              <p className="text-sm text-text-primary">
+                {t("vocabulary.reschedule.summary", {
+                  count: plan.items.length,
+                  total: plan.cardCount
+                })}
+              </p>
+              {plan.items.length > 0 && (
+                <>
+                  <p className="text-xs text-text-secondary">
+                    {t("vocabulary.reschedule.direction", {
+                      earlier,
+                      later: plan.items.length - earlier
+                    })}
+                  </p>
+                  <p className="text-xs text-text-secondary">
+                    {t("vocabulary.reschedule.interval", {
+                      before: averageInterval(plan, "scheduledDaysBefore"),
+                      after: averageInterval(plan, "scheduledDaysAfter")
+                    })}
+                  </p>
+                  <WorkloadDiffChart
+                    workload={plan.workload}
+                    beforeLabel={t("vocabulary.reschedule.before")}
+                    afterLabel={t("vocabulary.reschedule.after")}
+                  />
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Batches */}
+          {progress && (
+            <div className="space-y-2">
+              <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} />
+              <p className="text-xs text-text-secondary">
+                {t("vocabulary.reschedule.progress", { done: progress.done, total: progress.total })}
+              </p>
+            </div>
+          )}
+
+          {message && <p className="text-sm text-emerald-700">{message}</p>}
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 pt-4 mt-4 border-t border-neutral-border flex-shrink-0">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handlePreview}
+            disabled={isBusy || !isSupported}
+            className="gap-2"
+          >
+            {isPlanning && <Loader2 className="h-4 w-4 animate-spin" />}
+            {t("vocabulary.reschedule.preview")}
+          </Button>
+          <Button
+            type="button"
+            onClick={handleApply}
+            disabled={isBusy || !plan || plan.items.length === 0}
+            className="gap-2"
+          >
+            {isApplying && <Loader2 className="h-4 w-4 animate-spin" />}
+            {t("vocabulary.reschedule.apply")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default RescheduleDialog
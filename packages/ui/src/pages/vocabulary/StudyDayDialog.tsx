@@ -0,0 +1,213 @@
+/**
+ * Study Day Dialog
+ * Edit the time zone and the hour the study day starts at; daily limits,
+ * streaks and "due today" roll over then
+ */
+
+import { useEffect, useState } from "react"
+import { AlertCircle, Loader2, Sunrise } from "lucide-react"
+import {
+  useTranslation,
+  useUserProfile,
+  getDeviceTimezone,
+  getNextStudyDayStart,
+  getStudyDate,
+  isValidTimezone,
+  MIN_DAY_START_HOUR,
+  MAX_DAY_START_HOUR
+} from "@ace-ielts/core"
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  Button,
+  Input,
+  Label
+} from "../../components"
+
+interface StudyDayDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  userId: string
+}
+
+export function StudyDayDialog({ open, onOpenChange, userId }: StudyDayDialogProps) {
+  const { t } = useTranslation()
+  const { studyDay, isLoading, updateProfile, isUpdating } = useUserProfile({ userId, enabled: open })
+
+  // Form state
+  const [timezone, setTimezone] = useState(studyDay.timezone)
+  const [dayStartHour, setDayStartHour] = useState(studyDay.day_start_hour)
+  const [error, setError] = useState<string | null>(null)
+
+  // Sync form state with the stored profile
+  useEffect(() => {
+    if (open) {
+      setTimezone(studyDay.timezone)
+      setDayStartHour(studyDay.day_start_hour)
+    }
+  }, [open, studyDay.timezone, studyDay.day_start_hour])
+
+  const isTimezoneValid = isValidTimezone(timezone.trim())
+  const isHourValid = Number.isInteger(dayStartHour)
+    && dayStartHour >= MIN_DAY_START_HOUR
+    && dayStartHour <= MAX_DAY_START_HOUR
+
+  // Today's study date and the next rollover under the settings being edited
+  const draft = isTimezoneValid && isHourValid
+    ? { timezone: timezone.trim(), day_start_hour: dayStartHour }
+    : null
+  const preview = draft && {
+    date: getStudyDate(new Date(), draft),
+    nextStart: getNextStudyDayStart(new Date(), draft).toLocaleString()
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (!isTimezoneValid) {
+      setError(t("vocabulary.studyDay.errors.invalidTimezone"))
+      return
+    }
+
+    if (!isHourValid) {
+      setError(t("vocabulary.studyDay.errors.invalidHour", { min: MIN_DAY_START_HOUR, max: MAX_DAY_START_HOUR }))
+      return
+    }
+
+    try {
+      await updateProfile({ timezone: timezone.trim(), day_start_hour: dayStartHour })
+      onOpenChange(false)
+    } catch (err) {
+      console.error("Error saving study day:", err)
+      setError(t("vocabulary.studyDay.errors.saveFailed"))
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      setError(null)
+    }
+    onOpenChange(newOpen)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sunrise className="h-5 w-5 text-primary" />
+            {t("vocabulary.studyDay.title")}
+          </DialogTitle>
+          <DialogDescription>
+            {t("vocabulary.studyDay.description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6 mt-4">
+            {/* Time Zone */}
+            <div className="space-y-2">
+              <div className="flex items-center gap-4">
+                <Label htmlFor="study-day-timezone" required className="min-w-[140px]">
+                  {t("vocabulary.studyDay.timezone")}
+                </Label>
+                <Input
+                  id="study-day-timezone"
+                  value={timezone}
+                  placeholder="Asia/Shanghai"
+                  onChange={(e) => setTimezone(e.target.value)}
+                  disabled={isUpdating}
+                  className="flex-1"
+                />
+              </div>
+              <div className="flex gap-4">
+                <div className="min-w-[140px]"></div>
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  onClick={() => setTimezone(getDeviceTimezone())}
+                  disabled={isUpdating}
+                  className="h-auto p-0 text-xs"
+                >
+                  {t("vocabulary.studyDay.useDeviceTimezone", { timezone: getDeviceTimezone() })}
+                </Button>
+              </div>
+            </div>
+
+            {/* Day Start Hour */}
+            <div className="space-y-2">
+              <div className="flex items-center gap-4">
+                <Label htmlFor="study-day-start-hour" required className="min-w-[140px]">
+                  {t("vocabulary.studyDay.dayStartHour")}
+                </Label>
+                <Input
+                  id="study-day-start-hour"
+                  type="number"
+                  min={MIN_DAY_START_HOUR}
+                  max={MAX_DAY_START_HOUR}
+                  value={dayStartHour}
+                  onChange={(e) => setDayStartHour(parseInt(e.target.value, 10))}
+                  disabled={isUpdating}
+                  className="flex-1"
+                />
+              </div>
+              <div className="flex gap-4">
+                <div className="min-w-[140px]"></div>
+                <p className="text-xs text-text-tertiary flex-1">
+                  {t("vocabulary.studyDay.dayStartHourHint")}
+                </p>
+              </div>
+            </div>
+
+            {preview && (
+              <p className="text-sm text-text-secondary p-3 rounded-lg bg-neutral-background border border-neutral-border">
+                {t("vocabulary.studyDay.preview", preview)}
+              </p>
+            )}
+
+            {error && (
+              <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <DialogFooter className="gap-2 pt-4 border-t border-neutral-border">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                disabled={isUpdating}
+              >
+                {t("vocabulary.settings.cancel")}
+              </Button>
+              <Button type="submit" disabled={isUpdating} className="gap-2">
+                {isUpdating ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    {t("vocabulary.settings.saving")}
+                  </>
+                ) : (
+                  t("vocabulary.settings.save")
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default StudyDayDialog
@@ -0,0 +1,374 @@
+/**
+ * Vacation Dialog
+ * Postpone or advance reviews in bulk around a trip, with a workload preview
+ * before applying and a history of shifts that can be reverted
+ */
+
+import { useState } from "react"
+import { AlertCircle, Loader2, Plane, Undo2 } from "lucide-react"
+import {
+  useTranslation,
+  useDueShifts,
+  MIN_DUE_SHIFT_DAYS,
+  MAX_DUE_SHIFT_DAYS,
+  type DueShift,
+  type DueShiftAction,
+  type DueShiftPlan
+} from "@ace-ielts/core"
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  Button,
+  Input,
+  Label,
+  ToggleGroup,
+  ToggleGroupItem
+} from "../../components"
+import { WorkloadDiffChart } from "./WorkloadDiffChart"
+
+type ShiftScope = "book" | "all"
+
+interface VacationDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  userId: string
+  bookId: string
+}
+
+/**
+ * Average predicted recall of the planned cards, as a percentage
+ */
+function averageRecall(plan: DueShiftPlan, key: "retrievabilityBefore" | "retrievabilityAfter"): number {
+  if (plan.items.length === 0) return 0
+  const total = plan.items.reduce((sum, item) => sum + item[key], 0)
+  return Math.round((total / plan.items.length) * 100)
+}
+
+/**
+ * One applied shift with its revert action
+ */
+function ShiftHistoryItem({
+  shift,
+  disabled,
+  onRevert
+}: {
+  shift: DueShift
+  disabled: boolean
+  onRevert: () => void
+}) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="flex items-center justify-between gap-3 py-2 border-b border-neutral-border last:border-0 text-sm">
+      <div className="min-w-0">
+        <p className="text-text-primary">
+          {t(`vocabulary.vacation.history.${shift.action}`, { days: shift.days, count: shift.card_count })}
+        </p>
+        <p className="text-xs text-text-tertiary">
+          {new Date(shift.created_at).toLocaleDateString()}
+          {" · "}
+          {shift.book_id ? t("vocabulary.vacation.scopes.book") : t("vocabulary.vacation.scopes.all")}
+        </p>
+      </div>
+      {shift.reverted_at ? (
+        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-600 shrink-0">
+          {t("vocabulary.vacation.reverted")}
+        </span>
+      ) : (
+        <Button variant="outline" size="sm" onClick={onRevert} disabled={disabled} className="gap-1 shrink-0">
+          <Undo2 className="h-3.5 w-3.5" />
+          {t("vocabulary.vacation.revert")}
+        </Button>
+      )}
+    </div>
+  )
+}
+
+export function VacationDialog({
+  open,
+  onOpenChange,
+  userId,
+  bookId
+}: VacationDialogProps) {
+  const { t } = useTranslation()
+  const {
+    shifts,
+    planShift,
+    isPlanning,
+    applyShift,
+    isApplying,
+    revertShift,
+    isReverting
+  } = useDueShifts({ userId, bookId, enabled: open })
+
+  // Form state
+  const [action, setAction] = useState<DueShiftAction>("postpone")
+  const [scope, setScope] = useState<ShiftScope>("book")
+  const [days, setDays] = useState(7)
+  const [limit, setLimit] = useState("")
+  const [plan, setPlan] = useState<DueShiftPlan | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const isBusy = isPlanning || isApplying || isReverting
+
+  // A plan only matches the options it was made with
+  const resetPlan = () => {
+    setPlan(null)
+    setMessage(null)
+    setError(null)
+  }
+
+  const handlePreview = async () => {
+    resetPlan()
+
+    if (!Number.isInteger(days) || days < MIN_DUE_SHIFT_DAYS || days > MAX_DUE_SHIFT_DAYS) {
+      setError(t("vocabulary.vacation.errors.invalidDays", { min: MIN_DUE_SHIFT_DAYS, max: MAX_DUE_SHIFT_DAYS }))
+      return
+    }
+
+    const parsedLimit = limit.trim() ? parseInt(limit, 10) : undefined
+    if (parsedLimit !== undefined && (isNaN(parsedLimit) || parsedLimit < 1)) {
+      setError(t("vocabulary.vacation.errors.invalidLimit"))
+      return
+    }
+
+    try {
+      setPlan(await planShift({
+        action,
+        bookId: scope === "book" ? bookId : null,
+        days,
+        limit: parsedLimit
+      }))
+    } catch (err) {
+      console.error("Error planning due shift:", err)
+      setError(t("vocabulary.vacation.errors.previewFailed"))
+    }
+  }
+
+  const handleApply = async () => {
+    if (!plan) return
+    setError(null)
+    try {
+      const shift = await applyShift(plan)
+      setPlan(null)
+      setMessage(t("vocabulary.vacation.applied", { count: shift.card_count }))
+    } catch (err) {
+      console.error("Error applying due shift:", err)
+      setError(t("vocabulary.vacation.errors.applyFailed"))
+    }
+  }
+
+  const handleRevert = async (shiftId: string) => {
+    resetPlan()
+    try {
+      const restored = await revertShift(shiftId)
+      setMessage(t("vocabulary.vacation.revertedCount", { count: restored ?? 0 }))
+    } catch (err) {
+      console.error("Error reverting due shift:", err)
+      setError(t("vocabulary.vacation.errors.revertFailed"))
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      resetPlan()
+    }
+    onOpenChange(newOpen)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] flex flex-col">
+        <DialogHeader className="flex-shrink-0">
+          <DialogTitle className="flex items-center gap-2">
+            <Plane className="h-5 w-5 text-primary" />
+            {t("vocabulary.vacation.title")}
+          </DialogTitle>
+          <DialogDescription>
+            {t("vocabulary.vacation.description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-y-auto flex-1 space-y-6 mt-4 pr-2 -mr-2">
+          {/* Action */}
+          <div className="space-y-3">
+            <ToggleGroup
+              type="single"
+              value={action}
+              onValueChange={(value) => {
+                if (value) {
+                  setAction(value as DueShiftAction)
+                  resetPlan()
+                }
+              }}
+              disabled={isBusy}
+              className="w-full"
+            >
+              <ToggleGroupItem value="postpone" aria-label="Postpone">
+                {t("vocabulary.vacation.actions.postpone")}
+              </ToggleGroupItem>
+              <ToggleGroupItem value="advance" aria-label="Advance">
+                {t("vocabulary.vacation.actions.advance")}
+              </ToggleGroupItem>
+            </ToggleGroup>
+            <p className="text-xs text-text-tertiary">
+              {t(`vocabulary.vacation.actionHints.${action}`)}
+            </p>
+          </div>
+
+          {/* Scope */}
+          <ToggleGroup
+            type="single"
+            value={scope}
+            onValueChange={(value) => {
+              if (value) {
+                setScope(value as ShiftScope)
+                resetPlan()
+              }
+            }}
+            disabled={isBusy}
+            className="w-full"
+          >
+            <ToggleGroupItem value="book" aria-label="This book">
+              {t("vocabulary.vacation.scopes.book")}
+            </ToggleGroupItem>
+            <ToggleGroupItem value="all" aria-label="All books">
+              {t("vocabulary.vacation.scopes.all")}
+            </ToggleGroupItem>
+          </ToggleGroup>
+
+          {/* Days and Limit */}
+          <div className="space-y-4">
+            <div className="flex items-center gap-4">
+              <Label htmlFor="vacation-days" required className="min-w-[140px]">
+                {t("vocabulary.vacation.days")}
+              </Label>
+              <Input
+                id="vacation-days"
+                type="number"
+                min={MIN_DUE_SHIFT_DAYS}
+                max={MAX_DUE_SHIFT_DAYS}
+                value={days}
+                onChange={(e) => {
+                  setDays(parseInt(e.target.value, 10))
+                  resetPlan()
+                }}
+                disabled={isBusy}
+                className="flex-1"
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center gap-4">
+                <Label htmlFor="vacation-limit" className="min-w-[140px]">
+                  {t("vocabulary.vacation.limit")}
+                </Label>
+                <Input
+                  id="vacation-limit"
+                  type="number"
+                  min="1"
+                  value={limit}
+                  placeholder={t("vocabulary.vacation.limitPlaceholder")}
+                  onChange={(e) => {
+                    setLimit(e.target.value)
+                    resetPlan()
+                  }}
+                  disabled={isBusy}
+                  className="flex-1"
+                />
+              </div>
+              <div className="flex gap-4">
+                <div className="min-w-[140px]"></div>
+                <p className="text-xs text-text-tertiary flex-1">
+                  {t("vocabulary.vacation.limitHint")}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {/* Preview */}
+          {plan && (
+            <div className="space-y-3 p-3 rounded-lg bg-neutral-background border border-neutral-border">
+              <p className="text-sm text-text-primary">
+                {t("vocabulary.vacation.summary", {
+                  count: plan.items.length,
+                  candidates: plan.candidateCount
+                })}
+              </p>
+              {plan.items.length > 0 && (
+                <p className="text-xs text-text-secondary">
+                  {t("vocabulary.vacation.recall", {
+                    before: averageRecall(plan, "retrievabilityBefore"),
+                    after: averageRecall(plan, "retrievabilityAfter")
+                  })}
+                </p>
+              )}
+              <WorkloadDiffChart
+                workload={plan.workload}
+                beforeLabel={t("vocabulary.vacation.before")}
+                afterLabel={t("vocabulary.vacation.after")}
+              />
+            </div>
+          )}
+
+          {message && <p className="text-sm text-emerald-700">{message}</p>}
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* History */}
+          {shifts.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-text-primary">
+                {t("vocabulary.vacation.historyTitle")}
+              </h3>
+              <div>
+                {shifts.map((shift) => (
+                  <ShiftHistoryItem
+                    key={shift.id}
+                    shift={shift}
+                    disabled={isBusy}
+                    onRevert={() => handleRevert(shift.id)}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 pt-4 mt-4 border-t border-neutral-border flex-shrink-0">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handlePreview}
+            disabled={isBusy}
+            className="gap-2"
+          >
+            {isPlanning && <Loader2 className="h-4 w-4 animate-spin" />}
+            {t("vocabulary.vacation.preview")}
+          </Button>
+          <Button
+            type="button"
+            onClick={handleApply}
+            disabled={isBusy || !plan || plan.items.length === 0}
+            className="gap-2"
+          >
+            {isApplying && <Loader2 className="h-4 w-4 animate-spin" />}
+            {t("vocabulary.vacation.apply")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default VacationDialog
@@ -18,6 +18,10 @@ import {
   Sparkles,
   Target,
   AlertCircle,
+  MoreHorizontal,
+  Plane,
+  CalendarClock,
+  Dumbbell,
   Settings
 } from "lucide-react"
 import {
@@ -35,9 +39,11 @@ import {
   useNavigation,
   useTranslation,
   useBookDetail,
+  useWordFlags,
   formatWordForDisplay,
   useAuth,
-  type BookDetailStats
+  type BookDetailStats,
+  type WordFlag
 } from "@ace-ielts/core"
 
 import { MainLayout } from "../../layout"
@@ -51,9 +57,18 @@ import {
   TooltipTrigger,
   TooltipContent,
   TooltipProvider,
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuCheckboxItem,
   fadeInUp
 } from "../../components"
 import { BookSettingsDialog } from "./BookSettingsDialog"
+import { LeechesPanel } from "./LeechesPanel"
+import { VacationDialog } from "./VacationDialog"
+import { RescheduleDialog } from "./RescheduleDialog"
+import { CustomStudyDialog } from "./CustomStudyDialog"
+import { WorkloadForecastPanel } from "./WorkloadForecastPanel"
 
 /**
  * Progress ring component
@@ -112,16 +127,25 @@ function ProgressRing({
   )
 }
 
+const WORD_FLAGS: WordFlag[] = ["suspended", "buried", "known"]
+
 /**
  * Word list item component
  */
 function WordListItem({
   word,
-  index
+  index,
+  onToggleFlag,
+  disabled
 }: {
   word: ReturnType<typeof formatWordForDisplay>
   index: number
+  onToggleFlag?: (flag: WordFlag, enabled: boolean) => void
+  disabled?: boolean
 }) {
+  const { t } = useTranslation()
+  const activeFlags = WORD_FLAGS.filter((flag) => word.flags[flag])
+
   const masteryColors = {
     new: "bg-slate-100 text-slate-600",
     learning: "bg-amber-100 text-amber-700",
@@ -151,10 +175,47 @@ function WordListItem({
         >
           {masteryLabels[word.mastery]}
         </span>
+        {activeFlags.map((flag) => (
+          <span
+            key={flag}
+            className="px-2 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-600"
+          >
+            {t(`vocabulary.flags.labels.${flag}`)}
+          </span>
+        ))}
+      </div>
+      <div className="flex items-center gap-1">
+        {word.nextReview && (
+          <span className="text-xs text-text-tertiary">Next: {word.nextReview}</span>
+        )}
+        {onToggleFlag && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                disabled={disabled}
+                title={t("vocabulary.flags.menu")}
+                aria-label={t("vocabulary.flags.menu")}
+              >
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {WORD_FLAGS.map((flag) => (
+                <DropdownMenuCheckboxItem
+                  key={flag}
+                  checked={word.flags[flag]}
+                  onCheckedChange={(checked) => onToggleFlag(flag, checked)}
+                >
+                  {t(`vocabulary.flags.toggles.${flag}`)}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
       </div>
-      {word.nextReview && (
-        <span className="text-xs text-text-tertiary">Next: {word.nextReview}</span>
-      )}
     </motion.div>
   )
 }
@@ -350,6 +411,9 @@ export function VocabularyBookDetail() {
   const navigation = useNavigation()
   const { user, isLoading: isAuthLoading } = useAuth()
   const [settingsDialogOpen, setSettingsDialogOpen] = useState(false)
+  const [vacationDialogOpen, setVacationDialogOpen] = useState(false)
+  const [rescheduleDialogOpen, setRescheduleDialogOpen] = useState(false)
+  const [customStudyDialogOpen, setCustomStudyDialogOpen] = useState(false)
 
   // Extract bookId from URL - assuming route pattern /vocabulary/:bookId
   const bookId = useMemo(() => {
@@ -371,6 +435,19 @@ export function VocabularyBookDetail() {
     initializeProgress
   } = useBookDetail(bookId, user?.id ?? null)
 
+  const { setFlag, isUpdating: isUpdatingFlags } = useWordFlags({
+    userId: user?.id ?? null,
+    bookId
+  })
+
+  const handleToggleFlag = async (wordId: string, flag: WordFlag, enabled: boolean) => {
+    try {
+      await setFlag(wordId, flag, enabled)
+    } catch (err) {
+      console.error("Error updating word flag:", err)
+    }
+  }
+
   // Initialize progress when user starts viewing the book
   useEffect(() => {
     if (book && user && !isLoading) {
@@ -483,8 +560,12 @@ export function VocabularyBookDetail() {
     mastered: 0,
     learning: 0,
     newWords: book.word_count,
+    known: 0,
+    suspended: 0,
+    buried: 0,
     todayReview: 0,
     todayNew: Math.min(20, book.word_count),
+    isBacklog: false,
     estimatedMinutes: Math.min(10, book.word_count),
     streak: 0,
     accuracy: 0,
@@ -518,6 +599,39 @@ export function VocabularyBookDetail() {
                   <Settings className="h-4 w-4" />
                 </Button>
               )}
+              {user && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setVacationDialogOpen(true)}
+                  className="h-8 w-8"
+                  title={t("vocabulary.vacation.title")}
+                >
+                  <Plane className="h-4 w-4" />
+                </Button>
+              )}
+              {user && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setRescheduleDialogOpen(true)}
+                  className="h-8 w-8"
+                  title={t("vocabulary.reschedule.title")}
+                >
+                  <CalendarClock className="h-4 w-4" />
+                </Button>
+              )}
+              {user && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setCustomStudyDialogOpen(true)}
+                  className="h-8 w-8"
+                  title={t("vocabulary.customStudy.title")}
+                >
+                  <Dumbbell className="h-4 w-4" />
+                </Button>
+              )}
             </div>
             <p className="text-text-secondary text-sm">
               {book.description || t("vocabulary.noDescription")}
@@ -583,6 +697,15 @@ export function VocabularyBookDetail() {
                   <span className="text-text-secondary">
                     {t("vocabulary.wordsCount", { count: displayStats.totalWords })}
                   </span>
+                  {displayStats.known + displayStats.suspended + displayStats.buried > 0 && (
+                    <span className="text-text-tertiary">
+                      {t("vocabulary.flags.summary", {
+                        known: displayStats.known,
+                        suspended: displayStats.suspended,
+                        buried: displayStats.buried
+                      })}
+                    </span>
+                  )}
                 </div>
                 <TooltipProvider delayDuration={0}>
                   <Tooltip>
@@ -698,6 +821,14 @@ export function VocabularyBookDetail() {
                   </div>
                 </div>
 
+                {/* Backlog Mode */}
+                {(todaySession?.isBacklog ?? displayStats.isBacklog) && (
+                  <div className="flex items-start gap-2 p-2 rounded-lg bg-amber-50 text-amber-700 text-xs">
+                    <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                    <span>{t("vocabulary.bookDetail.backlog")}</span>
+                  </div>
+                )}
+
                 {/* Estimated Time */}
                 <div className="pt-2 border-t border-neutral-border">
                   <div className="flex items-center gap-2">
@@ -747,7 +878,7 @@ export function VocabularyBookDetail() {
           </Card>
 
           {/* Right Column - Stats & Words */}
-          <div className="flex flex-col gap-lg">
+          <div className="flex flex-col gap-lg lg:row-span-2">
             {/* Recent Words */}
             <Card className="flex-1 flex flex-col">
               <CardHeader className="pb-1">
@@ -760,7 +891,13 @@ export function VocabularyBookDetail() {
                 {formattedRecentWords.length > 0 ? (
                   <div>
                     {formattedRecentWords.map((word, index) => (
-                      <WordListItem key={word.id} word={word} index={index} />
+                      <WordListItem
+                        key={word.id}
+                        word={word}
+                        index={index}
+                        onToggleFlag={(flag, enabled) => handleToggleFlag(word.id, flag, enabled)}
+                        disabled={isUpdatingFlags}
+                      />
                     ))}
                   </div>
                 ) : (
@@ -785,7 +922,13 @@ export function VocabularyBookDetail() {
                 {formattedDifficultWords.length > 0 ? (
                   <div>
                     {formattedDifficultWords.map((word, index) => (
-                      <WordListItem key={word.id} word={word} index={index} />
+                      <WordListItem
+                        key={word.id}
+                        word={word}
+                        index={index}
+                        onToggleFlag={(flag, enabled) => handleToggleFlag(word.id, flag, enabled)}
+                        disabled={isUpdatingFlags}
+                      />
                     ))}
                   </div>
                 ) : (
@@ -798,6 +941,16 @@ export function VocabularyBookDetail() {
               </CardContent>
             </Card>
           </div>
+
+          {/* Row 3: Workload Forecast */}
+          {user && bookId && (
+            <WorkloadForecastPanel userId={user.id} bookId={bookId} className="lg:col-span-2" />
+          )}
+
+          {/* Row 4: Leeches */}
+          {user && bookId && (
+            <LeechesPanel userId={user.id} bookId={bookId} className="lg:col-span-3" />
+          )}
         </div>
       </motion.div>
 
@@ -811,6 +964,35 @@ export function VocabularyBookDetail() {
           onSuccess={handleSettingsSuccess}
         />
       )}
+
+      {/* Vacation Mode Dialog */}
+      {user && bookId && (
+        <VacationDialog
+          open={vacationDialogOpen}
+          onOpenChange={setVacationDialogOpen}
+          userId={user.id}
+          bookId={bookId}
+        />
+      )}
+
+      {/* Reschedule Dialog */}
+      {user && bookId && (
+        <RescheduleDialog
+          open={rescheduleDialogOpen}
+          onOpenChange={setRescheduleDialogOpen}
+          userId={user.id}
+          bookId={bookId}
+        />
+      )}
+
+      {/* Custom Study Dialog */}
+      {user && bookId && (
+        <CustomStudyDialog
+          open={customStudyDialogOpen}
+          onOpenChange={setCustomStudyDialogOpen}
+          bookId={bookId}
+        />
+      )}
     </MainLayout>
   )
 }
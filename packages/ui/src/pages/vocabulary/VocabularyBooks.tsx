@@ -13,13 +13,17 @@ import {
   Clock,
   Sparkles,
   RefreshCw,
-  Settings
+  Settings,
+  BrainCircuit,
+  Sunrise,
+  Layers
 } from "lucide-react"
 import {
   cn,
   useNavigation,
   useTranslation,
   useAuth,
+  useDueReviews,
   useVocabularyBooks,
   type VocabularyBookWithProgress
 } from "@ace-ielts/core"
@@ -36,6 +40,8 @@ import {
 } from "../../components"
 import { CreateBookDialog } from "./CreateBookDialog"
 import { BookSettingsDialog } from "./BookSettingsDialog"
+import { FSRSOptimizerDialog } from "./FSRSOptimizerDialog"
+import { StudyDayDialog } from "./StudyDayDialog"
 
 /**
  * Format last studied time
@@ -247,6 +253,8 @@ export function VocabularyBooks() {
   const [createDialogOpen, setCreateDialogOpen] = useState(false)
   const [settingsDialogOpen, setSettingsDialogOpen] = useState(false)
   const [selectedBookId, setSelectedBookId] = useState<string | null>(null)
+  const [optimizerDialogOpen, setOptimizerDialogOpen] = useState(false)
+  const [studyDayDialogOpen, setStudyDayDialogOpen] = useState(false)
 
   // Use TanStack Query hook for fetching books
   const {
@@ -262,6 +270,12 @@ export function VocabularyBooks() {
     enabled: !authLoading
   })
 
+  // Cards due today across every book, after each book's limits
+  const { totalDue, books: dueBooks } = useDueReviews({
+    userId: user?.id ?? null,
+    enabled: isAuthenticated
+  })
+
   // Filter books by search query
   const filterBooks = useCallback(
     (books: VocabularyBookWithProgress[]) => {
@@ -336,6 +350,19 @@ export function VocabularyBooks() {
           </div>
 
           <div className="flex items-center gap-3">
+            {/* Review Everything Due - one session across books */}
+            {isAuthenticated && totalDue > 0 && (
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={() => navigation.navigate("/vocabulary/review")}
+                title={t("vocabulary.dueReview.booksDue", { count: dueBooks.length })}
+              >
+                <Layers className="h-4 w-4" />
+                {t("vocabulary.dueReview.reviewAll", { count: totalDue })}
+              </Button>
+            )}
+
             {/* Refresh Button */}
             <Button
               variant="ghost"
@@ -349,6 +376,30 @@ export function VocabularyBooks() {
               />
             </Button>
 
+            {/* Optimize Scheduling Button - only show if authenticated */}
+            {isAuthenticated && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setOptimizerDialogOpen(true)}
+                title={t("vocabulary.optimizer.title")}
+              >
+                <BrainCircuit className="h-4 w-4" />
+              </Button>
+            )}
+
+            {/* Study Day Button - only show if authenticated */}
+            {isAuthenticated && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setStudyDayDialogOpen(true)}
+                title={t("vocabulary.studyDay.title")}
+              >
+                <Sunrise className="h-4 w-4" />
+              </Button>
+            )}
+
             {/* Search */}
             <div className="relative">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-text-tertiary" />
@@ -514,6 +565,24 @@ export function VocabularyBooks() {
           onSuccess={handleSettingsSuccess}
         />
       )}
+
+      {/* FSRS Optimizer Dialog */}
+      {isAuthenticated && user && (
+        <FSRSOptimizerDialog
+          open={optimizerDialogOpen}
+          onOpenChange={setOptimizerDialogOpen}
+          userId={user.id}
+        />
+      )}
+
+      {/* Study Day Dialog */}
+      {isAuthenticated && user && (
+        <StudyDayDialog
+          open={studyDayDialogOpen}
+          onOpenChange={setStudyDayDialogOpen}
+          userId={user.id}
+        />
+      )}
     </MainLayout>
   )
 }
@@ -4,111 +4,72 @@
  * Based on prototype design (CogniWord reference)
  */
 
-import { useState } from "react"
+import { useEffect, useMemo, useState } from "react"
 import { motion, AnimatePresence } from "framer-motion"
 import {
+  AlertCircle,
   ArrowLeft,
-  BookOpen,
+  Ban,
+  CheckCheck,
+  CheckCircle2,
+  Clock,
+  CloudOff,
+  Eye,
+  Keyboard,
+  Loader2,
   Maximize2,
-  Newspaper,
+  MoonStar,
   Pause,
   Play,
   SkipBack,
   SkipForward,
-  Tv,
+  Target,
+  Undo2,
   Volume2
 } from "lucide-react"
-import { cn, useNavigation, useTranslation } from "@ace-ielts/core"
+import {
+  cn,
+  buildQuizQuestion,
+  checkQuizAnswer,
+  checkSpelling,
+  getClozeSentence,
+  isQuizCard,
+  isTypedCard,
+  parseCustomStudyPath,
+  useAuth,
+  useLearningSession,
+  useNavigation,
+  useQuizWords,
+  useReviewTimer,
+  useTranslation,
+  RATING_TO_GRADE,
+  type CardTemplate,
+  type FSRSRating,
+  type QuizAnswerResult,
+  type QuizQuestion,
+  type ReviewQueueOrder,
+  type SpacedRepetitionGrade,
+  type SpellingCheckResult,
+  type WordFlag,
+  type WordWithProgress
+} from "@ace-ielts/core"
 
 import { MainLayout } from "../../layout"
 import {
   Card,
   CardContent,
   Button,
+  Input,
   Progress,
+  ToggleGroup,
+  ToggleGroupItem,
   fadeInUp
 } from "../../components"
 
-/**
- * Mock word data - will be replaced with real data later
- */
-interface ContextExample {
-  source: string
-  sourceType: "news" | "media" | "book"
-  text: string
-  translation: string
-}
-
-interface WordData {
-  id: string
-  word: string
-  phonetic: string
-  partOfSpeech: string
-  definition: string
-  definitionCn: string
-  etymology: {
-    breakdown: string
-    meaning: string
-  }
-  synonyms: string[]
-  antonyms: string[]
-  contexts: ContextExample[]
-}
-
-const mockCurrentWord: WordData = {
-  id: "1",
-  word: "PROCRASTINATE",
-  phonetic: "/prəˈkræstɪneɪt/",
-  partOfSpeech: "v.",
-  definition: "(often to) delay or postpone action; put off doing something.",
-  definitionCn: "To delay or postpone doing something, often due to various reasons.",
-  etymology: {
-    breakdown: "pro- (forward) + crastinus (of tomorrow)",
-    meaning: "= push to tomorrow"
-  },
-  synonyms: ["delay", "put off"],
-  antonyms: ["hasten", "rush", "accelerate", "advance"],
-  contexts: [
-    {
-      source: "The New York Times (Work-Life Section)",
-      sourceType: "news",
-      text: '"Psychologists say we often procrastinate not because we are lazy, but because we are managing negative moods like anxiety."',
-      translation: "Psychologists suggest that procrastination is often not about laziness, but about managing negative emotions like anxiety."
-    },
-    {
-      source: "Friends S02E05",
-      sourceType: "media",
-      text: '"I\'m gonna go procrastinate by cleaning my apartment."',
-      translation: "I'm going to procrastinate by cleaning my apartment instead."
-    }
-  ]
-}
-
-const mockSessionData = {
-  currentIndex: 1,
-  totalWords: 45,
-  bookId: "ielts-core",
-  bookName: "IELTS Core 3000"
-}
-
-/**
- * Source icon component
- */
-function SourceIcon({ type }: { type: "news" | "media" | "book" }) {
-  switch (type) {
-    case "news":
-      return <Newspaper className="h-4 w-4" />
-    case "media":
-      return <Tv className="h-4 w-4" />
-    default:
-      return <BookOpen className="h-4 w-4" />
-  }
-}
-
 /**
  * Audio player component for YouGlish-style video
  */
-function VideoPlayerPlaceholder() {
+function VideoPlayerPlaceholder({ word }: { word: string }) {
   const { t } = useTranslation()
   const [isPlaying, setIsPlaying] = useState(false)
 
@@ -147,7 +108,7 @@ function VideoPlayerPlaceholder() {
           {/* Word overlay */}
           <div className="absolute bottom-4 left-4 right-4">
             <div className="bg-black/60 backdrop-blur-sm rounded px-3 py-1.5 inline-block">
-              <span className="text-white font-medium tracking-wide">PROCRASTINATE</span>
+              <span className="text-white font-medium tracking-wide uppercase">{word}</span>
             </div>
           </div>
 
@@ -205,9 +166,15 @@ function VideoPlayerPlaceholder() {
  * Spaced repetition grading buttons
  */
 function SpacedRepetitionGrading({
-  onGrade
+  onGrade,
+  intervals,
+  suggestedGrade,
+  disabled
 }: {
-  onGrade: (grade: "forgot" | "hard" | "good" | "easy") => void
+  onGrade: (grade: SpacedRepetitionGrade) => void
+  intervals: Record<FSRSRating, string> | null
+  suggestedGrade?: SpacedRepetitionGrade
+  disabled?: boolean
 }) {
   const { t } = useTranslation()
 
@@ -215,20 +182,26 @@ function SpacedRepetitionGrading({
     {
       grade: "forgot" as const,
       label: t("vocabulary.learning.forgot"),
-      interval: t("vocabulary.learning.interval.1m"),
+      interval: intervals?.[1],
       color: "bg-red-500 hover:bg-red-600 text-white"
     },
     {
       grade: "hard" as const,
       label: t("vocabulary.learning.hard"),
-      interval: t("vocabulary.learning.interval.10m"),
+      interval: intervals?.[2],
       color: "bg-amber-500 hover:bg-amber-600 text-white"
     },
     {
       grade: "good" as const,
       label: t("vocabulary.learning.good"),
-      interval: t("vocabulary.learning.interval.1d"),
+      interval: intervals?.[3],
       color: "bg-emerald-500 hover:bg-emerald-600 text-white"
+    },
+    {
+      grade: "easy" as const,
+      label: t("vocabulary.learning.easy"),
+      interval: intervals?.[4],
+      color: "bg-sky-500 hover:bg-sky-600 text-white"
     }
   ]
 
@@ -238,20 +211,31 @@ function SpacedRepetitionGrading({
         <h3 className="text-sm font-medium text-text-secondary text-center mb-4">
           —— {t("vocabulary.learning.spacedRepetition")} ——
         </h3>
-        <div className="grid grid-cols-3 gap-3">
-          {buttons.map((btn) => (
+        {suggestedGrade && (
+          <p className="text-xs text-text-tertiary text-center -mt-2 mb-4">
+            {t("vocabulary.learning.spelling.suggested", {
+              grade: t(`vocabulary.learning.${suggestedGrade}`)
+            })}
+          </p>
+        )}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {buttons.map((btn, index) => (
             <motion.button
               key={btn.grade}
               onClick={() => onGrade(btn.grade)}
+              disabled={disabled}
               className={cn(
-                "py-3 px-4 rounded-lg font-medium transition-all",
-                btn.color
+                "py-3 px-4 rounded-lg font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed",
+                btn.color,
+                suggestedGrade === btn.grade && "ring-4 ring-offset-2 ring-primary/40"
               )}
               whileHover={{ scale: 1.02 }}
               whileTap={{ scale: 0.98 }}
             >
               <span className="block">{btn.label}</span>
-              <span className="text-xs opacity-80">({btn.interval})</span>
+              <span className="text-xs opacity-80">
+                {btn.interval ? `(${btn.interval})` : `[${index + 1}]`}
+              </span>
             </motion.button>
           ))}
         </div>
@@ -260,10 +244,91 @@ function SpacedRepetitionGrading({
   )
 }
 
+/**
+ * Read a word aloud with the browser's speech synthesis, where available
+ */
+function speak(text: string) {
+  if (typeof window === "undefined" || !window.speechSynthesis) return
+  window.speechSynthesis.cancel()
+  const utterance = new SpeechSynthesisUtterance(text)
+  utterance.lang = "en-GB"
+  window.speechSynthesis.speak(utterance)
+}
+
+/**
+ * Which kind of card is being shown
+ */
+function CardTypeLabel({ cardType }: { cardType: CardTemplate }) {
+  const { t } = useTranslation()
+
+  return (
+    <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-accent-blue text-primary">
+      {t(`vocabulary.cardTemplates.${cardType}`)}
+    </span>
+  )
+}
+
+/**
+ * Prompt side of a recall, cloze or listening card
+ * Recall shows the definition, cloze the example sentence with the word blanked
+ * out (falling back to the definition), listening plays the word
+ */
+function CardPrompt({ word }: { word: WordWithProgress }) {
+  const { t } = useTranslation()
+  const clozeSentence = word.card_type === "cloze"
+    ? getClozeSentence(word.example_sentence, word.word)
+    : null
+
+  // Listening cards play the word as soon as they are shown
+  useEffect(() => {
+    if (word.card_type === "listening") speak(word.word)
+  }, [word.card_type, word.word])
+
+  if (word.card_type === "listening") {
+    return (
+      <div>
+        <h3 className="text-sm font-semibold text-text-primary mb-2 flex items-center gap-2">
+          <span className="w-1 h-4 bg-primary rounded-full" />
+          {t("vocabulary.learning.listenPrompt")}
+        </h3>
+        <div className="pl-3">
+          <Button type="button" variant="outline" onClick={() => speak(word.word)} className="gap-2">
+            <Volume2 className="h-4 w-4" />
+            {t("vocabulary.learning.playAudio")}
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-text-primary mb-2 flex items-center gap-2">
+        <span className="w-1 h-4 bg-primary rounded-full" />
+        {clozeSentence ? t("vocabulary.learning.clozePrompt") : t("vocabulary.learning.coreDefinition")}
+      </h3>
+      <div className="pl-3">
+        <p className="text-text-primary">
+          {clozeSentence ?? (word.definition || t("vocabulary.learning.noDefinition"))}
+        </p>
+      </div>
+    </div>
+  )
+}
+
 /**
  * Word card component
+ * The definition stays hidden until the learner reveals it
  */
-function WordCard({ word }: { word: WordData }) {
+function WordCard({
+  word,
+  isRevealed,
+  onReveal
+}: {
+  word: WordWithProgress
+  isRevealed: boolean
+  onReveal: () => void
+}) {
   const { t } = useTranslation()
 
   return (
@@ -280,155 +345,807 @@ function WordCard({ word }: { word: WordData }) {
                 className="p-2 rounded-full bg-neutral-background hover:bg-accent-blue text-text-secondary hover:text-primary transition-colors"
                 whileHover={{ scale: 1.1 }}
                 whileTap={{ scale: 0.9 }}
+                onClick={() => speak(word.word)}
+                aria-label={t("vocabulary.learning.playAudio")}
               >
                 <Volume2 className="h-5 w-5" />
               </motion.button>
-              <span className="text-text-secondary font-mono text-lg">
-                {word.phonetic}
-              </span>
+              {word.phonetic && (
+                <span className="text-text-secondary font-mono text-lg">
+                  {word.phonetic}
+                </span>
+              )}
             </div>
+            <span className="text-xs text-text-tertiary">
+              {t(`vocabulary.learning.state.${word.state}`)}
+            </span>
           </div>
         </div>
 
         {/* Core Definition */}
-        <div className="mb-6">
+        <div className="mb-2">
           <h3 className="text-sm font-semibold text-text-primary mb-2 flex items-center gap-2">
             <span className="w-1 h-4 bg-primary rounded-full" />
             {t("vocabulary.learning.coreDefinition")}
           </h3>
-          <div className="pl-3 space-y-1">
-            <p className="text-text-primary">
-              <span className="text-text-secondary font-medium mr-2">
-                {word.partOfSpeech}
-              </span>
-              {word.definition}
-            </p>
-            <p className="text-text-secondary text-sm">
-              <span className="text-text-tertiary font-medium mr-2">
-                {word.partOfSpeech}
-              </span>
-              {word.definitionCn}
-            </p>
+          <div className="pl-3">
+            {isRevealed ? (
+              <motion.p
+                className="text-text-primary"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+              >
+                {word.definition || t("vocabulary.learning.noDefinition")}
+              </motion.p>
+            ) : (
+              <Button variant="outline" onClick={onReveal} className="gap-2">
+                <Eye className="h-4 w-4" />
+                {t("vocabulary.learning.showAnswer")}
+              </Button>
+            )}
           </div>
         </div>
+      </CardContent>
+    </Card>
+  )
+}
 
-        {/* Authentic Context */}
-        <div className="mb-4">
-          <h3 className="text-sm font-semibold text-text-primary mb-3 flex items-center gap-2">
-            <span className="w-1 h-4 bg-primary rounded-full" />
-            {t("vocabulary.learning.authenticContext")}
-          </h3>
-          <div className="space-y-4 pl-3">
-            {word.contexts.map((context, index) => (
-              <motion.div
-                key={index}
-                className="border-l-2 border-neutral-border pl-4 py-1"
-                initial={{ opacity: 0, x: -10 }}
-                animate={{ opacity: 1, x: 0 }}
-                transition={{ delay: index * 0.1 }}
+/**
+ * Revealed recall or cloze card
+ * The word stays hidden behind its prompt until the learner reveals it
+ */
+function RecallCard({
+  word,
+  isRevealed,
+  onReveal
+}: {
+  word: WordWithProgress
+  isRevealed: boolean
+  onReveal: () => void
+}) {
+  const { t } = useTranslation()
+
+  return (
+    <Card className="overflow-hidden">
+      <CardContent className="pt-6 pb-4 space-y-6">
+        <CardPrompt word={word} />
+
+        {/* Answer */}
+        <div className="pl-3">
+          {isRevealed ? (
+            <motion.div
+              className="flex items-center gap-3"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+            >
+              <h1 className="text-3xl font-bold text-text-primary tracking-tight">
+                {word.word}
+              </h1>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => speak(word.word)}
+                aria-label={t("vocabulary.learning.playAudio")}
               >
-                <div className="flex items-center gap-2 text-xs text-text-tertiary mb-1.5">
-                  <SourceIcon type={context.sourceType} />
-                  <span>{context.source}</span>
-                </div>
-                <p className="text-text-primary text-sm leading-relaxed italic">
-                  {context.text}
-                </p>
-                <p className="text-text-secondary text-xs mt-1">
-                  {context.translation}
-                </p>
-              </motion.div>
-            ))}
+                <Volume2 className="h-5 w-5" />
+              </Button>
+              {word.phonetic && (
+                <span className="text-text-secondary font-mono text-lg">
+                  {word.phonetic}
+                </span>
+              )}
+            </motion.div>
+          ) : (
+            <Button variant="outline" onClick={onReveal} className="gap-2">
+              <Eye className="h-4 w-4" />
+              {t("vocabulary.learning.showAnswer")}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Character-level diff of a typed answer
+ */
+function SpellingDiff({ result }: { result: SpellingCheckResult }) {
+  const segmentColors = {
+    match: "text-emerald-600",
+    wrong: "text-red-600 line-through",
+    missing: "text-amber-600 underline",
+    extra: "text-red-600 line-through"
+  }
+
+  return (
+    <p className="font-mono text-2xl tracking-wider">
+      {result.diff.map((segment, index) => (
+        <span key={index} className={segmentColors[segment.type]}>
+          {segment.type === "missing" ? segment.expected : segment.text === " " ? "\u00a0" : segment.text}
+        </span>
+      ))}
+    </p>
+  )
+}
+
+/**
+ * Typed card: recall and cloze in spelling mode, and listening
+ * Shows the card's prompt; the learner types the word
+ */
+function SpellingCard({
+  word,
+  result,
+  onSubmit
+}: {
+  word: WordWithProgress
+  result: SpellingCheckResult | null
+  onSubmit: (answer: string) => void
+}) {
+  const { t } = useTranslation()
+  const [answer, setAnswer] = useState("")
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (answer.trim()) {
+      onSubmit(answer)
+    }
+  }
+
+  return (
+    <Card className="overflow-hidden">
+      <CardContent className="pt-6 pb-4 space-y-6">
+        <CardPrompt word={word} />
+
+        {/* Answer */}
+        <form onSubmit={handleSubmit} className="flex items-center gap-3">
+          <Keyboard className="h-5 w-5 text-text-tertiary shrink-0" />
+          <Input
+            autoFocus
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            placeholder={t("vocabulary.learning.spelling.placeholder")}
+            disabled={!!result}
+            autoComplete="off"
+            autoCapitalize="off"
+            spellCheck={false}
+            className="font-mono text-lg"
+          />
+          {!result && (
+            <Button type="submit" disabled={!answer.trim()}>
+              {t("vocabulary.learning.spelling.check")}
+            </Button>
+          )}
+        </form>
+
+        {/* Result */}
+        {result && (
+          <motion.div
+            className="space-y-2"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+          >
+            <p
+              className={cn(
+                "text-sm font-medium",
+                result.isCorrect ? "text-emerald-600" : "text-red-600"
+              )}
+            >
+              {result.isCorrect
+                ? t("vocabulary.learning.spelling.correct")
+                : t("vocabulary.learning.spelling.incorrect", { count: result.distance })}
+            </p>
+            <SpellingDiff result={result} />
+            {!result.isCorrect && (
+              <p className="text-sm text-text-secondary">
+                {t("vocabulary.learning.spelling.answer")}{" "}
+                <span className="font-semibold text-text-primary">{word.word}</span>
+              </p>
+            )}
+          </motion.div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Multiple-choice card for quiz mode
+ * The learner picks one of the choices; the rating follows from the answer
+ */
+function QuizCard({
+  word,
+  question,
+  result,
+  onAnswer,
+  onContinue,
+  disabled
+}: {
+  word: WordWithProgress
+  question: QuizQuestion
+  result: QuizAnswerResult | null
+  onAnswer: (choiceIndex: number) => void
+  onContinue: () => void
+  disabled?: boolean
+}) {
+  const { t } = useTranslation()
+  const isCloze = word.card_type === "cloze" && getClozeSentence(word.example_sentence, word.word) !== null
+
+  return (
+    <Card className="overflow-hidden">
+      <CardContent className="pt-6 pb-4 space-y-6">
+        {/* Prompt */}
+        {question.direction === "word_to_definition" ? (
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold text-text-primary tracking-tight">
+              {word.word}
+            </h1>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => speak(word.word)}
+              aria-label={t("vocabulary.learning.playAudio")}
+            >
+              <Volume2 className="h-5 w-5" />
+            </Button>
+            {word.phonetic && (
+              <span className="text-text-secondary font-mono text-lg">
+                {word.phonetic}
+              </span>
+            )}
+          </div>
+        ) : (
+          <div>
+            <h3 className="text-sm font-semibold text-text-primary mb-2 flex items-center gap-2">
+              <span className="w-1 h-4 bg-primary rounded-full" />
+              {isCloze ? t("vocabulary.learning.clozePrompt") : t("vocabulary.learning.coreDefinition")}
+            </h3>
+            <p className="pl-3 text-text-primary">{question.prompt}</p>
           </div>
+        )}
+
+        {/* Choices */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {question.choices.map((choice, index) => {
+            const isAnswer = index === question.answerIndex
+            const isChosen = result?.choiceIndex === index
+
+            return (
+              <button
+                key={choice.wordId}
+                type="button"
+                onClick={() => onAnswer(index)}
+                disabled={!!result}
+                className={cn(
+                  "flex items-start gap-3 p-3 rounded-lg border text-left transition-colors disabled:cursor-default",
+                  !result && "border-neutral-border hover:border-primary hover:bg-accent-blue",
+                  result && isAnswer && "border-emerald-500 bg-emerald-50",
+                  result && isChosen && !isAnswer && "border-red-500 bg-red-50",
+                  result && !isAnswer && !isChosen && "border-neutral-border opacity-60"
+                )}
+              >
+                <span className="text-xs text-text-tertiary font-mono mt-0.5">[{index + 1}]</span>
+                <span
+                  className={cn(
+                    "text-text-primary",
+                    question.direction === "definition_to_word" && "font-medium"
+                  )}
+                >
+                  {choice.text}
+                </span>
+              </button>
+            )
+          })}
         </div>
+
+        {/* Result */}
+        {result && (
+          <motion.div
+            className="flex items-center justify-between gap-3"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+          >
+            <p
+              className={cn(
+                "text-sm font-medium",
+                result.isCorrect ? "text-emerald-600" : "text-red-600"
+              )}
+            >
+              {result.isCorrect
+                ? t("vocabulary.learning.quiz.correct")
+                : t("vocabulary.learning.quiz.incorrect", { answer: question.choices[question.answerIndex].text })}
+            </p>
+            <Button onClick={onContinue} disabled={disabled} className="shrink-0">
+              {t("vocabulary.learning.quiz.continue", {
+                grade: t(`vocabulary.learning.${RATING_TO_GRADE[result.suggestedRating]}`)
+              })}
+            </Button>
+          </motion.div>
+        )}
       </CardContent>
     </Card>
   )
 }
 
 /**
- * Side panel with etymology, synonyms, antonyms
+ * Side panel with live session statistics
  */
-function WordInfoPanel({ word }: { word: WordData }) {
+function SessionStatsPanel({
+  reviewedCount,
+  correctCount,
+  remainingCount
+}: {
+  reviewedCount: number
+  correctCount: number
+  remainingCount: number
+}) {
   const { t } = useTranslation()
+  const accuracy = reviewedCount > 0 ? Math.round((correctCount / reviewedCount) * 100) : 0
+
+  const rows = [
+    {
+      icon: <CheckCircle2 className="h-4 w-4 text-emerald-600" />,
+      label: t("vocabulary.learning.wordsReviewed"),
+      value: reviewedCount
+    },
+    {
+      icon: <Target className="h-4 w-4 text-primary" />,
+      label: t("vocabulary.learning.accuracy"),
+      value: `${accuracy}%`
+    },
+    {
+      icon: <Clock className="h-4 w-4 text-amber-600" />,
+      label: t("vocabulary.learning.remaining"),
+      value: remainingCount
+    }
+  ]
 
   return (
-    <div className="space-y-4">
-      {/* Etymology */}
-      <Card className="bg-neutral-background border border-neutral-border">
-        <CardContent className="pt-4">
-          <h3 className="text-sm font-semibold text-text-primary mb-3 flex items-center gap-2">
-            <span className="w-1 h-4 bg-violet-500 rounded-full" />
-            {t("vocabulary.learning.etymology")}
-          </h3>
-          <div className="text-sm space-y-1">
-            <p className="text-text-primary font-medium">{word.etymology.breakdown}</p>
-            <p className="text-text-secondary">{word.etymology.meaning}</p>
+    <Card className="bg-neutral-background border border-neutral-border">
+      <CardContent className="pt-4 space-y-3">
+        {rows.map((row) => (
+          <div key={row.label} className="flex items-center justify-between text-sm">
+            <span className="flex items-center gap-2 text-text-secondary">
+              {row.icon}
+              {row.label}
+            </span>
+            <span className="font-semibold text-text-primary">{row.value}</span>
           </div>
-        </CardContent>
-      </Card>
-
-      {/* Synonyms */}
-      <Card className="bg-neutral-background border border-neutral-border">
-        <CardContent className="pt-4">
-          <h3 className="text-sm font-semibold text-text-primary mb-3 flex items-center gap-2">
-            <span className="w-1 h-4 bg-blue-500 rounded-full" />
-            {t("vocabulary.learning.synonyms")}
-          </h3>
-          <ul className="space-y-1">
-            {word.synonyms.map((syn, i) => (
-              <li key={i} className="text-sm text-text-secondary flex items-center gap-2">
-                <span className="text-text-tertiary">-</span>
-                {syn}
-              </li>
-            ))}
-          </ul>
-        </CardContent>
-      </Card>
-
-      {/* Antonyms */}
-      <Card className="bg-neutral-background border border-neutral-border">
-        <CardContent className="pt-4">
-          <h3 className="text-sm font-semibold text-text-primary mb-3 flex items-center gap-2">
-            <span className="w-1 h-4 bg-orange-500 rounded-full" />
-            {t("vocabulary.learning.antonyms")}
-          </h3>
-          <ul className="space-y-1">
-            {word.antonyms.map((ant, i) => (
-              <li key={i} className="text-sm text-text-secondary flex items-center gap-2">
-                <span className="text-text-tertiary">-</span>
-                {ant}
-              </li>
-            ))}
-          </ul>
-        </CardContent>
-      </Card>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Actions that take the current card out of scheduling
+ */
+function CardFlagActions({
+  onFlag,
+  disabled
+}: {
+  onFlag: (flag: WordFlag) => void
+  disabled: boolean
+}) {
+  const { t } = useTranslation()
+
+  const actions: { flag: WordFlag; icon: React.ReactNode; label: string }[] = [
+    { flag: "suspended", icon: <Ban className="h-4 w-4" />, label: t("vocabulary.flags.suspend") },
+    { flag: "buried", icon: <MoonStar className="h-4 w-4" />, label: t("vocabulary.flags.bury") },
+    { flag: "known", icon: <CheckCheck className="h-4 w-4" />, label: t("vocabulary.flags.markKnown") }
+  ]
+
+  return (
+    <div className="flex flex-wrap justify-center gap-2">
+      {actions.map((action) => (
+        <Button
+          key={action.flag}
+          variant="ghost"
+          size="sm"
+          onClick={() => onFlag(action.flag)}
+          disabled={disabled}
+          className="text-text-secondary"
+        >
+          {action.icon}
+          <span className="ml-1.5">{action.label}</span>
+        </Button>
+      ))}
     </div>
   )
 }
 
+/**
+ * Centered message used for loading, empty, waiting and completed states
+ */
+function SessionMessage({
+  icon,
+  title,
+  description,
+  actionLabel,
+  onAction
+}: {
+  icon: React.ReactNode
+  title: string
+  description?: string
+  actionLabel?: string
+  onAction?: () => void
+}) {
+  return (
+    <Card>
+      <CardContent className="py-16 flex flex-col items-center gap-4 text-center">
+        {icon}
+        <h2 className="text-xl font-semibold text-text-primary">{title}</h2>
+        {description && <p className="text-sm text-text-secondary">{description}</p>}
+        {actionLabel && onAction && (
+          <Button onClick={onAction} className="mt-2">
+            {actionLabel}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+interface VocabularyLearningProps {
+  acrossBooks?: boolean  // Review the due cards of every book instead of one book's session
+  customStudy?: boolean  // Practise the custom study set in the route, in preview
+}
+
 /**
  * Main VocabularyLearning page component
  */
-export function VocabularyLearning() {
+export function VocabularyLearning({ acrossBooks = false, customStudy = false }: VocabularyLearningProps) {
   const { t } = useTranslation()
   const navigation = useNavigation()
-  const [currentWord] = useState(mockCurrentWord)
-  const session = mockSessionData
+  const { user } = useAuth()
+  const [revealedCardId, setRevealedCardId] = useState<string | null>(null)
+  const [spellingResult, setSpellingResult] = useState<{
+    cardKey: string
+    result: SpellingCheckResult
+  } | null>(null)
+  const [quizResult, setQuizResult] = useState<{
+    cardKey: string
+    result: QuizAnswerResult
+  } | null>(null)
+
+  // Extract bookId from URL - route pattern /vocabulary/:bookId/learn
+  const bookId = useMemo(() => {
+    if (acrossBooks) return null
+    const path = navigation.getCurrentPath()
+    const match = path.match(/\/vocabulary\/([^/]+)/)
+    return match ? match[1] : null
+  }, [navigation, acrossBooks])
+  const [reviewOrder, setReviewOrder] = useState<ReviewQueueOrder>("interleave")
+
+  // Custom study route pattern /vocabulary/:bookId/custom/:filter/:limit[/:tag]
+  const customStudyCriteria = useMemo(
+    () => (customStudy ? parseCustomStudyPath(navigation.getCurrentPath()) : null),
+    [navigation, customStudy]
+  )
+  const isInvalidCustomStudy = customStudy && !customStudyCriteria
+
+  const {
+    book,
+    books,
+    settings,
+    isPreview,
+    currentCard,
+    schedulePreview,
+    reviewedCount,
+    correctCount,
+    remainingCount,
+    totalCount,
+    nextDueAt,
+    isWaiting,
+    isComplete,
+    isLoading,
+    error,
+    grade,
+    isGrading,
+    gradeError,
+    undo,
+    canUndo,
+    isUndoing,
+    undoError,
+    flagCard,
+    isFlagging,
+    flagError,
+    isOffline,
+    pendingSyncCount,
+    isSyncing
+  } = useLearningSession({
+    bookId: isInvalidCustomStudy ? null : bookId,
+    userId: user?.id ?? null,
+    acrossBooks: acrossBooks ? reviewOrder : undefined,
+    customStudy: customStudyCriteria ?? undefined
+  })
+
+  // Recall and cloze follow the book's learning mode; listening is always typed
+  const learningMode = settings?.learning_mode ?? "read_only"
+  const isTypedMode = !!currentCard && isTypedCard(currentCard.word.card_type, learningMode)
+  const isQuizMode = !!currentCard && isQuizCard(currentCard.word.card_type, learningMode)
+
+  // Each showing of a card (including a requeued learning card) starts hidden
+  const cardKey = currentCard ? `${currentCard.word.id}:${currentCard.word.card_type}:${reviewedCount}` : null
+
+  // Quiz distractors come from the card's own book; without enough of them the card is revealed instead
+  const { words: quizWords, isLoading: isQuizLoading } = useQuizWords({
+    bookId: currentCard?.word.book_id ?? null,
+    enabled: isQuizMode
+  })
+  const quizQuestion = useMemo(
+    () => (isQuizMode && currentCard && cardKey ? buildQuizQuestion(currentCard.word, quizWords, cardKey) : null),
+    [isQuizMode, currentCard, cardKey, quizWords]
+  )
+
+  const currentSpelling =
+    cardKey !== null && spellingResult?.cardKey === cardKey ? spellingResult.result : null
+  const currentQuiz =
+    cardKey !== null && quizResult?.cardKey === cardKey ? quizResult.result : null
+  const isRevealed = isTypedMode
+    ? currentSpelling !== null
+    : quizQuestion
+      ? currentQuiz !== null
+      : cardKey !== null && revealedCardId === cardKey
+  const suggestedRating = currentSpelling?.suggestedRating ?? currentQuiz?.suggestedRating
+  const suggestedGrade = suggestedRating ? RATING_TO_GRADE[suggestedRating] : undefined
+
+  // Review time runs from reveal to grade; on typed and quiz cards the prompt is the revealed side
+  const { getElapsedMs } = useReviewTimer(isTypedMode || quizQuestion || isRevealed ? cardKey : null)
 
   const handleBack = () => {
-    navigation.navigate(`/vocabulary/${session.bookId}`)
+    navigation.navigate(bookId ? `/vocabulary/${bookId}` : "/vocabulary")
+  }
+
+  const handleGrade = async (value: SpacedRepetitionGrade) => {
+    if (isGrading) return
+    try {
+      await grade(value, getElapsedMs())
+    } catch (err) {
+      console.error("Error saving review:", err)
+    }
+  }
+
+  const handleUndo = async () => {
+    try {
+      await undo()
+    } catch (err) {
+      console.error("Error undoing review:", err)
+    }
+  }
+
+  const handleFlag = async (flag: WordFlag) => {
+    try {
+      await flagCard(flag)
+    } catch (err) {
+      console.error("Error flagging word:", err)
+    }
+  }
+
+  const handleSpellingSubmit = (answer: string) => {
+    if (!currentCard || !cardKey) return
+    const result = checkSpelling(answer, currentCard.word.word, getElapsedMs() ?? 0)
+    setSpellingResult({ cardKey, result })
   }
 
-  const handleGrade = (_grade: "forgot" | "hard" | "good" | "easy") => {
-    // TODO: Will implement spaced repetition logic later
+  const handleQuizAnswer = (choiceIndex: number) => {
+    if (!quizQuestion || !cardKey) return
+    const result = checkQuizAnswer(quizQuestion, choiceIndex, getElapsedMs() ?? 0)
+    setQuizResult({ cardKey, result })
+  }
+
+  // The derived rating is saved with the time taken to answer, not to continue
+  const handleQuizContinue = async () => {
+    if (!currentQuiz || isGrading) return
+    try {
+      await grade(RATING_TO_GRADE[currentQuiz.suggestedRating], currentQuiz.answerTimeMs)
+    } catch (err) {
+      console.error("Error saving review:", err)
+    }
   }
 
   const handleNavigate = (itemId: string) => {
     navigation.navigate(`/${itemId}`)
   }
 
-  const progressPercent = (session.currentIndex / session.totalWords) * 100
+  // Keyboard shortcuts: Space reveals, 1-4 grade (or pick a quiz choice), Enter accepts the suggested rating, Ctrl/Cmd+Z undoes
+  useEffect(() => {
+    const grades: SpacedRepetitionGrade[] = ["forgot", "hard", "good", "easy"]
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z") {
+        e.preventDefault()
+        undo().catch((err) => console.error("Error undoing review:", err))
+        return
+      }
+      if (!cardKey || isGrading) return
+      if (e.key === " " && !isRevealed && !isTypedMode && !quizQuestion) {
+        e.preventDefault()
+        setRevealedCardId(cardKey)
+        return
+      }
+      if (e.key === "Enter" && suggestedGrade) {
+        e.preventDefault()
+        grade(suggestedGrade, currentQuiz ? currentQuiz.answerTimeMs : getElapsedMs())
+          .catch((err) => console.error("Error saving review:", err))
+        return
+      }
+      const index = Number(e.key) - 1
+      if (quizQuestion) {
+        // Quiz ratings are derived, so the number keys only pick a choice
+        if (!currentQuiz && index >= 0 && index < quizQuestion.choices.length) {
+          setQuizResult({ cardKey, result: checkQuizAnswer(quizQuestion, index, getElapsedMs() ?? 0) })
+        }
+        return
+      }
+      if (isRevealed && index >= 0 && index < grades.length) {
+        grade(grades[index], getElapsedMs()).catch((err) => console.error("Error saving review:", err))
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [cardKey, isRevealed, isTypedMode, quizQuestion, currentQuiz, suggestedGrade, isGrading, grade, undo, getElapsedMs])
+
+  const progressPercent = totalCount > 0 ? ((totalCount - remainingCount) / totalCount) * 100 : 0
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <SessionMessage
+          icon={<Loader2 className="h-8 w-8 animate-spin text-primary" />}
+          title={t("vocabulary.learning.loading")}
+        />
+      )
+    }
+
+    if (error || isInvalidCustomStudy) {
+      return (
+        <SessionMessage
+          icon={<AlertCircle className="h-10 w-10 text-red-500" />}
+          title={t("vocabulary.learning.loadFailed")}
+          actionLabel={acrossBooks ? t("vocabulary.dueReview.backToBooks") : t("vocabulary.learning.backToBook")}
+          onAction={handleBack}
+        />
+      )
+    }
+
+    if (isComplete) {
+      const accuracy = reviewedCount > 0 ? Math.round((correctCount / reviewedCount) * 100) : 0
+      return (
+        <SessionMessage
+          icon={<CheckCircle2 className="h-12 w-12 text-emerald-500" />}
+          title={
+            totalCount > 0
+              ? t("vocabulary.learning.complete")
+              : isPreview ? t("vocabulary.customStudy.empty") : t("vocabulary.learning.nothingDue")
+          }
+          description={
+            totalCount > 0
+              ? `${t("vocabulary.learning.wordsReviewed")}: ${reviewedCount} · ${t("vocabulary.learning.accuracy")}: ${accuracy}%`
+              : undefined
+          }
+          actionLabel={t("vocabulary.learning.finishSession")}
+          onAction={handleBack}
+        />
+      )
+    }
+
+    if (isWaiting && nextDueAt !== null) {
+      const waitTime = new Date(nextDueAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+      return (
+        <SessionMessage
+          icon={<Clock className="h-10 w-10 text-amber-500" />}
+          title={t("vocabulary.learning.waiting")}
+          description={t("vocabulary.learning.nextCardAt", { time: waitTime })}
+          actionLabel={t("vocabulary.learning.finishSession")}
+          onAction={handleBack}
+        />
+      )
+    }
+
+    if (!currentCard) return null
+
+    const cardBook = acrossBooks ? books.find((b) => b.book_id === currentCard.word.book_id) : undefined
+
+    return (
+      <>
+        <div className="flex items-center gap-3">
+          <CardTypeLabel cardType={currentCard.word.card_type} />
+          {cardBook && (
+            <p className="text-xs text-text-secondary">
+              {t("vocabulary.dueReview.fromBook", { name: cardBook.name })}
+            </p>
+          )}
+        </div>
+
+        <AnimatePresence mode="wait">
+          <motion.div
+            key={cardKey}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            transition={{ duration: 0.3 }}
+          >
+            {isTypedMode ? (
+              <SpellingCard
+                word={currentCard.word}
+                result={currentSpelling}
+                onSubmit={handleSpellingSubmit}
+              />
+            ) : quizQuestion ? (
+              <QuizCard
+                word={currentCard.word}
+                question={quizQuestion}
+                result={currentQuiz}
+                onAnswer={handleQuizAnswer}
+                onContinue={handleQuizContinue}
+                disabled={isGrading}
+              />
+            ) : isQuizMode && isQuizLoading ? (
+              <Card>
+                <CardContent className="flex items-center justify-center py-12">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </CardContent>
+              </Card>
+            ) : currentCard.word.card_type !== "recognition" ? (
+              <RecallCard
+                word={currentCard.word}
+                isRevealed={isRevealed}
+                onReveal={() => setRevealedCardId(cardKey)}
+              />
+            ) : (
+              <WordCard
+                word={currentCard.word}
+                isRevealed={isRevealed}
+                onReveal={() => setRevealedCardId(cardKey)}
+              />
+            )}
+          </motion.div>
+        </AnimatePresence>
+
+        {/* YouGlish Video Player - hidden until answered unless the card shows the word */}
+        {(currentCard.word.card_type === "recognition" || isRevealed) && (
+          <VideoPlayerPlaceholder word={currentCard.word.word} />
+        )}
+
+        {/* Suspend / bury / known - flags are saved on the server, so not while offline; preview leaves the schedule alone */}
+        {!isPreview && (
+          <CardFlagActions onFlag={handleFlag} disabled={isGrading || isFlagging || isOffline} />
+        )}
+
+        {/* Spaced Repetition Grading - quiz cards are rated from the answer */}
+        {isRevealed && !quizQuestion && (
+          <SpacedRepetitionGrading
+            onGrade={handleGrade}
+            intervals={schedulePreview}
+            suggestedGrade={suggestedGrade}
+            disabled={isGrading}
+          />
+        )}
+
+        {gradeError && (
+          <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{t("vocabulary.learning.gradeFailed")}</span>
+          </div>
+        )}
+
+        {undoError && (
+          <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{t("vocabulary.learning.undoFailed")}</span>
+          </div>
+        )}
+
+        {flagError && (
+          <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{t("vocabulary.flags.failed")}</span>
+          </div>
+        )}
+      </>
+    )
+  }
 
   return (
     <MainLayout activeNav="vocabulary" onNavigate={handleNavigate}>
@@ -450,53 +1167,94 @@ export function VocabularyLearning() {
               <ArrowLeft className="h-5 w-5" />
             </Button>
             <div>
-              <h1 className="text-lg font-semibold text-text-primary">
-                {session.bookName}
+              <h1 className="text-lg font-semibold text-text-primary flex items-center gap-2">
+                {acrossBooks ? t("vocabulary.dueReview.title") : book?.name ?? ""}
+                {isPreview && (
+                  <span
+                    className="text-xs font-medium px-2 py-0.5 rounded-full bg-amber-50 text-amber-700"
+                    title={t("vocabulary.customStudy.previewNote")}
+                  >
+                    {t("vocabulary.customStudy.badge")}
+                  </span>
+                )}
               </h1>
               <p className="text-sm text-text-secondary">
                 {t("vocabulary.learning.progress", {
-                  current: session.currentIndex,
-                  total: session.totalWords
+                  current: totalCount - remainingCount,
+                  total: totalCount
                 })}
               </p>
             </div>
           </div>
 
-          {/* Progress Bar */}
+          {/* Interleave or group the books - cards already shown keep their place */}
+          {acrossBooks && books.length > 1 && (
+            <ToggleGroup
+              type="single"
+              value={reviewOrder}
+              onValueChange={(value) => {
+                if (value) setReviewOrder(value as ReviewQueueOrder)
+              }}
+            >
+              <ToggleGroupItem value="interleave">
+                {t("vocabulary.dueReview.order.interleave")}
+              </ToggleGroupItem>
+              <ToggleGroupItem value="by_book">
+                {t("vocabulary.dueReview.order.by_book")}
+              </ToggleGroupItem>
+            </ToggleGroup>
+          )}
+
+          {/* Undo and Progress Bar */}
           <div className="flex items-center gap-3 flex-1 max-w-xs">
-            <Progress value={progressPercent} className="h-2" animated />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleUndo}
+              disabled={!canUndo || isUndoing}
+              title={t("vocabulary.learning.undo")}
+              aria-label={t("vocabulary.learning.undo")}
+              className="shrink-0"
+            >
+              {isUndoing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Undo2 className="h-4 w-4" />}
+            </Button>
+            <Progress value={progressPercent} className="h-2" />
             <span className="text-sm text-text-secondary whitespace-nowrap">
               {Math.round(progressPercent)}%
             </span>
           </div>
         </div>
 
+        {/* Offline Status */}
+        {(isOffline || pendingSyncCount > 0) && (
+          <div className="flex items-center gap-2 p-3 bg-amber-50 text-amber-700 rounded-lg text-sm">
+            {isSyncing ? (
+              <Loader2 className="h-4 w-4 flex-shrink-0 animate-spin" />
+            ) : (
+              <CloudOff className="h-4 w-4 flex-shrink-0" />
+            )}
+            <span>
+              {isOffline
+                ? t("vocabulary.learning.offline", { count: pendingSyncCount })
+                : t("vocabulary.learning.pendingSync", { count: pendingSyncCount })}
+            </span>
+          </div>
+        )}
+
         {/* Main Content */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
           {/* Left Column - Word Card */}
           <div className="lg:col-span-2 space-y-4">
-            <AnimatePresence mode="wait">
-              <motion.div
-                key={currentWord.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: -20 }}
-                transition={{ duration: 0.3 }}
-              >
-                <WordCard word={currentWord} />
-              </motion.div>
-            </AnimatePresence>
-
-            {/* YouGlish Video Player */}
-            <VideoPlayerPlaceholder />
-
-            {/* Spaced Repetition Grading */}
-            <SpacedRepetitionGrading onGrade={handleGrade} />
+            {renderContent()}
           </div>
 
-          {/* Right Column - Word Info */}
+          {/* Right Column - Session Stats */}
           <div>
-            <WordInfoPanel word={currentWord} />
+            <SessionStatsPanel
+              reviewedCount={reviewedCount}
+              correctCount={correctCount}
+              remainingCount={remainingCount}
+            />
           </div>
         </div>
       </motion.div>
@@ -505,4 +1263,3 @@ export function VocabularyLearning() {
 }
 
 export default VocabularyLearning
-
@@ -0,0 +1,44 @@
+/**
+ * Workload Diff Chart
+ * Daily reviews before and after a change of due dates (a vacation shift or a reschedule)
+ */
+
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as RechartsTooltip,
+  ResponsiveContainer,
+  Legend
+} from "recharts"
+import type { WorkloadDiffDay } from "@ace-ielts/core"
+
+interface WorkloadDiffChartProps {
+  workload: WorkloadDiffDay[]
+  beforeLabel: string
+  afterLabel: string
+}
+
+export function WorkloadDiffChart({ workload, beforeLabel, afterLabel }: WorkloadDiffChartProps) {
+  const data = workload.map((day) => ({ ...day, label: day.date.slice(5) }))
+
+  return (
+    <div className="h-[180px]">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+          <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+          <YAxis allowDecimals={false} tick={{ fontSize: 10 }} />
+          <RechartsTooltip />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          <Bar dataKey="before" name={beforeLabel} fill="#94A3B8" />
+          <Bar dataKey="after" name={afterLabel} fill="#6366F1" />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
+
+export default WorkloadDiffChart
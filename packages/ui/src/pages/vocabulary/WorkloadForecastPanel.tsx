@@ -0,0 +1,152 @@
+/**
+ * Workload Forecast Panel
+ * Projected daily reviews of a book for the next 30 or 90 days, with a
+ * what-if rate of new words
+ */
+
+import { useState } from "react"
+import { CalendarRange, Loader2 } from "lucide-react"
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as RechartsTooltip,
+  ResponsiveContainer,
+  Legend
+} from "recharts"
+import { useTranslation, useWorkloadForecast } from "@ace-ielts/core"
+
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  ToggleGroup,
+  ToggleGroupItem
+} from "../../components"
+
+type ForecastHorizon = "30" | "90"
+
+interface WorkloadForecastPanelProps {
+  userId: string
+  bookId: string
+  className?: string
+}
+
+export function WorkloadForecastPanel({ userId, bookId, className }: WorkloadForecastPanelProps) {
+  const { t } = useTranslation()
+  const [horizon, setHorizon] = useState<ForecastHorizon>("30")
+  // Empty until the user tries another rate; the book's own limit is used meanwhile
+  const [newPerDay, setNewPerDay] = useState("")
+
+  const parsedNewPerDay = newPerDay.trim() ? parseInt(newPerDay, 10) : undefined
+  const isValidRate = parsedNewPerDay === undefined || (!isNaN(parsedNewPerDay) && parsedNewPerDay >= 0)
+
+  const { forecast, dailyNewLimit, isLoading } = useWorkloadForecast({
+    userId,
+    bookId,
+    days: Number(horizon),
+    newPerDay: isValidRate ? parsedNewPerDay : undefined
+  })
+
+  const data = forecast.map((day) => ({ ...day, label: day.date.slice(5) }))
+  const totals = forecast.map((day) => day.dueReviews + day.newWordReviews)
+  const total = totals.reduce((sum, count) => sum + count, 0)
+  const peak = Math.max(0, ...totals)
+  const peakDay = forecast[totals.indexOf(peak)]
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-1">
+        <div className="flex items-center justify-between gap-3 flex-wrap">
+          <CardTitle className="text-base flex items-center gap-2">
+            <CalendarRange className="h-4 w-4 text-primary" />
+            {t("vocabulary.forecast.title")}
+          </CardTitle>
+          <ToggleGroup
+            type="single"
+            value={horizon}
+            onValueChange={(value) => {
+              if (value) setHorizon(value as ForecastHorizon)
+            }}
+          >
+            <ToggleGroupItem value="30" aria-label="30 days">
+              {t("vocabulary.forecast.days", { count: 30 })}
+            </ToggleGroupItem>
+            <ToggleGroupItem value="90" aria-label="90 days">
+              {t("vocabulary.forecast.days", { count: 90 })}
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-2 pb-4 space-y-3">
+        <div className="flex items-center gap-4">
+          <Label htmlFor="forecast-new-per-day" className="min-w-[140px]">
+            {t("vocabulary.forecast.newPerDay")}
+          </Label>
+          <Input
+            id="forecast-new-per-day"
+            type="number"
+            min="0"
+            value={newPerDay}
+            placeholder={dailyNewLimit !== null ? String(dailyNewLimit) : undefined}
+            onChange={(e) => setNewPerDay(e.target.value)}
+            className="w-28"
+          />
+          {!isValidRate && (
+            <span className="text-xs text-red-600">{t("vocabulary.forecast.invalidNewPerDay")}</span>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="h-[220px] flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-text-tertiary" />
+          </div>
+        ) : (
+          <>
+            <div className="h-[220px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={data} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                  <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 10 }} />
+                  <RechartsTooltip />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  <Bar
+                    dataKey="dueReviews"
+                    stackId="reviews"
+                    name={t("vocabulary.forecast.dueReviews")}
+                    fill="#6366F1"
+                  />
+                  <Bar
+                    dataKey="newWordReviews"
+                    stackId="reviews"
+                    name={t("vocabulary.forecast.newWordReviews")}
+                    fill="#F59E0B"
+                  />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="text-xs text-text-secondary">
+              {peakDay
+                ? t("vocabulary.forecast.summary", {
+                  total,
+                  average: Math.round(total / forecast.length),
+                  peak,
+                  date: peakDay.date
+                })
+                : t("vocabulary.forecast.empty")}
+            </p>
+          </>
+        )}
+        <p className="text-xs text-text-tertiary">{t("vocabulary.forecast.hint")}</p>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default WorkloadForecastPanel
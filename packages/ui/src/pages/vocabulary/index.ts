@@ -7,4 +7,12 @@ export { VocabularyBookDetail } from "./VocabularyBookDetail"
 export { VocabularyLearning } from "./VocabularyLearning"
 export { CreateBookDialog } from "./CreateBookDialog"
 export { BookSettingsDialog } from "./BookSettingsDialog"
+export { FSRSOptimizerDialog } from "./FSRSOptimizerDialog"
+export { LeechesPanel } from "./LeechesPanel"
+export { VacationDialog } from "./VacationDialog"
+export { RescheduleDialog } from "./RescheduleDialog"
+export { WorkloadDiffChart } from "./WorkloadDiffChart"
+export { StudyDayDialog } from "./StudyDayDialog"
+export { WorkloadForecastPanel } from "./WorkloadForecastPanel"
+export { CustomStudyDialog } from "./CustomStudyDialog"
 
@@ -0,0 +1,62 @@
+-- ============================================
+-- User FSRS Parameters Migration
+-- Stores FSRS weights fitted to each user's review history
+-- ============================================
+
+-- Create user_fsrs_params table
+CREATE TABLE IF NOT EXISTS "public"."user_fsrs_params" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  
+  -- Fitted FSRS weights
+  "w" FLOAT8[] NOT NULL,
+  
+  -- Fit quality on the training history
+  "review_count" INTEGER NOT NULL DEFAULT 0,
+  "log_loss_before" FLOAT NOT NULL,
+  "log_loss_after" FLOAT NOT NULL,
+  "rmse_before" FLOAT NOT NULL,
+  "rmse_after" FLOAT NOT NULL,
+  "optimized_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  
+  -- Unique constraint: one parameter set per user
+  CONSTRAINT "user_fsrs_params_user_key" UNIQUE ("user_id")
+);
+
+-- Enable RLS
+ALTER TABLE "public"."user_fsrs_params" ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view own FSRS params" ON "public"."user_fsrs_params"
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own FSRS params" ON "public"."user_fsrs_params"
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own FSRS params" ON "public"."user_fsrs_params"
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own FSRS params" ON "public"."user_fsrs_params"
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Create trigger for updated_at
+CREATE OR REPLACE FUNCTION "public"."update_user_fsrs_params_updated_at"()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "update_user_fsrs_params_updated_at"
+BEFORE UPDATE ON "public"."user_fsrs_params"
+FOR EACH ROW
+EXECUTE FUNCTION "public"."update_user_fsrs_params_updated_at"();
+
+-- Grant permissions
+GRANT ALL ON TABLE "public"."user_fsrs_params" TO "anon";
+GRANT ALL ON TABLE "public"."user_fsrs_params" TO "authenticated";
+GRANT ALL ON TABLE "public"."user_fsrs_params" TO "service_role";
@@ -0,0 +1,17 @@
+-- ============================================
+-- FSRS Version Migration
+-- Adds the algorithm version to user FSRS parameters (FSRS-4.5 or FSRS-5)
+-- Existing users stay on FSRS-4.5 until they opt in
+-- ============================================
+
+ALTER TABLE "public"."user_fsrs_params"
+  ADD COLUMN IF NOT EXISTS "version" TEXT NOT NULL DEFAULT '4.5' CHECK (version IN ('4.5', '5'));
+
+-- Switching version stores that version's defaults, which have no fit metrics yet
+ALTER TABLE "public"."user_fsrs_params"
+  ALTER COLUMN "log_loss_before" DROP NOT NULL,
+  ALTER COLUMN "log_loss_after" DROP NOT NULL,
+  ALTER COLUMN "rmse_before" DROP NOT NULL,
+  ALTER COLUMN "rmse_after" DROP NOT NULL,
+  ALTER COLUMN "optimized_at" DROP NOT NULL,
+  ALTER COLUMN "optimized_at" DROP DEFAULT;
@@ -0,0 +1,15 @@
+-- ============================================
+-- Scheduling Algorithm Migration
+-- Lets a book choose its spaced repetition algorithm (FSRS, SM-2 or Leitner)
+-- and stores algorithm-specific card state on user_word_progress
+-- ============================================
+
+-- Algorithm chosen in book settings
+ALTER TABLE "public"."book_settings"
+  ADD COLUMN IF NOT EXISTS "scheduling_algorithm" TEXT NOT NULL DEFAULT 'fsrs'
+  CHECK (scheduling_algorithm IN ('fsrs', 'sm2', 'leitner'));
+
+-- Algorithm-specific state, e.g. {"algorithm": "sm2", "ease": 2.5, "interval": 6, "repetitions": 2}
+-- or {"algorithm": "leitner", "box": 3}; NULL for FSRS, which uses the core columns
+ALTER TABLE "public"."user_word_progress"
+  ADD COLUMN IF NOT EXISTS "scheduler_state" JSONB;
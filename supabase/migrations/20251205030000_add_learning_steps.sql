@@ -0,0 +1,14 @@
+-- ============================================
+-- Learning Steps Migration
+-- Adds per-book learning and relearning step lists (in minutes)
+-- ============================================
+
+-- Steps a new word passes through before graduating to day-based reviews
+ALTER TABLE "public"."book_settings"
+  ADD COLUMN IF NOT EXISTS "learning_steps" INTEGER[] NOT NULL DEFAULT '{1,10}'
+  CHECK (cardinality(learning_steps) BETWEEN 1 AND 10);
+
+-- Steps a lapsed word passes through before returning to day-based reviews
+ALTER TABLE "public"."book_settings"
+  ADD COLUMN IF NOT EXISTS "relearning_steps" INTEGER[] NOT NULL DEFAULT '{10}'
+  CHECK (cardinality(relearning_steps) BETWEEN 1 AND 10);
@@ -0,0 +1,14 @@
+-- ============================================
+-- Retention Settings Migration
+-- Adds per-book desired retention and maximum interval used by the scheduler
+-- ============================================
+
+-- Target probability of recall when a word comes up for review
+ALTER TABLE "public"."book_settings"
+  ADD COLUMN IF NOT EXISTS "desired_retention" NUMERIC(3, 2) NOT NULL DEFAULT 0.90
+  CHECK (desired_retention >= 0.70 AND desired_retention <= 0.99);
+
+-- Longest gap between reviews, in days
+ALTER TABLE "public"."book_settings"
+  ADD COLUMN IF NOT EXISTS "maximum_interval" INTEGER NOT NULL DEFAULT 365
+  CHECK (maximum_interval >= 1 AND maximum_interval <= 36500);
@@ -0,0 +1,41 @@
+-- ============================================
+-- Load Balancing Migration
+-- Lets a book fuzz review intervals towards the day with the fewest reviews due
+-- ============================================
+
+-- 1. Book setting
+ALTER TABLE "public"."book_settings"
+  ADD COLUMN IF NOT EXISTS "load_balancing" BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ============================================
+-- 2. Count reviews due per day for a user (all books)
+-- Days are taken in the caller's time zone
+-- ============================================
+
+CREATE OR REPLACE FUNCTION "public"."get_due_load"(
+  p_user_id UUID,
+  p_days INTEGER,
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day DATE,
+  due_count INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    (uwp.due_at AT TIME ZONE p_timezone)::DATE AS day,
+    COUNT(*)::INTEGER AS due_count
+  FROM user_word_progress uwp
+  WHERE uwp.user_id = p_user_id
+    AND uwp.state <> 'new'
+    AND uwp.due_at >= NOW()
+    AND uwp.due_at < NOW() + make_interval(days => p_days + 1)
+  GROUP BY 1
+  ORDER BY 1;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION "public"."get_due_load"(UUID, INTEGER, TEXT) TO "anon";
+GRANT EXECUTE ON FUNCTION "public"."get_due_load"(UUID, INTEGER, TEXT) TO "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."get_due_load"(UUID, INTEGER, TEXT) TO "service_role";
@@ -0,0 +1,249 @@
+-- ============================================
+-- Review Undo Migration
+-- Snapshots the word progress and book counters in each review log so the
+-- latest review can be undone exactly
+-- ============================================
+
+-- ============================================
+-- 1. Snapshot columns on review_logs
+-- ============================================
+
+ALTER TABLE "public"."review_logs"
+ADD COLUMN IF NOT EXISTS "progress_before" JSONB,
+ADD COLUMN IF NOT EXISTS "book_progress_before" JSONB;
+
+CREATE POLICY "Users can delete own review logs" ON "public"."review_logs"
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- ============================================
+-- 2. apply_review now records the snapshots
+-- ============================================
+
+CREATE OR REPLACE FUNCTION "public"."apply_review"(
+  p_user_id UUID,
+  p_word_id UUID,
+  p_book_id UUID,
+  p_rating INTEGER,
+  p_expected_total_reviews INTEGER,
+  p_state TEXT,
+  p_difficulty FLOAT,
+  p_stability FLOAT,
+  p_retrievability FLOAT,
+  p_elapsed_days INTEGER,
+  p_scheduled_days INTEGER,
+  p_due_at TIMESTAMPTZ,
+  p_learning_step INTEGER,
+  p_is_learning_phase BOOLEAN,
+  p_scheduler_state JSONB,
+  p_reviewed_at TIMESTAMPTZ,
+  p_study_date DATE
+)
+RETURNS "public"."user_word_progress" AS $$
+DECLARE
+  v_before user_word_progress;
+  v_after user_word_progress;
+  v_book_before JSONB;
+  v_new_word INTEGER;
+BEGIN
+  -- 1. Lock the word's progress, creating it on the first review
+  SELECT * INTO v_before
+  FROM user_word_progress
+  WHERE user_id = p_user_id AND word_id = p_word_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO user_word_progress (user_id, word_id, book_id, state, due_at)
+    VALUES (p_user_id, p_word_id, p_book_id, 'new', p_reviewed_at)
+    ON CONFLICT (user_id, word_id) DO NOTHING;
+
+    SELECT * INTO v_before
+    FROM user_word_progress
+    WHERE user_id = p_user_id AND word_id = p_word_id
+    FOR UPDATE;
+  END IF;
+
+  -- The client scheduled from an outdated copy (e.g. another tab reviewed the word first)
+  IF v_before.total_reviews <> p_expected_total_reviews THEN
+    RAISE EXCEPTION 'Word progress changed since it was read'
+      USING ERRCODE = '40001';
+  END IF;
+
+  v_new_word := CASE WHEN v_before.state = 'new' THEN 1 ELSE 0 END;
+
+  -- 2. Update progress
+  UPDATE user_word_progress
+  SET
+    state = p_state,
+    difficulty = p_difficulty,
+    stability = p_stability,
+    retrievability = p_retrievability,
+    elapsed_days = p_elapsed_days,
+    scheduled_days = p_scheduled_days,
+    due_at = p_due_at,
+    learning_step = p_learning_step,
+    is_learning_phase = p_is_learning_phase,
+    scheduler_state = p_scheduler_state,
+    last_review_at = p_reviewed_at,
+    total_reviews = total_reviews + 1,
+    correct_reviews = correct_reviews + CASE WHEN p_rating >= 3 THEN 1 ELSE 0 END,
+    reps = reps + CASE WHEN p_rating >= 2 THEN 1 ELSE 0 END,
+    lapses = lapses + CASE WHEN p_rating = 1 THEN 1 ELSE 0 END,
+    updated_at = NOW()
+  WHERE id = v_before.id
+  RETURNING * INTO v_after;
+
+  -- 3. Snapshot the book counters so the review can be undone
+  SELECT to_jsonb(ubp) INTO v_book_before
+  FROM user_book_progress ubp
+  WHERE ubp.user_id = p_user_id AND ubp.book_id = p_book_id
+  FOR UPDATE;
+
+  -- 4. Log the review
+  INSERT INTO review_logs (
+    user_id, word_id, book_id, progress_id, rating,
+    state_before, state_after,
+    difficulty_before, stability_before, difficulty_after, stability_after,
+    scheduled_days, elapsed_days, reviewed_at,
+    progress_before, book_progress_before
+  )
+  VALUES (
+    p_user_id, p_word_id, p_book_id, v_after.id, p_rating,
+    v_before.state, v_after.state,
+    v_before.difficulty, v_before.stability, v_after.difficulty, v_after.stability,
+    v_after.scheduled_days, v_after.elapsed_days, p_reviewed_at,
+    to_jsonb(v_before), v_book_before
+  );
+
+  -- 5. Roll up daily counters and streak for the book
+  INSERT INTO user_book_progress (
+    user_id, book_id, streak_days, total_reviews, reviews_today, new_words_today,
+    last_review_date, last_studied_at
+  )
+  VALUES (
+    p_user_id, p_book_id, 1, 1, 1, v_new_word,
+    p_study_date, p_reviewed_at
+  )
+  ON CONFLICT (user_id, book_id) DO UPDATE
+  SET
+    total_reviews = COALESCE(user_book_progress.total_reviews, 0) + 1,
+    reviews_today = CASE
+      WHEN user_book_progress.last_review_date = p_study_date
+        THEN COALESCE(user_book_progress.reviews_today, 0) + 1
+      ELSE 1
+    END,
+    new_words_today = CASE
+      WHEN user_book_progress.last_review_date = p_study_date
+        THEN COALESCE(user_book_progress.new_words_today, 0) + v_new_word
+      ELSE v_new_word
+    END,
+    streak_days = CASE
+      WHEN user_book_progress.last_review_date = p_study_date
+        THEN user_book_progress.streak_days
+      WHEN user_book_progress.last_review_date = p_study_date - 1
+        THEN COALESCE(user_book_progress.streak_days, 0) + 1
+      ELSE 1
+    END,
+    last_review_date = p_study_date,
+    last_studied_at = p_reviewed_at,
+    updated_at = NOW();
+
+  RETURN v_after;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 3. Undo the user's latest review
+-- Restores the word progress and book counters from the snapshots and
+-- deletes the log entry. Returns NULL when there is nothing to undo, or when
+-- p_word_id is given and the latest review was of another word.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION "public"."undo_last_review"(
+  p_user_id UUID,
+  p_word_id UUID DEFAULT NULL
+)
+RETURNS "public"."user_word_progress" AS $$
+DECLARE
+  v_log review_logs;
+  v_before user_word_progress;
+  v_book_before user_book_progress;
+  v_restored user_word_progress;
+BEGIN
+  SELECT * INTO v_log
+  FROM review_logs
+  WHERE user_id = p_user_id
+  ORDER BY reviewed_at DESC, created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  -- Reviews logged before snapshots existed cannot be restored
+  IF NOT FOUND OR v_log.progress_before IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- The caller expected a different review to be the latest (e.g. another tab graded since)
+  IF p_word_id IS NOT NULL AND v_log.word_id <> p_word_id THEN
+    RETURN NULL;
+  END IF;
+
+  -- 1. Restore the word progress
+  v_before := jsonb_populate_record(NULL::user_word_progress, v_log.progress_before);
+
+  UPDATE user_word_progress
+  SET
+    state = v_before.state,
+    difficulty = v_before.difficulty,
+    stability = v_before.stability,
+    retrievability = v_before.retrievability,
+    elapsed_days = v_before.elapsed_days,
+    scheduled_days = v_before.scheduled_days,
+    due_at = v_before.due_at,
+    learning_step = v_before.learning_step,
+    is_learning_phase = v_before.is_learning_phase,
+    scheduler_state = v_before.scheduler_state,
+    last_review_at = v_before.last_review_at,
+    total_reviews = v_before.total_reviews,
+    correct_reviews = v_before.correct_reviews,
+    reps = v_before.reps,
+    lapses = v_before.lapses,
+    updated_at = NOW()
+  WHERE id = v_log.progress_id
+  RETURNING * INTO v_restored;
+
+  -- 2. Roll back the book counters (the review may have created the row)
+  IF v_log.book_progress_before IS NULL THEN
+    UPDATE user_book_progress
+    SET
+      total_reviews = 0,
+      reviews_today = 0,
+      new_words_today = 0,
+      streak_days = 0,
+      last_review_date = NULL,
+      last_studied_at = NULL,
+      updated_at = NOW()
+    WHERE user_id = p_user_id AND book_id = v_log.book_id;
+  ELSE
+    v_book_before := jsonb_populate_record(NULL::user_book_progress, v_log.book_progress_before);
+
+    UPDATE user_book_progress
+    SET
+      total_reviews = v_book_before.total_reviews,
+      reviews_today = v_book_before.reviews_today,
+      new_words_today = v_book_before.new_words_today,
+      streak_days = v_book_before.streak_days,
+      last_review_date = v_book_before.last_review_date,
+      last_studied_at = v_book_before.last_studied_at,
+      updated_at = NOW()
+    WHERE user_id = p_user_id AND book_id = v_log.book_id;
+  END IF;
+
+  -- 3. Remove the log entry
+  DELETE FROM review_logs WHERE id = v_log.id;
+
+  RETURN v_restored;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION "public"."undo_last_review"(UUID, UUID) TO "anon";
+GRANT EXECUTE ON FUNCTION "public"."undo_last_review"(UUID, UUID) TO "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."undo_last_review"(UUID, UUID) TO "service_role";
@@ -0,0 +1,145 @@
+-- ============================================
+-- Offline Review Replay Migration
+-- Reviews made offline are replayed later, possibly after newer reviews of
+-- the same word or book from another device. apply_review keeps the latest
+-- review time and study date instead of moving them backwards.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION "public"."apply_review"(
+  p_user_id UUID,
+  p_word_id UUID,
+  p_book_id UUID,
+  p_rating INTEGER,
+  p_expected_total_reviews INTEGER,
+  p_state TEXT,
+  p_difficulty FLOAT,
+  p_stability FLOAT,
+  p_retrievability FLOAT,
+  p_elapsed_days INTEGER,
+  p_scheduled_days INTEGER,
+  p_due_at TIMESTAMPTZ,
+  p_learning_step INTEGER,
+  p_is_learning_phase BOOLEAN,
+  p_scheduler_state JSONB,
+  p_reviewed_at TIMESTAMPTZ,
+  p_study_date DATE,
+  p_review_time_ms INTEGER DEFAULT NULL
+)
+RETURNS "public"."user_word_progress" AS $$
+DECLARE
+  v_before user_word_progress;
+  v_after user_word_progress;
+  v_book_before JSONB;
+  v_new_word INTEGER;
+BEGIN
+  -- 1. Lock the word's progress, creating it on the first review
+  SELECT * INTO v_before
+  FROM user_word_progress
+  WHERE user_id = p_user_id AND word_id = p_word_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO user_word_progress (user_id, word_id, book_id, state, due_at)
+    VALUES (p_user_id, p_word_id, p_book_id, 'new', p_reviewed_at)
+    ON CONFLICT (user_id, word_id) DO NOTHING;
+
+    SELECT * INTO v_before
+    FROM user_word_progress
+    WHERE user_id = p_user_id AND word_id = p_word_id
+    FOR UPDATE;
+  END IF;
+
+  -- The client scheduled from an outdated copy (e.g. another tab reviewed the word first)
+  IF v_before.total_reviews <> p_expected_total_reviews THEN
+    RAISE EXCEPTION 'Word progress changed since it was read'
+      USING ERRCODE = '40001';
+  END IF;
+
+  v_new_word := CASE WHEN v_before.state = 'new' THEN 1 ELSE 0 END;
+
+  -- 2. Update progress
+  UPDATE user_word_progress
+  SET
+    state = p_state,
+    difficulty = p_difficulty,
+    stability = p_stability,
+    retrievability = p_retrievability,
+    elapsed_days = p_elapsed_days,
+    scheduled_days = p_scheduled_days,
+    due_at = p_due_at,
+    learning_step = p_learning_step,
+    is_learning_phase = p_is_learning_phase,
+    scheduler_state = p_scheduler_state,
+    -- A replayed offline review may be older than the latest one
+    last_review_at = GREATEST(COALESCE(last_review_at, p_reviewed_at), p_reviewed_at),
+    total_reviews = total_reviews + 1,
+    correct_reviews = correct_reviews + CASE WHEN p_rating >= 3 THEN 1 ELSE 0 END,
+    reps = reps + CASE WHEN p_rating >= 2 THEN 1 ELSE 0 END,
+    lapses = lapses + CASE WHEN p_rating = 1 THEN 1 ELSE 0 END,
+    updated_at = NOW()
+  WHERE id = v_before.id
+  RETURNING * INTO v_after;
+
+  -- 3. Snapshot the book counters so the review can be undone
+  SELECT to_jsonb(ubp) INTO v_book_before
+  FROM user_book_progress ubp
+  WHERE ubp.user_id = p_user_id AND ubp.book_id = p_book_id
+  FOR UPDATE;
+
+  -- 4. Log the review
+  INSERT INTO review_logs (
+    user_id, word_id, book_id, progress_id, rating,
+    state_before, state_after,
+    difficulty_before, stability_before, difficulty_after, stability_after,
+    scheduled_days, elapsed_days, review_time_ms, reviewed_at,
+    progress_before, book_progress_before
+  )
+  VALUES (
+    p_user_id, p_word_id, p_book_id, v_after.id, p_rating,
+    v_before.state, v_after.state,
+    v_before.difficulty, v_before.stability, v_after.difficulty, v_after.stability,
+    v_after.scheduled_days, v_after.elapsed_days, p_review_time_ms, p_reviewed_at,
+    to_jsonb(v_before), v_book_before
+  );
+
+  -- 5. Roll up daily counters and streak for the book
+  INSERT INTO user_book_progress (
+    user_id, book_id, streak_days, total_reviews, reviews_today, new_words_today,
+    last_review_date, last_studied_at
+  )
+  VALUES (
+    p_user_id, p_book_id, 1, 1, 1, v_new_word,
+    p_study_date, p_reviewed_at
+  )
+  ON CONFLICT (user_id, book_id) DO UPDATE
+  SET
+    total_reviews = COALESCE(user_book_progress.total_reviews, 0) + 1,
+    -- A review from an earlier study date only counts towards the total
+    reviews_today = CASE
+      WHEN user_book_progress.last_review_date = p_study_date
+        THEN COALESCE(user_book_progress.reviews_today, 0) + 1
+      WHEN user_book_progress.last_review_date > p_study_date
+        THEN user_book_progress.reviews_today
+      ELSE 1
+    END,
+    new_words_today = CASE
+      WHEN user_book_progress.last_review_date = p_study_date
+        THEN COALESCE(user_book_progress.new_words_today, 0) + v_new_word
+      WHEN user_book_progress.last_review_date > p_study_date
+        THEN user_book_progress.new_words_today
+      ELSE v_new_word
+    END,
+    streak_days = CASE
+      WHEN user_book_progress.last_review_date >= p_study_date
+        THEN user_book_progress.streak_days
+      WHEN user_book_progress.last_review_date = p_study_date - 1
+        THEN COALESCE(user_book_progress.streak_days, 0) + 1
+      ELSE 1
+    END,
+    last_review_date = GREATEST(COALESCE(user_book_progress.last_review_date, p_study_date), p_study_date),
+    last_studied_at = GREATEST(COALESCE(user_book_progress.last_studied_at, p_reviewed_at), p_reviewed_at),
+    updated_at = NOW();
+
+  RETURN v_after;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,45 @@
+-- ============================================
+-- Word Flags Migration
+-- Lets a learner park words outside of FSRS scheduling:
+-- - is_known: "I already know this", never studied
+-- - buried_until: hidden from sessions before this study date
+-- (is_suspended was added with leech detection)
+-- ============================================
+
+-- ============================================
+-- 1. Flags on word progress
+-- ============================================
+
+ALTER TABLE "public"."user_word_progress"
+  ADD COLUMN IF NOT EXISTS "is_known" BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS "buried_until" DATE;
+
+-- ============================================
+-- 2. Known words are never due
+-- ============================================
+
+CREATE OR REPLACE FUNCTION "public"."get_due_load"(
+  p_user_id UUID,
+  p_days INTEGER,
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day DATE,
+  due_count INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    (uwp.due_at AT TIME ZONE p_timezone)::DATE AS day,
+    COUNT(*)::INTEGER AS due_count
+  FROM user_word_progress uwp
+  WHERE uwp.user_id = p_user_id
+    AND uwp.state <> 'new'
+    AND NOT uwp.is_suspended
+    AND NOT uwp.is_known
+    AND uwp.due_at >= NOW()
+    AND uwp.due_at < NOW() + make_interval(days => p_days + 1)
+  GROUP BY 1
+  ORDER BY 1;
+END;
+$$ LANGUAGE plpgsql STABLE;
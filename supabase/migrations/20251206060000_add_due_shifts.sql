@@ -0,0 +1,173 @@
+-- ============================================
+-- Due Shifts Migration
+-- Vacation mode: postpone or advance reviews in bulk for one book or all books.
+-- Every shift logs the due date of each card before and after, so it can be reverted.
+-- ============================================
+
+-- ============================================
+-- 1. Shift log
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS "public"."due_shifts" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- NULL when the shift covered all books
+  "book_id" UUID REFERENCES vocabulary_books(id) ON DELETE CASCADE,
+
+  "action" TEXT NOT NULL CHECK (action IN ('postpone', 'advance')),
+  "days" INTEGER NOT NULL CHECK (days >= 1 AND days <= 365),
+  "card_count" INTEGER NOT NULL DEFAULT 0,
+
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "reverted_at" TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS "public"."due_shift_items" (
+  "id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "shift_id" UUID NOT NULL REFERENCES due_shifts(id) ON DELETE CASCADE,
+  "progress_id" UUID NOT NULL REFERENCES user_word_progress(id) ON DELETE CASCADE,
+  "due_before" TIMESTAMPTZ NOT NULL,
+  "due_after" TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_due_shifts_user" ON "public"."due_shifts" ("user_id", "created_at" DESC);
+CREATE INDEX IF NOT EXISTS "idx_due_shift_items_shift" ON "public"."due_shift_items" ("shift_id");
+
+-- Enable RLS
+ALTER TABLE "public"."due_shifts" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."due_shift_items" ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view own due shifts" ON "public"."due_shifts"
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own due shifts" ON "public"."due_shifts"
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own due shifts" ON "public"."due_shifts"
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own due shift items" ON "public"."due_shift_items"
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM due_shifts ds WHERE ds.id = shift_id AND ds.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can insert own due shift items" ON "public"."due_shift_items"
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM due_shifts ds WHERE ds.id = shift_id AND ds.user_id = auth.uid())
+  );
+
+-- Grant permissions
+GRANT ALL ON TABLE "public"."due_shifts" TO "anon";
+GRANT ALL ON TABLE "public"."due_shifts" TO "authenticated";
+GRANT ALL ON TABLE "public"."due_shifts" TO "service_role";
+GRANT ALL ON TABLE "public"."due_shift_items" TO "anon";
+GRANT ALL ON TABLE "public"."due_shift_items" TO "authenticated";
+GRANT ALL ON TABLE "public"."due_shift_items" TO "service_role";
+
+-- ============================================
+-- 2. Apply a planned shift
+-- p_items: [{ "progress_id", "due_before", "due_after" }, ...] as planned by the client.
+-- Cards whose due date changed since the plan was made (reviewed meanwhile) are skipped.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION "public"."apply_due_shift"(
+  p_user_id UUID,
+  p_book_id UUID,
+  p_action TEXT,
+  p_days INTEGER,
+  p_items JSONB
+)
+RETURNS "public"."due_shifts" AS $$
+DECLARE
+  v_shift due_shifts;
+  v_count INTEGER;
+BEGIN
+  INSERT INTO due_shifts (user_id, book_id, action, days)
+  VALUES (p_user_id, p_book_id, p_action, p_days)
+  RETURNING * INTO v_shift;
+
+  WITH planned AS (
+    SELECT
+      (item->>'progress_id')::UUID AS progress_id,
+      (item->>'due_before')::TIMESTAMPTZ AS due_before,
+      (item->>'due_after')::TIMESTAMPTZ AS due_after
+    FROM jsonb_array_elements(p_items) AS item
+  ),
+  shifted AS (
+    UPDATE user_word_progress uwp
+    SET
+      due_at = planned.due_after,
+      updated_at = NOW()
+    FROM planned
+    WHERE uwp.id = planned.progress_id
+      AND uwp.user_id = p_user_id
+      AND uwp.due_at = planned.due_before
+    RETURNING uwp.id, planned.due_before, planned.due_after
+  )
+  INSERT INTO due_shift_items (shift_id, progress_id, due_before, due_after)
+  SELECT v_shift.id, shifted.id, shifted.due_before, shifted.due_after
+  FROM shifted;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE due_shifts
+  SET card_count = v_count
+  WHERE id = v_shift.id
+  RETURNING * INTO v_shift;
+
+  RETURN v_shift;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION "public"."apply_due_shift"(UUID, UUID, TEXT, INTEGER, JSONB) TO "anon";
+GRANT EXECUTE ON FUNCTION "public"."apply_due_shift"(UUID, UUID, TEXT, INTEGER, JSONB) TO "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."apply_due_shift"(UUID, UUID, TEXT, INTEGER, JSONB) TO "service_role";
+
+-- ============================================
+-- 3. Revert a shift
+-- Restores the previous due date of every card that has not been reviewed since
+-- (its due date is still the shifted one). Returns the number of cards restored,
+-- or NULL when the shift does not exist or was already reverted.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION "public"."revert_due_shift"(
+  p_user_id UUID,
+  p_shift_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_shift due_shifts;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_shift
+  FROM due_shifts
+  WHERE id = p_shift_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_shift.reverted_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE user_word_progress uwp
+  SET
+    due_at = dsi.due_before,
+    updated_at = NOW()
+  FROM due_shift_items dsi
+  WHERE dsi.shift_id = p_shift_id
+    AND uwp.id = dsi.progress_id
+    AND uwp.due_at = dsi.due_after;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE due_shifts
+  SET reverted_at = NOW()
+  WHERE id = p_shift_id;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION "public"."revert_due_shift"(UUID, UUID) TO "anon";
+GRANT EXECUTE ON FUNCTION "public"."revert_due_shift"(UUID, UUID) TO "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."revert_due_shift"(UUID, UUID) TO "service_role";
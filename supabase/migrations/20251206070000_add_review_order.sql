@@ -0,0 +1,14 @@
+-- ============================================
+-- Review Order Migration
+-- Lets a book choose the order of due reviews, and a backlog mode that caps
+-- daily reviews and pauses new words while too many reviews are overdue
+-- ============================================
+
+ALTER TABLE "public"."book_settings"
+  ADD COLUMN IF NOT EXISTS "review_order" TEXT NOT NULL DEFAULT 'due'
+    CHECK ("review_order" IN ('due', 'retrievability', 'difficulty', 'overdue', 'random')),
+  ADD COLUMN IF NOT EXISTS "backlog_mode" BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS "backlog_review_limit" INTEGER NOT NULL DEFAULT 50
+    CHECK ("backlog_review_limit" BETWEEN 1 AND 1000),
+  ADD COLUMN IF NOT EXISTS "backlog_threshold" INTEGER NOT NULL DEFAULT 30
+    CHECK ("backlog_threshold" BETWEEN 1 AND 10000);
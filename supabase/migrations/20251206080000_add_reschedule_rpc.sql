@@ -0,0 +1,47 @@
+-- ============================================
+-- Reschedule Migration
+-- Writes due dates recomputed under new FSRS parameters or a new desired retention.
+-- The client plans the new schedule and sends it in batches.
+-- ============================================
+
+-- ============================================
+-- 1. Apply one batch of a planned reschedule
+-- p_items: [{ "progress_id", "due_before", "due_after", "scheduled_days" }, ...].
+-- Cards whose due date changed since the plan was made (reviewed meanwhile) are skipped.
+-- Returns the number of cards rescheduled.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION "public"."reschedule_cards"(
+  p_user_id UUID,
+  p_items JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  WITH planned AS (
+    SELECT
+      (item->>'progress_id')::UUID AS progress_id,
+      (item->>'due_before')::TIMESTAMPTZ AS due_before,
+      (item->>'due_after')::TIMESTAMPTZ AS due_after,
+      (item->>'scheduled_days')::INTEGER AS scheduled_days
+    FROM jsonb_array_elements(p_items) AS item
+  )
+  UPDATE user_word_progress uwp
+  SET
+    due_at = planned.due_after,
+    scheduled_days = planned.scheduled_days,
+    updated_at = NOW()
+  FROM planned
+  WHERE uwp.id = planned.progress_id
+    AND uwp.user_id = p_user_id
+    AND uwp.due_at = planned.due_before;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION "public"."reschedule_cards"(UUID, JSONB) TO "anon";
+GRANT EXECUTE ON FUNCTION "public"."reschedule_cards"(UUID, JSONB) TO "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."reschedule_cards"(UUID, JSONB) TO "service_role";
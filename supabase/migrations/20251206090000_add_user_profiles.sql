@@ -0,0 +1,74 @@
+-- ============================================
+-- User Profiles Migration
+-- Stores the user's IANA time zone and the hour their study day starts at.
+-- Daily counters, streaks and "due today" are keyed on that local study day.
+-- ============================================
+
+-- ============================================
+-- 1. User profiles
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS "public"."user_profiles" (
+  "user_id" UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  "timezone" TEXT NOT NULL DEFAULT 'UTC',
+  "day_start_hour" INTEGER NOT NULL DEFAULT 4 CHECK (day_start_hour >= 0 AND day_start_hour <= 23),
+
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updated_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE "public"."user_profiles" ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view own profile" ON "public"."user_profiles"
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own profile" ON "public"."user_profiles"
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own profile" ON "public"."user_profiles"
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Grant permissions
+GRANT ALL ON TABLE "public"."user_profiles" TO "anon";
+GRANT ALL ON TABLE "public"."user_profiles" TO "authenticated";
+GRANT ALL ON TABLE "public"."user_profiles" TO "service_role";
+
+-- ============================================
+-- 2. Due load per study day
+-- A review due before the day start hour counts for the day before.
+-- ============================================
+
+DROP FUNCTION IF EXISTS "public"."get_due_load"(UUID, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION "public"."get_due_load"(
+  p_user_id UUID,
+  p_days INTEGER,
+  p_timezone TEXT DEFAULT 'UTC',
+  p_day_start_hour INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  day DATE,
+  due_count INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ((uwp.due_at AT TIME ZONE p_timezone) - make_interval(hours => p_day_start_hour))::DATE AS day,
+    COUNT(*)::INTEGER AS due_count
+  FROM user_word_progress uwp
+  WHERE uwp.user_id = p_user_id
+    AND uwp.state <> 'new'
+    AND NOT uwp.is_suspended
+    AND NOT uwp.is_known
+    AND uwp.due_at >= NOW()
+    AND uwp.due_at < NOW() + make_interval(days => p_days + 1)
+  GROUP BY 1
+  ORDER BY 1;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION "public"."get_due_load"(UUID, INTEGER, TEXT, INTEGER) TO "anon";
+GRANT EXECUTE ON FUNCTION "public"."get_due_load"(UUID, INTEGER, TEXT, INTEGER) TO "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."get_due_load"(UUID, INTEGER, TEXT, INTEGER) TO "service_role";
@@ -0,0 +1,123 @@
+-- ============================================
+-- Custom Study Migration
+-- Cram sessions drill a chosen subset of a book (leeches, recent lapses, a tag,
+-- a random sample) without touching the schedule. Their grades are kept in
+-- review_logs as preview practice, apart from the reviews that schedule cards.
+-- ============================================
+
+-- ============================================
+-- 1. Tags on words, to study a themed subset
+-- ============================================
+
+ALTER TABLE "public"."vocabulary_words"
+  ADD COLUMN IF NOT EXISTS "tags" TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS "idx_vw_tags" ON "public"."vocabulary_words" USING GIN ("tags");
+
+-- ============================================
+-- 2. Preview practice in review_logs
+-- Preview logs change no progress, so they need not point at a progress row
+-- ============================================
+
+ALTER TABLE "public"."review_logs"
+  ADD COLUMN IF NOT EXISTS "is_preview" BOOLEAN NOT NULL DEFAULT FALSE,
+  ALTER COLUMN "progress_id" DROP NOT NULL;
+
+ALTER TABLE "public"."review_logs"
+ADD CONSTRAINT "review_logs_progress_check" CHECK ("is_preview" OR "progress_id" IS NOT NULL);
+
+-- Undoing preview practice removes its log; scheduling reviews are undone by undo_last_review
+CREATE POLICY "Users can delete own preview review logs" ON "public"."review_logs"
+  FOR DELETE USING (auth.uid() = user_id AND is_preview);
+
+-- ============================================
+-- 3. undo_last_review skips preview practice
+-- ============================================
+
+CREATE OR REPLACE FUNCTION "public"."undo_last_review"(
+  p_user_id UUID,
+  p_word_id UUID DEFAULT NULL
+)
+RETURNS "public"."user_word_progress" AS $$
+DECLARE
+  v_log review_logs;
+  v_before user_word_progress;
+  v_book_before user_book_progress;
+  v_restored user_word_progress;
+BEGIN
+  SELECT * INTO v_log
+  FROM review_logs
+  WHERE user_id = p_user_id AND NOT is_preview
+  ORDER BY reviewed_at DESC, created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  -- Reviews logged before snapshots existed cannot be restored
+  IF NOT FOUND OR v_log.progress_before IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- The caller expected a different review to be the latest (e.g. another tab graded since)
+  IF p_word_id IS NOT NULL AND v_log.word_id <> p_word_id THEN
+    RETURN NULL;
+  END IF;
+
+  -- 1. Restore the word progress
+  v_before := jsonb_populate_record(NULL::user_word_progress, v_log.progress_before);
+
+  UPDATE user_word_progress
+  SET
+    state = v_before.state,
+    difficulty = v_before.difficulty,
+    stability = v_before.stability,
+    retrievability = v_before.retrievability,
+    elapsed_days = v_before.elapsed_days,
+    scheduled_days = v_before.scheduled_days,
+    due_at = v_before.due_at,
+    learning_step = v_before.learning_step,
+    is_learning_phase = v_before.is_learning_phase,
+    scheduler_state = v_before.scheduler_state,
+    last_review_at = v_before.last_review_at,
+    total_reviews = v_before.total_reviews,
+    correct_reviews = v_before.correct_reviews,
+    reps = v_before.reps,
+    lapses = v_before.lapses,
+    is_leech = COALESCE(v_before.is_leech, FALSE),
+    is_suspended = COALESCE(v_before.is_suspended, FALSE),
+    updated_at = NOW()
+  WHERE id = v_log.progress_id
+  RETURNING * INTO v_restored;
+
+  -- 2. Roll back the book counters (the review may have created the row)
+  IF v_log.book_progress_before IS NULL THEN
+    UPDATE user_book_progress
+    SET
+      total_reviews = 0,
+      reviews_today = 0,
+      new_words_today = 0,
+      streak_days = 0,
+      last_review_date = NULL,
+      last_studied_at = NULL,
+      updated_at = NOW()
+    WHERE user_id = p_user_id AND book_id = v_log.book_id;
+  ELSE
+    v_book_before := jsonb_populate_record(NULL::user_book_progress, v_log.book_progress_before);
+
+    UPDATE user_book_progress
+    SET
+      total_reviews = v_book_before.total_reviews,
+      reviews_today = v_book_before.reviews_today,
+      new_words_today = v_book_before.new_words_today,
+      streak_days = v_book_before.streak_days,
+      last_review_date = v_book_before.last_review_date,
+      last_studied_at = v_book_before.last_studied_at,
+      updated_at = NOW()
+    WHERE user_id = p_user_id AND book_id = v_log.book_id;
+  END IF;
+
+  -- 3. Remove the log entry
+  DELETE FROM review_logs WHERE id = v_log.id;
+
+  RETURN v_restored;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,239 @@
+-- ============================================
+-- Card Templates Migration
+-- A word can be studied through several cards, each with its own schedule:
+-- recognition (word -> meaning), recall (meaning -> word), cloze (the example
+-- sentence with the word blanked out) and listening (audio -> spelling).
+-- Each book chooses which templates it uses.
+-- ============================================
+
+-- ============================================
+-- 1. Book settings
+-- Books studied in spelling mode were practising recall all along
+-- ============================================
+
+ALTER TABLE "public"."book_settings"
+  ADD COLUMN IF NOT EXISTS "card_templates" TEXT[] NOT NULL DEFAULT '{recognition}'
+    CHECK (
+      cardinality("card_templates") > 0
+      AND "card_templates" <@ ARRAY['recognition', 'recall', 'cloze', 'listening']
+    );
+
+UPDATE "public"."book_settings"
+SET "card_templates" = '{recall}'
+WHERE "learning_mode" = 'spelling';
+
+-- ============================================
+-- 2. One progress row per card
+-- ============================================
+
+ALTER TABLE "public"."user_word_progress"
+  ADD COLUMN IF NOT EXISTS "card_type" TEXT NOT NULL DEFAULT 'recognition'
+    CHECK ("card_type" IN ('recognition', 'recall', 'cloze', 'listening'));
+
+UPDATE "public"."user_word_progress" uwp
+SET "card_type" = 'recall'
+FROM "public"."book_settings" bs
+WHERE bs.user_id = uwp.user_id
+  AND bs.book_id = uwp.book_id
+  AND bs.learning_mode = 'spelling';
+
+ALTER TABLE "public"."user_word_progress"
+  DROP CONSTRAINT IF EXISTS "user_word_progress_user_id_word_id_key";
+
+ALTER TABLE "public"."user_word_progress"
+  ADD CONSTRAINT "user_word_progress_user_id_word_id_card_type_key" UNIQUE ("user_id", "word_id", "card_type");
+
+-- ============================================
+-- 3. Review logs record the card they belong to
+-- ============================================
+
+ALTER TABLE "public"."review_logs"
+  ADD COLUMN IF NOT EXISTS "card_type" TEXT NOT NULL DEFAULT 'recognition'
+    CHECK ("card_type" IN ('recognition', 'recall', 'cloze', 'listening'));
+
+UPDATE "public"."review_logs" rl
+SET "card_type" = uwp.card_type
+FROM "public"."user_word_progress" uwp
+WHERE uwp.id = rl.progress_id;
+
+CREATE INDEX IF NOT EXISTS "idx_review_logs_user_word_card"
+  ON "public"."review_logs" ("user_id", "word_id", "card_type");
+
+-- ============================================
+-- 4. apply_review works on one card of the word
+-- ============================================
+
+DROP FUNCTION IF EXISTS "public"."apply_review"(UUID, UUID, UUID, INTEGER, INTEGER, TEXT, FLOAT, FLOAT, FLOAT, INTEGER, INTEGER, TIMESTAMPTZ, INTEGER, BOOLEAN, JSONB, TIMESTAMPTZ, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION "public"."apply_review"(
+  p_user_id UUID,
+  p_word_id UUID,
+  p_book_id UUID,
+  p_rating INTEGER,
+  p_expected_total_reviews INTEGER,
+  p_state TEXT,
+  p_difficulty FLOAT,
+  p_stability FLOAT,
+  p_retrievability FLOAT,
+  p_elapsed_days INTEGER,
+  p_scheduled_days INTEGER,
+  p_due_at TIMESTAMPTZ,
+  p_learning_step INTEGER,
+  p_is_learning_phase BOOLEAN,
+  p_scheduler_state JSONB,
+  p_reviewed_at TIMESTAMPTZ,
+  p_study_date DATE,
+  p_review_time_ms INTEGER DEFAULT NULL,
+  p_card_type TEXT DEFAULT 'recognition'
+)
+RETURNS "public"."user_word_progress" AS $$
+DECLARE
+  v_before user_word_progress;
+  v_after user_word_progress;
+  v_book_before JSONB;
+  v_new_word INTEGER;
+  v_leech_threshold INTEGER;
+  v_leech_action TEXT;
+BEGIN
+  -- 1. Lock the card's progress, creating it on the first review
+  SELECT * INTO v_before
+  FROM user_word_progress
+  WHERE user_id = p_user_id AND word_id = p_word_id AND card_type = p_card_type
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    -- The learner's note belongs to the word, so a new card starts with it
+    INSERT INTO user_word_progress (user_id, word_id, book_id, card_type, state, due_at, note)
+    VALUES (
+      p_user_id, p_word_id, p_book_id, p_card_type, 'new', p_reviewed_at,
+      (SELECT note FROM user_word_progress
+       WHERE user_id = p_user_id AND word_id = p_word_id AND note IS NOT NULL
+       LIMIT 1)
+    )
+    ON CONFLICT (user_id, word_id, card_type) DO NOTHING;
+
+    SELECT * INTO v_before
+    FROM user_word_progress
+    WHERE user_id = p_user_id AND word_id = p_word_id AND card_type = p_card_type
+    FOR UPDATE;
+  END IF;
+
+  -- The client scheduled from an outdated copy (e.g. another tab reviewed the card first)
+  IF v_before.total_reviews <> p_expected_total_reviews THEN
+    RAISE EXCEPTION 'Word progress changed since it was read'
+      USING ERRCODE = '40001';
+  END IF;
+
+  v_new_word := CASE WHEN v_before.state = 'new' THEN 1 ELSE 0 END;
+
+  -- 2. Update progress
+  UPDATE user_word_progress
+  SET
+    state = p_state,
+    difficulty = p_difficulty,
+    stability = p_stability,
+    retrievability = p_retrievability,
+    elapsed_days = p_elapsed_days,
+    scheduled_days = p_scheduled_days,
+    due_at = p_due_at,
+    learning_step = p_learning_step,
+    is_learning_phase = p_is_learning_phase,
+    scheduler_state = p_scheduler_state,
+    -- A replayed offline review may be older than the latest one
+    last_review_at = GREATEST(COALESCE(last_review_at, p_reviewed_at), p_reviewed_at),
+    total_reviews = total_reviews + 1,
+    correct_reviews = correct_reviews + CASE WHEN p_rating >= 3 THEN 1 ELSE 0 END,
+    reps = reps + CASE WHEN p_rating >= 2 THEN 1 ELSE 0 END,
+    lapses = lapses + CASE WHEN p_rating = 1 THEN 1 ELSE 0 END,
+    updated_at = NOW()
+  WHERE id = v_before.id
+  RETURNING * INTO v_after;
+
+  -- Flag leeches: on reaching the book's lapse threshold, then again every half
+  -- threshold, so a word that was unsuspended gets suspended again if it keeps failing
+  IF p_rating = 1 THEN
+    SELECT leech_threshold, leech_action INTO v_leech_threshold, v_leech_action
+    FROM book_settings
+    WHERE user_id = p_user_id AND book_id = p_book_id;
+
+    v_leech_threshold := COALESCE(v_leech_threshold, 8);
+    v_leech_action := COALESCE(v_leech_action, 'flag');
+
+    IF v_after.lapses >= v_leech_threshold
+      AND (v_after.lapses - v_leech_threshold) % GREATEST(v_leech_threshold / 2, 1) = 0 THEN
+      UPDATE user_word_progress
+      SET
+        is_leech = TRUE,
+        is_suspended = is_suspended OR v_leech_action = 'suspend'
+      WHERE id = v_after.id
+      RETURNING * INTO v_after;
+    END IF;
+  END IF;
+
+  -- 3. Snapshot the book counters so the review can be undone
+  SELECT to_jsonb(ubp) INTO v_book_before
+  FROM user_book_progress ubp
+  WHERE ubp.user_id = p_user_id AND ubp.book_id = p_book_id
+  FOR UPDATE;
+
+  -- 4. Log the review
+  INSERT INTO review_logs (
+    user_id, word_id, book_id, progress_id, card_type, rating,
+    state_before, state_after,
+    difficulty_before, stability_before, difficulty_after, stability_after,
+    scheduled_days, elapsed_days, review_time_ms, reviewed_at,
+    progress_before, book_progress_before
+  )
+  VALUES (
+    p_user_id, p_word_id, p_book_id, v_after.id, p_card_type, p_rating,
+    v_before.state, v_after.state,
+    v_before.difficulty, v_before.stability, v_after.difficulty, v_after.stability,
+    v_after.scheduled_days, v_after.elapsed_days, p_review_time_ms, p_reviewed_at,
+    to_jsonb(v_before), v_book_before
+  );
+
+  -- 5. Roll up daily counters and streak for the book
+  INSERT INTO user_book_progress (
+    user_id, book_id, streak_days, total_reviews, reviews_today, new_words_today,
+    last_review_date, last_studied_at
+  )
+  VALUES (
+    p_user_id, p_book_id, 1, 1, 1, v_new_word,
+    p_study_date, p_reviewed_at
+  )
+  ON CONFLICT (user_id, book_id) DO UPDATE
+  SET
+    total_reviews = COALESCE(user_book_progress.total_reviews, 0) + 1,
+    -- A review from an earlier study date only counts towards the total
+    reviews_today = CASE
+      WHEN user_book_progress.last_review_date = p_study_date
+        THEN COALESCE(user_book_progress.reviews_today, 0) + 1
+      WHEN user_book_progress.last_review_date > p_study_date
+        THEN user_book_progress.reviews_today
+      ELSE 1
+    END,
+    new_words_today = CASE
+      WHEN user_book_progress.last_review_date = p_study_date
+        THEN COALESCE(user_book_progress.new_words_today, 0) + v_new_word
+      WHEN user_book_progress.last_review_date > p_study_date
+        THEN user_book_progress.new_words_today
+      ELSE v_new_word
+    END,
+    streak_days = CASE
+      WHEN user_book_progress.last_review_date >= p_study_date
+        THEN user_book_progress.streak_days
+      WHEN user_book_progress.last_review_date = p_study_date - 1
+        THEN COALESCE(user_book_progress.streak_days, 0) + 1
+      ELSE 1
+    END,
+    last_review_date = GREATEST(COALESCE(user_book_progress.last_review_date, p_study_date), p_study_date),
+    last_studied_at = GREATEST(COALESCE(user_book_progress.last_studied_at, p_reviewed_at), p_reviewed_at),
+    updated_at = NOW();
+
+  RETURN v_after;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION "public"."apply_review"(UUID, UUID, UUID, INTEGER, INTEGER, TEXT, FLOAT, FLOAT, FLOAT, INTEGER, INTEGER, TIMESTAMPTZ, INTEGER, BOOLEAN, JSONB, TIMESTAMPTZ, DATE, INTEGER, TEXT) TO "anon";
+GRANT EXECUTE ON FUNCTION "public"."apply_review"(UUID, UUID, UUID, INTEGER, INTEGER, TEXT, FLOAT, FLOAT, FLOAT, INTEGER, INTEGER, TIMESTAMPTZ, INTEGER, BOOLEAN, JSONB, TIMESTAMPTZ, DATE, INTEGER, TEXT) TO "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."apply_review"(UUID, UUID, UUID, INTEGER, INTEGER, TEXT, FLOAT, FLOAT, FLOAT, INTEGER, INTEGER, TIMESTAMPTZ, INTEGER, BOOLEAN, JSONB, TIMESTAMPTZ, DATE, INTEGER, TEXT) TO "service_role";
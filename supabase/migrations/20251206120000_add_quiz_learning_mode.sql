@@ -0,0 +1,12 @@
+-- ============================================
+-- Quiz Learning Mode
+-- Cards are answered by picking the right one of four choices; the rating is
+-- derived from correctness and answer time (read_only | spelling | quiz)
+-- ============================================
+
+ALTER TABLE "public"."book_settings"
+  DROP CONSTRAINT IF EXISTS "book_settings_learning_mode_check";
+
+ALTER TABLE "public"."book_settings"
+  ADD CONSTRAINT "book_settings_learning_mode_check"
+  CHECK ("learning_mode" IN ('read_only', 'spelling', 'quiz'));
@@ -0,0 +1,106 @@
+-- ============================================
+-- Card-Aware Undo
+-- A word has one card per template, so the latest review can be of another card
+-- of the same word. undo_last_review takes the card type the caller expects and
+-- leaves a sibling card's review alone.
+-- ============================================
+
+DROP FUNCTION IF EXISTS "public"."undo_last_review"(UUID, UUID);
+
+CREATE OR REPLACE FUNCTION "public"."undo_last_review"(
+  p_user_id UUID,
+  p_word_id UUID DEFAULT NULL,
+  p_card_type TEXT DEFAULT NULL
+)
+RETURNS "public"."user_word_progress" AS $$
+DECLARE
+  v_log review_logs;
+  v_before user_word_progress;
+  v_book_before user_book_progress;
+  v_restored user_word_progress;
+BEGIN
+  SELECT * INTO v_log
+  FROM review_logs
+  WHERE user_id = p_user_id AND NOT is_preview
+  ORDER BY reviewed_at DESC, created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  -- Reviews logged before snapshots existed cannot be restored
+  IF NOT FOUND OR v_log.progress_before IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- The caller expected a different review to be the latest (e.g. another tab graded
+  -- since, possibly another card of the same word)
+  IF p_word_id IS NOT NULL AND v_log.word_id <> p_word_id THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_card_type IS NOT NULL AND v_log.card_type IS DISTINCT FROM p_card_type THEN
+    RETURN NULL;
+  END IF;
+
+  -- 1. Restore the word progress
+  v_before := jsonb_populate_record(NULL::user_word_progress, v_log.progress_before);
+
+  UPDATE user_word_progress
+  SET
+    state = v_before.state,
+    difficulty = v_before.difficulty,
+    stability = v_before.stability,
+    retrievability = v_before.retrievability,
+    elapsed_days = v_before.elapsed_days,
+    scheduled_days = v_before.scheduled_days,
+    due_at = v_before.due_at,
+    learning_step = v_before.learning_step,
+    is_learning_phase = v_before.is_learning_phase,
+    scheduler_state = v_before.scheduler_state,
+    last_review_at = v_before.last_review_at,
+    total_reviews = v_before.total_reviews,
+    correct_reviews = v_before.correct_reviews,
+    reps = v_before.reps,
+    lapses = v_before.lapses,
+    is_leech = COALESCE(v_before.is_leech, FALSE),
+    is_suspended = COALESCE(v_before.is_suspended, FALSE),
+    updated_at = NOW()
+  WHERE id = v_log.progress_id
+  RETURNING * INTO v_restored;
+
+  -- 2. Roll back the book counters (the review may have created the row)
+  IF v_log.book_progress_before IS NULL THEN
+    UPDATE user_book_progress
+    SET
+      total_reviews = 0,
+      reviews_today = 0,
+      new_words_today = 0,
+      streak_days = 0,
+      last_review_date = NULL,
+      last_studied_at = NULL,
+      updated_at = NOW()
+    WHERE user_id = p_user_id AND book_id = v_log.book_id;
+  ELSE
+    v_book_before := jsonb_populate_record(NULL::user_book_progress, v_log.book_progress_before);
+
+    UPDATE user_book_progress
+    SET
+      total_reviews = v_book_before.total_reviews,
+      reviews_today = v_book_before.reviews_today,
+      new_words_today = v_book_before.new_words_today,
+      streak_days = v_book_before.streak_days,
+      last_review_date = v_book_before.last_review_date,
+      last_studied_at = v_book_before.last_studied_at,
+      updated_at = NOW()
+    WHERE user_id = p_user_id AND book_id = v_log.book_id;
+  END IF;
+
+  -- 3. Remove the log entry
+  DELETE FROM review_logs WHERE id = v_log.id;
+
+  RETURN v_restored;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION "public"."undo_last_review"(UUID, UUID, TEXT) TO "anon";
+GRANT EXECUTE ON FUNCTION "public"."undo_last_review"(UUID, UUID, TEXT) TO "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."undo_last_review"(UUID, UUID, TEXT) TO "service_role";
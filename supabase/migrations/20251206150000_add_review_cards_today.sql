@@ -0,0 +1,311 @@
+-- ============================================
+-- Daily Review Count
+-- reviews_today counts every graded card, learning and relearning steps
+-- included, so it cannot tell how much of the daily review limit is used.
+-- review_cards_today counts only grades of cards that were in the review state.
+-- ============================================
+
+-- ============================================
+-- 1. Book progress counter
+-- Starts from the previous estimate: today's grades minus today's new cards
+-- ============================================
+
+ALTER TABLE "public"."user_book_progress"
+  ADD COLUMN IF NOT EXISTS "review_cards_today" INTEGER NOT NULL DEFAULT 0;
+
+UPDATE "public"."user_book_progress"
+SET "review_cards_today" = GREATEST(COALESCE("reviews_today", 0) - COALESCE("new_words_today", 0), 0);
+
+-- ============================================
+-- 2. apply_review counts grades of review cards
+-- ============================================
+
+CREATE OR REPLACE FUNCTION "public"."apply_review"(
+  p_user_id UUID,
+  p_word_id UUID,
+  p_book_id UUID,
+  p_rating INTEGER,
+  p_expected_total_reviews INTEGER,
+  p_state TEXT,
+  p_difficulty FLOAT,
+  p_stability FLOAT,
+  p_retrievability FLOAT,
+  p_elapsed_days INTEGER,
+  p_scheduled_days INTEGER,
+  p_due_at TIMESTAMPTZ,
+  p_learning_step INTEGER,
+  p_is_learning_phase BOOLEAN,
+  p_scheduler_state JSONB,
+  p_reviewed_at TIMESTAMPTZ,
+  p_study_date DATE,
+  p_review_time_ms INTEGER DEFAULT NULL,
+  p_card_type TEXT DEFAULT 'recognition',
+  p_counters JSONB DEFAULT NULL
+)
+RETURNS "public"."user_word_progress" AS $$
+DECLARE
+  v_before user_word_progress;
+  v_after user_word_progress;
+  v_book_before JSONB;
+  v_new_word INTEGER;
+  v_review_card INTEGER;
+  v_leech_threshold INTEGER;
+  v_leech_action TEXT;
+BEGIN
+  -- 1. Lock the card's progress, creating it on the first review
+  SELECT * INTO v_before
+  FROM user_word_progress
+  WHERE user_id = p_user_id AND word_id = p_word_id AND card_type = p_card_type
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    -- The learner's note belongs to the word, so a new card starts with it
+    INSERT INTO user_word_progress (user_id, word_id, book_id, card_type, state, due_at, note)
+    VALUES (
+      p_user_id, p_word_id, p_book_id, p_card_type, 'new', p_reviewed_at,
+      (SELECT note FROM user_word_progress
+       WHERE user_id = p_user_id AND word_id = p_word_id AND note IS NOT NULL
+       LIMIT 1)
+    )
+    ON CONFLICT (user_id, word_id, card_type) DO NOTHING;
+
+    SELECT * INTO v_before
+    FROM user_word_progress
+    WHERE user_id = p_user_id AND word_id = p_word_id AND card_type = p_card_type
+    FOR UPDATE;
+  END IF;
+
+  -- The client scheduled from an outdated copy (e.g. another tab reviewed the card first)
+  IF v_before.total_reviews <> p_expected_total_reviews THEN
+    RAISE EXCEPTION 'Word progress changed since it was read'
+      USING ERRCODE = '40001';
+  END IF;
+
+  v_new_word := CASE WHEN v_before.state = 'new' THEN 1 ELSE 0 END;
+  -- Only cards due from the review state use the daily review limit
+  v_review_card := CASE WHEN v_before.state = 'review' THEN 1 ELSE 0 END;
+
+  -- 2. Update progress
+  UPDATE user_word_progress
+  SET
+    state = p_state,
+    difficulty = p_difficulty,
+    stability = p_stability,
+    retrievability = p_retrievability,
+    elapsed_days = p_elapsed_days,
+    scheduled_days = p_scheduled_days,
+    due_at = p_due_at,
+    learning_step = p_learning_step,
+    is_learning_phase = p_is_learning_phase,
+    scheduler_state = p_scheduler_state,
+    -- A replayed offline review may be older than the latest one
+    last_review_at = GREATEST(COALESCE(last_review_at, p_reviewed_at), p_reviewed_at),
+    -- A replay rebuilt from the review logs already counts this review
+    total_reviews = COALESCE((p_counters->>'total_reviews')::INTEGER, total_reviews + 1),
+    correct_reviews = COALESCE(
+      (p_counters->>'correct_reviews')::INTEGER,
+      correct_reviews + CASE WHEN p_rating >= 3 THEN 1 ELSE 0 END
+    ),
+    reps = COALESCE((p_counters->>'reps')::INTEGER, reps + CASE WHEN p_rating >= 2 THEN 1 ELSE 0 END),
+    lapses = COALESCE((p_counters->>'lapses')::INTEGER, lapses + CASE WHEN p_rating = 1 THEN 1 ELSE 0 END),
+    updated_at = NOW()
+  WHERE id = v_before.id
+  RETURNING * INTO v_after;
+
+  -- Flag leeches: on reaching the book's lapse threshold, then again every half
+  -- threshold, so a word that was unsuspended gets suspended again if it keeps failing
+  IF p_rating = 1 THEN
+    SELECT leech_threshold, leech_action INTO v_leech_threshold, v_leech_action
+    FROM book_settings
+    WHERE user_id = p_user_id AND book_id = p_book_id;
+
+    v_leech_threshold := COALESCE(v_leech_threshold, 8);
+    v_leech_action := COALESCE(v_leech_action, 'flag');
+
+    IF v_after.lapses >= v_leech_threshold
+      AND (v_after.lapses - v_leech_threshold) % GREATEST(v_leech_threshold / 2, 1) = 0 THEN
+      UPDATE user_word_progress
+      SET
+        is_leech = TRUE,
+        is_suspended = is_suspended OR v_leech_action = 'suspend'
+      WHERE id = v_after.id
+      RETURNING * INTO v_after;
+    END IF;
+  END IF;
+
+  -- 3. Snapshot the book counters so the review can be undone
+  SELECT to_jsonb(ubp) INTO v_book_before
+  FROM user_book_progress ubp
+  WHERE ubp.user_id = p_user_id AND ubp.book_id = p_book_id
+  FOR UPDATE;
+
+  -- 4. Log the review; the snapshot is the row this review replaced, even when
+  -- a replayed review is older than the reviews already applied
+  INSERT INTO review_logs (
+    user_id, word_id, book_id, progress_id, card_type, rating,
+    state_before, state_after,
+    difficulty_before, stability_before, difficulty_after, stability_after,
+    scheduled_days, elapsed_days, review_time_ms, reviewed_at,
+    progress_before, book_progress_before
+  )
+  VALUES (
+    p_user_id, p_word_id, p_book_id, v_after.id, p_card_type, p_rating,
+    v_before.state, v_after.state,
+    v_before.difficulty, v_before.stability, v_after.difficulty, v_after.stability,
+    v_after.scheduled_days, v_after.elapsed_days, p_review_time_ms, p_reviewed_at,
+    to_jsonb(v_before), v_book_before
+  );
+
+  -- 5. Roll up daily counters and streak for the book
+  INSERT INTO user_book_progress (
+    user_id, book_id, streak_days, total_reviews, reviews_today, new_words_today,
+    review_cards_today, last_review_date, last_studied_at
+  )
+  VALUES (
+    p_user_id, p_book_id, 1, 1, 1, v_new_word,
+    v_review_card, p_study_date, p_reviewed_at
+  )
+  ON CONFLICT (user_id, book_id) DO UPDATE
+  SET
+    total_reviews = COALESCE(user_book_progress.total_reviews, 0) + 1,
+    -- A review from an earlier study date only counts towards the total
+    reviews_today = CASE
+      WHEN user_book_progress.last_review_date = p_study_date
+        THEN COALESCE(user_book_progress.reviews_today, 0) + 1
+      WHEN user_book_progress.last_review_date > p_study_date
+        THEN user_book_progress.reviews_today
+      ELSE 1
+    END,
+    new_words_today = CASE
+      WHEN user_book_progress.last_review_date = p_study_date
+        THEN COALESCE(user_book_progress.new_words_today, 0) + v_new_word
+      WHEN user_book_progress.last_review_date > p_study_date
+        THEN user_book_progress.new_words_today
+      ELSE v_new_word
+    END,
+    review_cards_today = CASE
+      WHEN user_book_progress.last_review_date = p_study_date
+        THEN COALESCE(user_book_progress.review_cards_today, 0) + v_review_card
+      WHEN user_book_progress.last_review_date > p_study_date
+        THEN user_book_progress.review_cards_today
+      ELSE v_review_card
+    END,
+    streak_days = CASE
+      WHEN user_book_progress.last_review_date >= p_study_date
+        THEN user_book_progress.streak_days
+      WHEN user_book_progress.last_review_date = p_study_date - 1
+        THEN COALESCE(user_book_progress.streak_days, 0) + 1
+      ELSE 1
+    END,
+    last_review_date = GREATEST(COALESCE(user_book_progress.last_review_date, p_study_date), p_study_date),
+    last_studied_at = GREATEST(COALESCE(user_book_progress.last_studied_at, p_reviewed_at), p_reviewed_at),
+    updated_at = NOW();
+
+  RETURN v_after;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION "public"."apply_review"(UUID, UUID, UUID, INTEGER, INTEGER, TEXT, FLOAT, FLOAT, FLOAT, INTEGER, INTEGER, TIMESTAMPTZ, INTEGER, BOOLEAN, JSONB, TIMESTAMPTZ, DATE, INTEGER, TEXT, JSONB) TO "anon";
+GRANT EXECUTE ON FUNCTION "public"."apply_review"(UUID, UUID, UUID, INTEGER, INTEGER, TEXT, FLOAT, FLOAT, FLOAT, INTEGER, INTEGER, TIMESTAMPTZ, INTEGER, BOOLEAN, JSONB, TIMESTAMPTZ, DATE, INTEGER, TEXT, JSONB) TO "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."apply_review"(UUID, UUID, UUID, INTEGER, INTEGER, TEXT, FLOAT, FLOAT, FLOAT, INTEGER, INTEGER, TIMESTAMPTZ, INTEGER, BOOLEAN, JSONB, TIMESTAMPTZ, DATE, INTEGER, TEXT, JSONB) TO "service_role";
+
+-- ============================================
+-- 3. undo_last_review rolls the counter back
+-- ============================================
+
+CREATE OR REPLACE FUNCTION "public"."undo_last_review"(
+  p_user_id UUID,
+  p_word_id UUID DEFAULT NULL,
+  p_card_type TEXT DEFAULT NULL
+)
+RETURNS "public"."user_word_progress" AS $$
+DECLARE
+  v_log review_logs;
+  v_before user_word_progress;
+  v_book_before user_book_progress;
+  v_restored user_word_progress;
+BEGIN
+  SELECT * INTO v_log
+  FROM review_logs
+  WHERE user_id = p_user_id AND NOT is_preview
+  ORDER BY created_at DESC, reviewed_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  -- Reviews logged before snapshots existed cannot be restored
+  IF NOT FOUND OR v_log.progress_before IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- The caller expected a different review to be the latest (e.g. another tab graded
+  -- since, possibly another card of the same word)
+  IF p_word_id IS NOT NULL AND v_log.word_id <> p_word_id THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_card_type IS NOT NULL AND v_log.card_type IS DISTINCT FROM p_card_type THEN
+    RETURN NULL;
+  END IF;
+
+  -- 1. Restore the word progress
+  v_before := jsonb_populate_record(NULL::user_word_progress, v_log.progress_before);
+
+  UPDATE user_word_progress
+  SET
+    state = v_before.state,
+    difficulty = v_before.difficulty,
+    stability = v_before.stability,
+    retrievability = v_before.retrievability,
+    elapsed_days = v_before.elapsed_days,
+    scheduled_days = v_before.scheduled_days,
+    due_at = v_before.due_at,
+    learning_step = v_before.learning_step,
+    is_learning_phase = v_before.is_learning_phase,
+    scheduler_state = v_before.scheduler_state,
+    last_review_at = v_before.last_review_at,
+    total_reviews = v_before.total_reviews,
+    correct_reviews = v_before.correct_reviews,
+    reps = v_before.reps,
+    lapses = v_before.lapses,
+    is_leech = COALESCE(v_before.is_leech, FALSE),
+    is_suspended = COALESCE(v_before.is_suspended, FALSE),
+    updated_at = NOW()
+  WHERE id = v_log.progress_id
+  RETURNING * INTO v_restored;
+
+  -- 2. Roll back the book counters (the review may have created the row)
+  IF v_log.book_progress_before IS NULL THEN
+    UPDATE user_book_progress
+    SET
+      total_reviews = 0,
+      reviews_today = 0,
+      new_words_today = 0,
+      review_cards_today = 0,
+      streak_days = 0,
+      last_review_date = NULL,
+      last_studied_at = NULL,
+      updated_at = NOW()
+    WHERE user_id = p_user_id AND book_id = v_log.book_id;
+  ELSE
+    v_book_before := jsonb_populate_record(NULL::user_book_progress, v_log.book_progress_before);
+
+    UPDATE user_book_progress
+    SET
+      total_reviews = v_book_before.total_reviews,
+      reviews_today = v_book_before.reviews_today,
+      new_words_today = v_book_before.new_words_today,
+      -- Snapshots taken before the counter existed have none
+      review_cards_today = COALESCE(v_book_before.review_cards_today, 0),
+      streak_days = v_book_before.streak_days,
+      last_review_date = v_book_before.last_review_date,
+      last_studied_at = v_book_before.last_studied_at,
+      updated_at = NOW()
+    WHERE user_id = p_user_id AND book_id = v_log.book_id;
+  END IF;
+
+  -- 3. Remove the log entry
+  DELETE FROM review_logs WHERE id = v_log.id;
+
+  RETURN v_restored;
+END;
+$$ LANGUAGE plpgsql;